@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import StarryNight from './components/StarryNight';
 import TodoList from './components/TodoList';
 import { Todo } from './types';
@@ -11,6 +11,7 @@ interface SyncState {
 const App: React.FC = () => {
   const [goals, setGoals] = useState<Todo[]>([]);
   const [syncState, setSyncState] = useState<SyncState>({ status: 'disconnected', lastSyncedAt: null });
+  const [isFocusMode, setIsFocusMode] = useState(false);
   const forceSyncRef = useRef<(() => Promise<{ success: boolean; error?: string }>) | null>(null);
 
   const handleSyncStateChange = useCallback((state: SyncState) => {
@@ -28,10 +29,15 @@ const App: React.FC = () => {
     return { success: false, error: 'Sync not ready' };
   }, []);
 
+  // The scene only measures itself on window resize: let it refit when focus mode expands or shrinks it
+  useEffect(() => {
+    window.dispatchEvent(new Event('resize'));
+  }, [isFocusMode]);
+
   return (
     <div className="h-screen w-screen flex flex-col overflow-hidden">
-      {/* Top 1/3: Visuals */}
-      <div className="h-[33vh] w-full flex-shrink-0 z-10 shadow-2xl shadow-slate-900/50">
+      {/* Top 1/3: Visuals (the whole screen behind the Pomodoro countdown in focus mode) */}
+      <div className={isFocusMode ? 'fixed inset-0 z-40' : 'h-[33vh] w-full flex-shrink-0 z-10 shadow-2xl shadow-slate-900/50'}>
         <StarryNight 
           goals={goals} 
           syncState={syncState}
@@ -45,6 +51,7 @@ const App: React.FC = () => {
           onGoalsChange={setGoals}
           onSyncStateChange={handleSyncStateChange}
           onForceSyncReady={handleForceSyncReady}
+          onFocusModeChange={setIsFocusMode}
         />
       </div>
     </div>
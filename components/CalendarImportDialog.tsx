@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarDays, X, Repeat, Square, CheckSquare } from 'lucide-react';
+import { Todo } from '../types';
+import { CalendarEvent, getEventDayKey, getEventMinutes } from '../utils/ics';
+import { DayBoundary } from '../utils/dayBoundary';
+import { parseDateKey } from '../utils/schedule';
+import { formatMinutes } from '../utils/capacity';
+import DestinationPicker, { ROOT_DESTINATION } from './DestinationPicker';
+
+interface CalendarImportDialogProps {
+    fileName: string;
+    events: CalendarEvent[]; // Not imported yet
+    skipped: number; // Events already imported before (same UID)
+    todos: Todo[];
+    todayKey: string;
+    dayBoundary: DayBoundary;
+    onConfirm: (events: CalendarEvent[], parentId?: string) => void; // Closes the dialog once imported
+    onCancel: () => void;
+}
+
+const formatEventTime = (event: CalendarEvent, dayKey: string) => {
+    const day = parseDateKey(dayKey).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+    if (event.allDay) return `${day} · All day`;
+    return `${day} · ${new Date(event.start).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+const CalendarImportDialog: React.FC<CalendarImportDialogProps> = ({ fileName, events, skipped, todos, todayKey, dayBoundary, onConfirm, onCancel }) => {
+    const dayKeys = useMemo(() => new Map(events.map(e => [e.uid, getEventDayKey(e, dayBoundary)])), [events, dayBoundary]);
+    // Today's events start selected; the rest are picked by hand
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(events.filter(e => dayKeys.get(e.uid) === todayKey).map(e => e.uid)));
+    const [targetParentId, setTargetParentId] = useState<string>(ROOT_DESTINATION);
+
+    const toggle = (uid: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(uid)) next.delete(uid); else next.add(uid);
+        return next;
+    });
+
+    const allSelected = selected.size === events.length;
+    const toggleAll = () => setSelected(allSelected ? new Set() : new Set(events.map(e => e.uid)));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/95 md:bg-black/70 md:backdrop-blur-sm animate-in fade-in duration-200" onClick={onCancel}>
+            <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b border-slate-800">
+                    <div className="flex items-start justify-between">
+                        <div className="min-w-0">
+                            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                                <CalendarDays size={18} className="text-emerald-400" />
+                                Import Calendar
+                            </h3>
+                            <p className="text-xs text-slate-500 mt-1 truncate">
+                                {fileName} · {events.length} new event{events.length === 1 ? '' : 's'}
+                                {skipped > 0 && ` · ${skipped} already imported`}
+                            </p>
+                        </div>
+                        <button onClick={onCancel} className="p-1 text-slate-500 hover:text-white transition-colors">
+                            <X size={18} />
+                        </button>
+                    </div>
+
+                    <div className="space-y-2 mt-4">
+                        <label className="text-xs font-bold uppercase text-slate-400 block">Assign Target Orbit</label>
+                        <DestinationPicker todos={todos} value={targetParentId} onChange={setTargetParentId} />
+                        <p className="text-[10px] text-slate-500">
+                            Today's events are activated now, later ones wait in Orbit and activate on their day. Timed events land on the timeline with their length as the estimate.
+                        </p>
+                    </div>
+                </div>
+
+                <div className="p-5 space-y-2 overflow-y-auto">
+                    <button onClick={toggleAll} className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-slate-300 mb-1">
+                        {allSelected ? <CheckSquare size={12} /> : <Square size={12} />}
+                        {allSelected ? 'Select none' : 'Select all'}
+                    </button>
+                    {events.map(event => {
+                        const dayKey = dayKeys.get(event.uid) as string;
+                        const minutes = getEventMinutes(event);
+                        const isSelected = selected.has(event.uid);
+                        return (
+                            <button
+                                key={event.uid}
+                                onClick={() => toggle(event.uid)}
+                                className={`w-full text-left flex items-center gap-3 rounded-xl p-3 border transition-colors ${isSelected ? 'bg-emerald-900/20 border-emerald-500/30' : 'bg-slate-800/50 border-slate-700/50'} ${dayKey < todayKey ? 'opacity-60' : ''}`}
+                            >
+                                {isSelected ? <CheckSquare size={16} className="text-emerald-400 shrink-0" /> : <Square size={16} className="text-slate-600 shrink-0" />}
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-slate-200 truncate">{event.summary}</p>
+                                    <p className="text-[10px] font-mono text-slate-500 mt-0.5 flex items-center gap-2">
+                                        <span>{formatEventTime(event, dayKey)}</span>
+                                        {minutes !== undefined && <span>{formatMinutes(minutes)}</span>}
+                                        {event.recurring && (
+                                            <span className="flex items-center gap-1" title="Recurring: only the first occurrence is imported">
+                                                <Repeat size={9} /> First only
+                                            </span>
+                                        )}
+                                    </p>
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-center justify-end gap-3 p-5 border-t border-slate-800">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-3 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors text-xs font-bold uppercase tracking-wider min-h-[44px]"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onConfirm(events.filter(e => selected.has(e.uid)), targetParentId === ROOT_DESTINATION ? undefined : targetParentId)}
+                        disabled={selected.size === 0}
+                        className="px-4 py-3 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:hover:bg-emerald-600 text-white shadow-lg text-xs font-bold uppercase tracking-wider min-h-[44px]"
+                    >
+                        Create {selected.size} Task{selected.size === 1 ? '' : 's'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CalendarImportDialog;
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { CalendarCheck, X, Plus, Sparkles } from 'lucide-react';
+import { Todo, ScoringConfig } from '../types';
+import { TIER_COLORS } from '../utils/pointCalculations';
+import { suggestTasks, formatMinutes } from '../utils/capacity';
+
+interface CapacityPlannerProps {
+    allTodos: Todo[];
+    scoring: ScoringConfig;
+    plannedMinutes: number;
+    capacityMinutes: number;
+    onActivate: (id: string) => void; // One task (asks before going over capacity)
+    onActivateMany: (ids: string[]) => void; // The suggested fill, which fits by construction
+    onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatAge = (createdAt: number) => {
+    const days = Math.floor((Date.now() - createdAt) / DAY_MS);
+    return days === 0 ? 'new' : `${days}d old`;
+};
+
+const CapacityPlanner: React.FC<CapacityPlannerProps> = ({ allTodos, scoring, plannedMinutes, capacityMinutes, onActivate, onActivateMany, onClose }) => {
+    const remaining = capacityMinutes - plannedMinutes;
+    const suggestions = useMemo(() => suggestTasks(allTodos, Math.max(0, remaining), scoring), [allTodos, remaining, scoring]);
+    const suggested = suggestions.filter(s => s.suggested);
+    const suggestedMinutes = suggested.reduce((sum, s) => sum + s.minutes, 0);
+
+    const fill = capacityMinutes > 0 ? Math.min(1, plannedMinutes / capacityMinutes) : plannedMinutes > 0 ? 1 : 0;
+    const preview = capacityMinutes > 0 ? Math.min(1 - fill, suggestedMinutes / capacityMinutes) : 0;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/95 md:bg-black/70 md:backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b border-slate-800">
+                    <div className="flex items-start justify-between">
+                        <div>
+                            <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                                <CalendarCheck size={18} className="text-indigo-400" />
+                                Plan Today
+                            </h3>
+                            <p className="text-xs text-slate-500 mt-1">
+                                {formatMinutes(plannedMinutes)} planned of {formatMinutes(capacityMinutes)} capacity
+                                {remaining > 0 ? ` · ${formatMinutes(remaining)} free` : remaining < 0 ? ` · ${formatMinutes(-remaining)} over` : ' · full'}
+                            </p>
+                        </div>
+                        <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+                            <X size={18} />
+                        </button>
+                    </div>
+                    <div className="flex h-2 mt-4 bg-slate-800 rounded-full overflow-hidden">
+                        <div className={`h-full transition-all duration-500 ${remaining < 0 ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ width: `${fill * 100}%` }} />
+                        <div className="h-full bg-indigo-500/40 transition-all duration-500" style={{ width: `${preview * 100}%` }} />
+                    </div>
+                </div>
+
+                <div className="p-5 space-y-2 overflow-y-auto">
+                    {suggestions.length === 0 && (
+                        <p className="text-sm text-slate-500 text-center py-6">Nothing left in Orbit to pull in.</p>
+                    )}
+                    {suggestions.map(({ todo, tier, minutes, suggested: isSuggested }) => {
+                        const overflows = minutes > 0 && minutes > remaining;
+                        return (
+                            <div
+                                key={todo.id}
+                                className={`flex items-center gap-3 rounded-xl p-3 border ${isSuggested ? 'bg-indigo-900/20 border-indigo-500/30' : 'bg-slate-800/50 border-slate-700/50'}`}
+                            >
+                                <div className="flex-1 min-w-0" style={{ borderLeft: `2px solid ${TIER_COLORS[tier]}`, paddingLeft: 8 }}>
+                                    <p className="text-sm text-slate-200 truncate">{todo.text}</p>
+                                    <p className="text-[10px] font-mono text-slate-500 mt-0.5 flex items-center gap-2">
+                                        <span className={minutes === 0 ? 'italic' : overflows ? 'text-amber-400' : ''}>
+                                            {minutes > 0 ? formatMinutes(minutes) : 'No estimate'}
+                                        </span>
+                                        <span>{formatAge(todo.createdAt)}</span>
+                                        {isSuggested && (
+                                            <span className="flex items-center gap-1 text-indigo-300 uppercase font-bold tracking-wider">
+                                                <Sparkles size={9} /> Suggested
+                                            </span>
+                                        )}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => onActivate(todo.id)}
+                                    className="p-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white hover:border-indigo-500 hover:bg-indigo-600/20 transition-colors min-h-[36px] min-w-[36px] flex items-center justify-center"
+                                    title={overflows ? 'Add to Today (over capacity)' : 'Add to Today'}
+                                >
+                                    <Plus size={14} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-center justify-end gap-3 p-5 border-t border-slate-800">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-3 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors text-xs font-bold uppercase tracking-wider min-h-[44px]"
+                    >
+                        Done
+                    </button>
+                    <button
+                        onClick={() => onActivateMany(suggested.map(s => s.todo.id))}
+                        disabled={suggested.length === 0}
+                        className="px-4 py-3 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white shadow-lg text-xs font-bold uppercase tracking-wider min-h-[44px]"
+                    >
+                        Add Suggested{suggested.length > 0 && ` (${suggested.length} · ${formatMinutes(suggestedMinutes)})`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CapacityPlanner;
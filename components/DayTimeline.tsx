@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DndContext, DragEndEvent, DragOverlay, DragStartEvent, KeyboardSensor, PointerSensor, TouchSensor, pointerWithin, useDraggable, useDroppable, useSensor, useSensors } from '@dnd-kit/core';
+import { Play, Pause, X, GripVertical, AlertTriangle } from 'lucide-react';
+import { Todo } from '../types';
+import { TIER_COLORS, getTierFromTodo } from '../utils/pointCalculations';
+import { formatMinutes } from '../utils/capacity';
+import { layoutTimeline, snapToSlot, getBlockMinutes, TimelineBlock } from '../utils/timeline';
+
+interface DayTimelineProps {
+    tasks: Todo[]; // Today's tasks
+    allTodos: Todo[];
+    dayStart: number;
+    dayEnd: number;
+    onSchedule: (id: string, scheduledAt: number | undefined) => void;
+    onToggleTimer: (id: string) => void;
+}
+
+const PX_PER_MINUTE = 1;
+const TIMELINE_ID = 'timeline';
+const TRAY_ID = 'unscheduled';
+
+const formatClock = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const formatHour = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric' });
+
+const minutesBetween = (start: number, end: number) => (end - start) / (60 * 1000);
+
+// Unscheduled task, dragged onto the timeline to give it a block
+const TrayChip: React.FC<{ todo: Todo; color: string }> = ({ todo, color }) => {
+    const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: todo.id });
+    return (
+        <div
+            ref={setNodeRef}
+            {...attributes}
+            {...listeners}
+            className={`flex items-center gap-2 px-3 py-2 bg-slate-800/80 border border-slate-700 rounded-lg text-xs text-slate-300 cursor-grab touch-none ${isDragging ? 'opacity-30' : ''}`}
+            style={{ borderLeft: `3px solid ${color}` }}
+        >
+            <GripVertical size={12} className="text-slate-600 shrink-0" />
+            <span className="truncate max-w-[10rem]">{todo.text}</span>
+            <span className="text-[10px] font-mono text-slate-500 shrink-0">{todo.durationMinutes ? formatMinutes(todo.durationMinutes) : '—'}</span>
+        </div>
+    );
+};
+
+const Block: React.FC<{
+    block: TimelineBlock;
+    dayStart: number;
+    color: string;
+    onUnschedule: () => void;
+    onToggleTimer: () => void;
+}> = ({ block, dayStart, color, onUnschedule, onToggleTimer }) => {
+    const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: block.todo.id });
+    const height = minutesBetween(block.start, block.end) * PX_PER_MINUTE;
+    const isShort = height < 40;
+
+    return (
+        <div
+            ref={setNodeRef}
+            {...attributes}
+            {...listeners}
+            className={`absolute rounded-lg border px-2 py-1 overflow-hidden cursor-grab touch-none transition-opacity
+                ${block.overlaps ? 'border-red-500/70 bg-red-900/30' : 'border-slate-600 bg-slate-800/90'}
+                ${block.todo.durationMinutes ? '' : 'border-dashed'}
+                ${isDragging ? 'opacity-30' : ''}`}
+            style={{
+                top: minutesBetween(dayStart, block.start) * PX_PER_MINUTE,
+                height,
+                left: `calc(${(block.lane / block.lanes) * 100}% + 2px)`,
+                width: `calc(${100 / block.lanes}% - 4px)`,
+                borderLeft: `3px solid ${color}`
+            }}
+            title={`${block.todo.text} · ${formatClock(block.start)}–${formatClock(block.end)}${block.overlaps ? ' (overlaps)' : ''}`}
+        >
+            <div className={`flex ${isShort ? 'items-center' : 'items-start'} gap-1`}>
+                <button
+                    onPointerDown={e => e.stopPropagation()}
+                    onClick={onToggleTimer}
+                    className={`p-1 rounded shrink-0 ${block.todo.isPlaying ? 'text-orange-400' : 'text-slate-500 hover:text-white'}`}
+                    title={block.todo.isPlaying ? 'Pause timer' : 'Start timer'}
+                >
+                    {block.todo.isPlaying ? <Pause size={10} className="fill-current" /> : <Play size={10} className="fill-current" />}
+                </button>
+                <div className="min-w-0 flex-1">
+                    <p className={`text-xs text-slate-200 truncate ${block.todo.completed ? 'line-through opacity-50' : ''}`}>{block.todo.text}</p>
+                    {!isShort && (
+                        <p className="text-[9px] font-mono text-slate-500 flex items-center gap-1">
+                            {block.overlaps && <AlertTriangle size={9} className="text-red-400" />}
+                            {formatClock(block.start)}–{formatClock(block.end)}
+                        </p>
+                    )}
+                </div>
+                <button
+                    onPointerDown={e => e.stopPropagation()}
+                    onClick={onUnschedule}
+                    className="p-1 text-slate-600 hover:text-white shrink-0"
+                    title="Unschedule"
+                >
+                    <X size={10} />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const DayTimeline: React.FC<DayTimelineProps> = ({ tasks, allTodos, dayStart, dayEnd, onSchedule, onToggleTimer }) => {
+    const [now, setNow] = useState(Date.now());
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const scrollRef = useRef<HTMLDivElement | null>(null);
+    const gridRef = useRef<HTMLDivElement | null>(null);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Open at the current hour
+    useEffect(() => {
+        if (scrollRef.current && now >= dayStart && now < dayEnd) {
+            scrollRef.current.scrollTop = Math.max(0, minutesBetween(dayStart, now) * PX_PER_MINUTE - 120);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [dayStart]);
+
+    const layout = useMemo(() => layoutTimeline(tasks, dayStart, dayEnd), [tasks, dayStart, dayEnd]);
+    const colorOf = (todo: Todo) => TIER_COLORS[getTierFromTodo(todo, allTodos)];
+
+    const hours = useMemo(() => {
+        const marks: number[] = [];
+        for (let t = dayStart; t < dayEnd; t += 60 * 60 * 1000) marks.push(t);
+        return marks;
+    }, [dayStart, dayEnd]);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+        useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 6 } }),
+        useSensor(KeyboardSensor)
+    );
+
+    const { setNodeRef: setTimelineRef, isOver: isOverTimeline } = useDroppable({ id: TIMELINE_ID });
+    const { setNodeRef: setTrayRef, isOver: isOverTray } = useDroppable({ id: TRAY_ID });
+
+    const handleDragStart = (event: DragStartEvent) => setDraggedId(String(event.active.id));
+
+    // The dragged block's top edge is where it starts (auto-scroll is off, so the grid hasn't moved meanwhile)
+    const handleDragEnd = (event: DragEndEvent) => {
+        setDraggedId(null);
+        const { active, over } = event;
+        const id = String(active.id);
+        if (over?.id === TRAY_ID) {
+            onSchedule(id, undefined);
+            return;
+        }
+        const top = active.rect.current.translated?.top;
+        if (over?.id !== TIMELINE_ID || top === undefined || !gridRef.current) return;
+        const offsetMinutes = (top - gridRef.current.getBoundingClientRect().top) / PX_PER_MINUTE;
+        onSchedule(id, snapToSlot(dayStart, dayEnd, offsetMinutes));
+    };
+
+    const draggedTodo = draggedId ? tasks.find(t => t.id === draggedId) : undefined;
+    const overlapCount = layout.blocks.filter(b => b.overlaps).length;
+    const freeMinutes = layout.gaps.reduce((sum, g) => sum + minutesBetween(g.start, g.end), 0);
+
+    return (
+        <DndContext
+            sensors={sensors}
+            collisionDetection={pointerWithin}
+            autoScroll={false}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+            onDragCancel={() => setDraggedId(null)}
+        >
+            {/* Unscheduled Tray */}
+            <div
+                ref={setTrayRef}
+                className={`mb-3 p-3 rounded-xl border border-dashed transition-colors ${isOverTray ? 'border-indigo-500 bg-indigo-900/10' : 'border-slate-700'}`}
+            >
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Unscheduled</span>
+                    <span className="text-[10px] font-mono text-slate-500">
+                        {overlapCount > 0 && <span className="text-red-400">{overlapCount} overlapping · </span>}
+                        {freeMinutes > 0 && `${formatMinutes(freeMinutes)} free between blocks`}
+                    </span>
+                </div>
+                {layout.unscheduled.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                        {layout.unscheduled.map(todo => <TrayChip key={todo.id} todo={todo} color={colorOf(todo)} />)}
+                    </div>
+                ) : (
+                    <p className="text-xs text-slate-600">Everything is on the timeline. Drag a block here to unschedule it.</p>
+                )}
+            </div>
+
+            {/* Hour Grid */}
+            <div ref={scrollRef} className="h-[55vh] overflow-y-auto rounded-xl border border-slate-800 bg-slate-900/50">
+                <div className="flex">
+                    <div className="w-14 shrink-0 relative" style={{ height: minutesBetween(dayStart, dayEnd) * PX_PER_MINUTE }}>
+                        {hours.map(t => (
+                            <span
+                                key={t}
+                                className="absolute right-2 -translate-y-1/2 text-[9px] font-mono text-slate-600"
+                                style={{ top: minutesBetween(dayStart, t) * PX_PER_MINUTE }}
+                            >
+                                {t === dayStart ? '' : formatHour(t)}
+                            </span>
+                        ))}
+                    </div>
+                    <div
+                        ref={node => { setTimelineRef(node); gridRef.current = node; }}
+                        className={`relative flex-1 border-l border-slate-800 ${isOverTimeline ? 'bg-indigo-900/5' : ''}`}
+                        style={{ height: minutesBetween(dayStart, dayEnd) * PX_PER_MINUTE }}
+                    >
+                        {hours.map(t => (
+                            <div
+                                key={t}
+                                className="absolute inset-x-0 border-t border-slate-800/70"
+                                style={{ top: minutesBetween(dayStart, t) * PX_PER_MINUTE }}
+                            />
+                        ))}
+
+                        {layout.gaps.map(gap => (
+                            <div
+                                key={gap.start}
+                                className="absolute inset-x-2 flex items-center justify-center text-[9px] font-mono uppercase tracking-wider text-emerald-500/50 pointer-events-none"
+                                style={{ top: minutesBetween(dayStart, gap.start) * PX_PER_MINUTE, height: minutesBetween(gap.start, gap.end) * PX_PER_MINUTE }}
+                            >
+                                {formatMinutes(minutesBetween(gap.start, gap.end))} free
+                            </div>
+                        ))}
+
+                        {layout.blocks.map(block => (
+                            <Block
+                                key={block.todo.id}
+                                block={block}
+                                dayStart={dayStart}
+                                color={colorOf(block.todo)}
+                                onUnschedule={() => onSchedule(block.todo.id, undefined)}
+                                onToggleTimer={() => onToggleTimer(block.todo.id)}
+                            />
+                        ))}
+
+                        {now >= dayStart && now < dayEnd && (
+                            <div
+                                className="absolute inset-x-0 border-t-2 border-red-500/80 pointer-events-none z-10"
+                                style={{ top: minutesBetween(dayStart, now) * PX_PER_MINUTE }}
+                            >
+                                <span className="absolute -left-1 -top-1 w-2 h-2 rounded-full bg-red-500" />
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <DragOverlay dropAnimation={null}>
+                {draggedTodo && (
+                    <div
+                        className="rounded-lg border border-indigo-500 bg-slate-800/95 px-2 py-1 shadow-2xl text-xs text-slate-200 w-48"
+                        style={{ height: getBlockMinutes(draggedTodo) * PX_PER_MINUTE, borderLeft: `3px solid ${colorOf(draggedTodo)}` }}
+                    >
+                        <p className="truncate">{draggedTodo.text}</p>
+                    </div>
+                )}
+            </DragOverlay>
+        </DndContext>
+    );
+};
+
+export default DayTimeline;
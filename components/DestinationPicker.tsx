@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { Todo } from '../types';
+
+// Where new tasks land: top level of Orbit (value 'root'), under a goal, or under an open task
+export const ROOT_DESTINATION = 'root';
+
+interface DestinationPickerProps {
+    todos: Todo[];
+    value: string;
+    onChange: (parentId: string) => void;
+}
+
+const DestinationPicker: React.FC<DestinationPickerProps> = ({ todos, value, onChange }) => {
+    const goals = useMemo(() => todos.filter(t => t.label === 'goal' && t.status !== 'graveyard' && !t.retirement), [todos]);
+    const activeTasks = useMemo(() => todos.filter(t => t.label === 'normal' && t.status !== 'graveyard' && !t.completed), [todos]);
+
+    return (
+        <select
+            className="w-full bg-slate-800 border border-slate-700 text-white text-sm rounded-lg p-3 focus:outline-none focus:border-emerald-500"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+        >
+            <option value={ROOT_DESTINATION}>Standard Orbit (No Parent)</option>
+            <optgroup label="Primary Goals">
+                {goals.map(g => (
+                    <option key={g.id} value={g.id}>
+                        {g.goalCategory?.toUpperCase()} - {g.text}
+                    </option>
+                ))}
+            </optgroup>
+            <optgroup label="Active Tasks">
+                {activeTasks.map(t => (
+                    <option key={t.id} value={t.id}>{t.text}</option>
+                ))}
+            </optgroup>
+        </select>
+    );
+};
+
+export default DestinationPicker;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Moon, X, Skull, CornerDownRight, Orbit } from 'lucide-react';
+import { Todo, ExpiryPolicy, ScoringConfig } from '../types';
+import { calculateTodoPoints, calculateFailurePenalty, getTierFromTodo, TIER_COLORS } from '../utils/pointCalculations';
+import { EXPIRY_POLICIES, EXPIRY_POLICY_LABELS, resolveExpiryPolicy, calculateCarryOverMultiplier } from '../utils/expiry';
+
+interface EndOfDayReviewProps {
+    tasks: Todo[]; // Activated tasks still open, expiring at dayEnd
+    allTodos: Todo[];
+    scoring: ScoringConfig;
+    dayEnd: number;
+    onApply: (choices: Record<string, ExpiryPolicy>) => void;
+    onClose: () => void;
+}
+
+const POLICY_ICONS: Record<ExpiryPolicy, React.ReactNode> = {
+    'graveyard': <Skull size={12} />,
+    'carry-over': <CornerDownRight size={12} />,
+    'return': <Orbit size={12} />
+};
+
+const POLICY_STYLES: Record<ExpiryPolicy, string> = {
+    'graveyard': 'bg-red-900/30 text-red-300 border-red-500/40',
+    'carry-over': 'bg-cyan-900/30 text-cyan-300 border-cyan-500/40',
+    'return': 'bg-slate-700 text-slate-200 border-slate-500/60'
+};
+
+const formatTimeLeft = (ms: number) => {
+    if (ms <= 0) return 'now';
+    const h = Math.floor(ms / (1000 * 60 * 60));
+    const m = Math.floor((ms / (1000 * 60)) % 60);
+    return h > 0 ? `in ${h}h ${m}m` : `in ${m}m`;
+};
+
+const EndOfDayReview: React.FC<EndOfDayReviewProps> = ({ tasks, allTodos, scoring, dayEnd, onApply, onClose }) => {
+    // Starts from what would happen anyway
+    const [choices, setChoices] = useState<Record<string, ExpiryPolicy>>(() =>
+        Object.fromEntries(tasks.map(t => [t.id, resolveExpiryPolicy(t, allTodos)]))
+    );
+
+    const totalPenalty = useMemo(() => tasks.reduce((sum, t) =>
+        choices[t.id] === 'graveyard' ? sum + calculateFailurePenalty(calculateTodoPoints(t, allTodos, scoring), scoring) : sum,
+    0), [tasks, choices, allTodos, scoring]);
+
+    const setAll = (policy: ExpiryPolicy) => {
+        setChoices(Object.fromEntries(tasks.map(t => [t.id, policy])));
+    };
+
+    const describeOutcome = (task: Todo, policy: ExpiryPolicy) => {
+        if (policy === 'graveyard') {
+            return `−${Math.round(calculateFailurePenalty(calculateTodoPoints(task, allTodos, scoring), scoring))} pts`;
+        }
+        if (policy === 'carry-over') {
+            return `×${(task.multiplier || 1).toFixed(2)} → ×${calculateCarryOverMultiplier(task.multiplier, scoring).toFixed(2)}`;
+        }
+        return 'No penalty';
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/95 md:bg-black/70 md:backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between p-5 border-b border-slate-800">
+                    <div>
+                        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                            <Moon size={18} className="text-indigo-400" />
+                            End of Day Review
+                        </h3>
+                        <p className="text-xs text-slate-500 mt-1">
+                            {tasks.length} task{tasks.length === 1 ? '' : 's'} expire {formatTimeLeft(dayEnd - Date.now())}. Choose what happens to each.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="px-5 pt-4 flex items-center gap-2">
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mr-auto">All</span>
+                    {EXPIRY_POLICIES.map(policy => (
+                        <button
+                            key={policy}
+                            onClick={() => setAll(policy)}
+                            className="px-2 py-1 rounded-lg border border-slate-700 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-white hover:border-slate-500 transition-colors"
+                        >
+                            {EXPIRY_POLICY_LABELS[policy]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="p-5 space-y-2 overflow-y-auto">
+                    {tasks.map(task => {
+                        const choice = choices[task.id];
+                        return (
+                            <div key={task.id} className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-3">
+                                <div className="flex items-center justify-between gap-2 mb-2">
+                                    <span className="text-sm text-slate-200 truncate" style={{ borderLeft: `2px solid ${TIER_COLORS[getTierFromTodo(task, allTodos)]}`, paddingLeft: 8 }}>
+                                        {task.text}
+                                    </span>
+                                    <span className="text-[10px] font-mono text-slate-500 shrink-0">
+                                        {task.carryOvers ? `carried ${task.carryOvers}× · ` : ''}{describeOutcome(task, choice)}
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-3 gap-1">
+                                    {EXPIRY_POLICIES.map(policy => (
+                                        <button
+                                            key={policy}
+                                            onClick={() => setChoices(prev => ({ ...prev, [task.id]: policy }))}
+                                            className={`flex items-center justify-center gap-1 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-colors ${choice === policy ? POLICY_STYLES[policy] : 'border-transparent text-slate-500 hover:text-slate-300'}`}
+                                        >
+                                            {POLICY_ICONS[policy]}
+                                            {EXPIRY_POLICY_LABELS[policy]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-center justify-between gap-3 p-5 border-t border-slate-800">
+                    <span className="text-xs text-slate-500">
+                        {totalPenalty > 0 ? <>Graveyard penalty: <span className="text-red-400 font-mono">−{Math.round(totalPenalty)} pts</span></> : 'No penalties'}
+                    </span>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-3 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors text-xs font-bold uppercase tracking-wider min-h-[44px]"
+                        >
+                            Later
+                        </button>
+                        <button
+                            onClick={() => onApply(choices)}
+                            className="px-4 py-3 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg text-xs font-bold uppercase tracking-wider min-h-[44px]"
+                        >
+                            Apply
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EndOfDayReview;
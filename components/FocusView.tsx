@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Play, Pause, SkipForward, Square, Minimize2, Check, Coffee, Focus } from 'lucide-react';
+import { Todo, PomodoroConfig } from '../types';
+import { PomodoroSession, POMODORO_PHASE_LABELS, getPhaseRemaining, getPhaseLength, formatCountdown } from '../utils/pomodoro';
+
+interface FocusViewProps {
+    session: PomodoroSession;
+    task: Todo;
+    config: PomodoroConfig;
+    onToggle: () => void;
+    onSkip: () => void;
+    onStop: () => void;
+    onComplete: () => void;
+    onMinimize: () => void;
+}
+
+// Full-screen countdown laid over the StarryNight scene (App expands it while focus mode is on).
+// Rendered into <body> so it sits above the scene rather than inside the task list's stacking context.
+const FocusView: React.FC<FocusViewProps> = ({ session, task, config, onToggle, onSkip, onStop, onComplete, onMinimize }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const remaining = getPhaseRemaining(session, now);
+    const progress = 1 - remaining / getPhaseLength(session.phase, config);
+    const isRunning = session.endsAt !== undefined;
+    const isFocus = session.phase === 'focus';
+    const cycleLength = Math.max(1, config.longBreakEvery);
+    // Focus sessions done in the current cycle (a full cycle while its long break runs)
+    const inCycle = session.phase === 'long-break' ? cycleLength : session.completedFocus % cycleLength;
+
+    useEffect(() => {
+        const previousTitle = document.title;
+        document.title = `${formatCountdown(remaining)} · ${POMODORO_PHASE_LABELS[session.phase]}`;
+        return () => { document.title = previousTitle; };
+    }, [remaining, session.phase]);
+
+    return createPortal(
+        <div className="fixed inset-0 z-50 flex flex-col items-center justify-center p-6 bg-gradient-to-b from-transparent via-black/20 to-black/60 animate-in fade-in duration-500">
+            <button
+                onClick={onMinimize}
+                className="absolute top-4 right-4 p-3 text-slate-400 hover:text-white transition-colors"
+                title="Back to tasks (keeps running)"
+            >
+                <Minimize2 size={20} />
+            </button>
+
+            <span className={`flex items-center gap-2 text-xs font-bold uppercase tracking-[0.3em] ${isFocus ? 'text-rose-300' : 'text-emerald-300'}`}>
+                {isFocus ? <Focus size={14} /> : <Coffee size={14} />}
+                {POMODORO_PHASE_LABELS[session.phase]}
+            </span>
+
+            <div className={`mt-4 text-7xl md:text-9xl font-mono font-light tabular-nums text-white drop-shadow-[0_0_24px_rgba(99,102,241,0.5)] ${isRunning ? '' : 'opacity-60'}`}>
+                {formatCountdown(remaining)}
+            </div>
+
+            <div className="w-64 max-w-full h-1 mt-6 bg-white/10 rounded-full overflow-hidden">
+                <div
+                    className={`h-full transition-all duration-1000 ${isFocus ? 'bg-rose-400' : 'bg-emerald-400'}`}
+                    style={{ width: `${Math.min(100, Math.max(0, progress * 100))}%` }}
+                />
+            </div>
+
+            <p className="mt-6 text-lg text-slate-200 text-center max-w-md line-clamp-2">{task.text}</p>
+
+            <div className="flex items-center gap-2 mt-3" title={`${inCycle}/${cycleLength} until the long break`}>
+                {Array.from({ length: cycleLength }, (_, i) => (
+                    <span key={i} className={`w-2 h-2 rounded-full ${i < inCycle ? 'bg-rose-400' : 'bg-white/20'}`} />
+                ))}
+                <span className="ml-2 text-[10px] font-mono text-slate-400">{task.pomodoros?.length || 0} total</span>
+            </div>
+
+            {!isRunning && isFocus && session.completedFocus > 0 && (
+                <p className="mt-4 text-xs text-slate-400">Break's over. Start the next focus session when you're ready.</p>
+            )}
+
+            <div className="flex items-center gap-3 mt-8">
+                <button
+                    onClick={onStop}
+                    className="p-3 rounded-full bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+                    title="Stop"
+                >
+                    <Square size={18} />
+                </button>
+                <button
+                    onClick={onToggle}
+                    className={`p-5 rounded-full text-white shadow-lg transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center ${isFocus ? 'bg-rose-600 hover:bg-rose-500' : 'bg-emerald-600 hover:bg-emerald-500'}`}
+                    title={isRunning ? 'Pause' : 'Start'}
+                >
+                    {isRunning ? <Pause size={24} className="fill-current" /> : <Play size={24} className="fill-current" />}
+                </button>
+                <button
+                    onClick={onSkip}
+                    className="p-3 rounded-full bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+                    title={isFocus ? 'Skip to break' : 'Skip break'}
+                >
+                    <SkipForward size={18} />
+                </button>
+            </div>
+
+            <button
+                onClick={onComplete}
+                className="mt-6 flex items-center gap-2 px-4 py-3 rounded-lg text-emerald-300 hover:text-white hover:bg-emerald-900/40 transition-colors text-xs font-bold uppercase tracking-wider min-h-[44px]"
+            >
+                <Check size={14} />
+                Complete Task
+            </button>
+        </div>,
+        document.body
+    );
+};
+
+export default FocusView;
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, Flag, Plus, X, ChevronDown, ChevronRight, Check } from 'lucide-react';
+import { Todo, Milestone, ScoringConfig } from '../types';
+import { calculateGoalProgress, forecastGoal, ForecastStatus } from '../utils/goalProgress';
+
+interface GoalPlannerProps {
+    goal: Todo;
+    allTodos: Todo[];
+    scoring: ScoringConfig;
+    onUpdatePlan: (id: string, plan: Partial<Pick<Todo, 'targetDate' | 'milestones'>>) => void;
+}
+
+const generateId = () => {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+        return crypto.randomUUID();
+    }
+    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+};
+
+// <input type="date"> works in local YYYY-MM-DD; dates are stored as local midnight timestamps
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (timestamp?: number) => {
+    if (!timestamp) return '';
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+const fromDateInput = (value: string): number | undefined => {
+    if (!value) return undefined;
+    const [y, m, d] = value.split('-').map(Number);
+    return new Date(y, m - 1, d).getTime();
+};
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const FORECAST_STYLES: Record<ForecastStatus, string> = {
+    'done': 'text-emerald-400 bg-emerald-900/20 border-emerald-500/30',
+    'on-track': 'text-emerald-400 bg-emerald-900/20 border-emerald-500/30',
+    'at-risk': 'text-amber-400 bg-amber-900/20 border-amber-500/30',
+    'overdue': 'text-red-400 bg-red-900/20 border-red-500/30',
+    'no-velocity': 'text-slate-400 bg-slate-800 border-slate-700',
+    'no-deadline': 'text-slate-400 bg-slate-800 border-slate-700'
+};
+
+const GoalPlanner: React.FC<GoalPlannerProps> = ({ goal, allTodos, scoring, onUpdatePlan }) => {
+    const [showMilestones, setShowMilestones] = useState(false);
+    const [milestoneTitle, setMilestoneTitle] = useState('');
+    const [milestoneDate, setMilestoneDate] = useState('');
+
+    const progress = useMemo(() => calculateGoalProgress(goal.id, allTodos, scoring), [goal.id, allTodos, scoring]);
+    const forecast = useMemo(() => forecastGoal(goal, allTodos, scoring), [goal, allTodos, scoring]);
+
+    const milestones = useMemo(
+        () => [...(goal.milestones || [])].sort((a, b) => a.dueDate - b.dueDate),
+        [goal.milestones]
+    );
+    const doneMilestones = milestones.filter(m => m.completedAt).length;
+
+    const forecastLabel = useMemo(() => {
+        const eta = forecast.projectedAt ? formatDate(forecast.projectedAt) : null;
+        switch (forecast.status) {
+            case 'done': return 'Complete';
+            case 'on-track': return `On track · ETA ${eta}`;
+            case 'at-risk': return `Behind · ETA ${eta}`;
+            case 'overdue': return 'Past target date';
+            case 'no-velocity': return 'No recent progress';
+            case 'no-deadline': return eta ? `ETA ${eta}` : 'No recent progress';
+        }
+    }, [forecast]);
+
+    const setMilestones = (next: Milestone[]) => onUpdatePlan(goal.id, { milestones: next.length > 0 ? next : undefined });
+
+    const handleAddMilestone = (e: React.FormEvent) => {
+        e.preventDefault();
+        const dueDate = fromDateInput(milestoneDate);
+        if (!milestoneTitle.trim() || !dueDate) return;
+        setMilestones([...(goal.milestones || []), { id: generateId(), title: milestoneTitle.trim(), dueDate }]);
+        setMilestoneTitle('');
+        setMilestoneDate('');
+    };
+
+    const toggleMilestone = (id: string) => {
+        setMilestones((goal.milestones || []).map(m =>
+            m.id === id ? { ...m, completedAt: m.completedAt ? undefined : Date.now() } : m
+        ));
+    };
+
+    const deleteMilestone = (id: string) => {
+        setMilestones((goal.milestones || []).filter(m => m.id !== id));
+    };
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    return (
+        <div className="px-4 py-3 border-b border-slate-800 bg-slate-900/60 space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+                {/* Progress */}
+                <div className="flex-grow min-w-[160px]">
+                    <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1">
+                        <span>Progress</span>
+                        <span className="font-mono text-slate-400">
+                            {progress.percent}% · {Math.round(progress.completedBlocks)}/{Math.round(progress.totalBlocks)} blk
+                        </span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress.percent}%` }} />
+                    </div>
+                </div>
+
+                {/* Target date */}
+                <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                    <CalendarClock size={14} />
+                    <input
+                        type="date"
+                        value={toDateInput(goal.targetDate)}
+                        onChange={(e) => onUpdatePlan(goal.id, { targetDate: fromDateInput(e.target.value) })}
+                        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+                        title="Target date"
+                    />
+                </label>
+
+                {/* Forecast */}
+                <span
+                    className={`px-2 py-1 rounded-lg border text-[10px] font-bold uppercase tracking-wider ${FORECAST_STYLES[forecast.status]}`}
+                    title={`${forecast.blocksPerDay.toFixed(1)} blocks/day over the last two weeks`}
+                >
+                    {forecastLabel}
+                </span>
+            </div>
+
+            {/* Milestones */}
+            <div>
+                <button
+                    onClick={() => setShowMilestones(!showMilestones)}
+                    className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-slate-300 transition-colors"
+                >
+                    {showMilestones ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                    <Flag size={12} />
+                    Milestones {milestones.length > 0 && `(${doneMilestones}/${milestones.length})`}
+                </button>
+
+                {showMilestones && (
+                    <div className="mt-2 space-y-1.5">
+                        {milestones.map(m => {
+                            const isLate = !m.completedAt && m.dueDate < today.getTime();
+                            return (
+                                <div key={m.id} className="flex items-center gap-2 group">
+                                    <button
+                                        onClick={() => toggleMilestone(m.id)}
+                                        className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 transition-colors ${m.completedAt ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-600 hover:border-emerald-400'}`}
+                                    >
+                                        {m.completedAt && <Check size={10} />}
+                                    </button>
+                                    <span className={`text-xs flex-grow truncate ${m.completedAt ? 'text-slate-500 line-through' : 'text-slate-300'}`}>{m.title}</span>
+                                    <span className={`text-[10px] font-mono ${isLate ? 'text-red-400' : 'text-slate-500'}`}>{formatDate(m.dueDate)}</span>
+                                    <button
+                                        onClick={() => deleteMilestone(m.id)}
+                                        className="p-1 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Remove milestone"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+
+                        <form onSubmit={handleAddMilestone} className="flex items-center gap-2 pt-1">
+                            <input
+                                type="text"
+                                value={milestoneTitle}
+                                onChange={(e) => setMilestoneTitle(e.target.value)}
+                                placeholder="New milestone..."
+                                className="flex-grow bg-transparent border-b border-slate-700 focus:border-indigo-500 focus:outline-none text-xs text-slate-300 placeholder-slate-600 py-1"
+                            />
+                            <input
+                                type="date"
+                                value={milestoneDate}
+                                onChange={(e) => setMilestoneDate(e.target.value)}
+                                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+                            />
+                            <button
+                                type="submit"
+                                disabled={!milestoneTitle.trim() || !milestoneDate}
+                                className="p-1.5 text-slate-500 hover:text-indigo-400 disabled:opacity-30"
+                            >
+                                <Plus size={14} />
+                            </button>
+                        </form>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default GoalPlanner;
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Trophy, Target, Award, CheckCircle2, Archive } from 'lucide-react';
+import { Todo, Season } from '../types';
+import { buildHallOfFame } from '../utils/seasons';
+import { getTaskTree } from '../utils/taskTree';
+
+interface HallOfFameViewProps {
+    todos: Todo[];
+    seasons: Season[];
+    onOpenProject: (id: string) => void;
+    onBack: () => void;
+}
+
+const TIER_STYLES: Record<string, { text: string; border: string; icon: React.ReactNode }> = {
+    gold: { text: 'text-yellow-500', border: 'border-yellow-500/40', icon: <Trophy size={14} className="text-yellow-500" /> },
+    silver: { text: 'text-slate-300', border: 'border-slate-500/40', icon: <Target size={14} className="text-slate-300" /> },
+    bronze: { text: 'text-orange-500', border: 'border-orange-600/40', icon: <Target size={14} className="text-orange-600" /> }
+};
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const HallOfFameView: React.FC<HallOfFameViewProps> = ({ todos, seasons, onOpenProject, onBack }) => {
+    const hall = useMemo(() => buildHallOfFame(todos, seasons), [todos, seasons]);
+
+    // Completed / total tasks below each retired goal (graveyard excluded)
+    const taskCounts = useMemo(() => {
+        const tree = getTaskTree(todos);
+        const counts = new Map<string, { done: number; total: number }>();
+        hall.forEach(({ goals }) => goals.forEach(goal => {
+            let done = 0;
+            let total = 0;
+            tree.subtreeIds(goal.id).forEach(id => {
+                const t = tree.byId.get(id);
+                if (!t || id === goal.id || t.status === 'graveyard') return;
+                total++;
+                if (t.completed) done++;
+            });
+            counts.set(goal.id, { done, total });
+        }));
+        return counts;
+    }, [hall, todos]);
+
+    const northStars = useMemo(
+        () => hall.flatMap(({ season, goals }) => goals.filter(g => g.goalCategory === 'gold').map(goal => ({ season, goal }))),
+        [hall]
+    );
+
+    return (
+        <div className="h-full overflow-y-auto p-4 pb-20">
+            <div className="flex items-center gap-2 mb-6">
+                <button onClick={onBack} className="p-2 -ml-2 text-slate-500 hover:text-white transition-colors" title="Back to Orbit">
+                    <ChevronLeft size={18} />
+                </button>
+                <h2 className="text-lg font-light text-white tracking-[0.2em] uppercase pl-2 border-l-2 border-yellow-500">Hall of Fame</h2>
+            </div>
+
+            {hall.length === 0 && (
+                <div className="text-center text-slate-600 mt-10">
+                    <p className="text-xs">No retired goals yet.</p>
+                    <p className="text-[10px] text-slate-700 mt-1">Complete or retire a goal from Orbit, or start a new season, to archive it here.</p>
+                </div>
+            )}
+
+            {/* Past North Stars */}
+            {northStars.length > 0 && (
+                <div className="mb-8">
+                    <div className="flex items-center gap-2 mb-3">
+                        <Award size={14} className="text-yellow-500" />
+                        <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Past North Stars</span>
+                    </div>
+                    <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+                        {northStars.map(({ season, goal }) => (
+                            <button
+                                key={goal.id}
+                                onClick={() => onOpenProject(goal.id)}
+                                className="flex-shrink-0 px-3 py-2 rounded-xl border border-yellow-500/40 bg-yellow-900/10 hover:bg-yellow-900/20 text-left transition-colors max-w-[200px]"
+                            >
+                                <span className="block text-[10px] font-mono text-slate-500">{season.name}</span>
+                                <span className="block text-xs font-bold uppercase tracking-wider text-yellow-500 truncate">{goal.text}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-8">
+                {hall.map(({ season, goals, points, completed }) => (
+                    <div key={season.id}>
+                        <div className="flex items-baseline justify-between mb-3 pl-2">
+                            <div>
+                                <h3 className="text-sm font-bold uppercase tracking-widest text-slate-300">{season.name}</h3>
+                                <p className="text-[10px] font-mono text-slate-600">
+                                    {formatDate(season.startedAt)}{season.endedAt ? ` – ${formatDate(season.endedAt)}` : ' – now'}
+                                </p>
+                            </div>
+                            <div className="text-right">
+                                <span className="block text-sm font-mono text-indigo-400">{Math.round(points)} pts</span>
+                                <span className="block text-[10px] text-slate-500">{completed}/{goals.length} completed</span>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            {goals.map(goal => {
+                                const style = TIER_STYLES[goal.goalCategory || ''] || TIER_STYLES.bronze;
+                                const retirement = goal.retirement!;
+                                const counts = taskCounts.get(goal.id);
+                                return (
+                                    <button
+                                        key={goal.id}
+                                        onClick={() => onOpenProject(goal.id)}
+                                        className={`w-full group p-3 rounded-xl border ${style.border} bg-slate-800/40 hover:bg-slate-800/70 flex items-center gap-3 text-left transition-colors`}
+                                    >
+                                        {style.icon}
+                                        <div className="flex-grow min-w-0">
+                                            <span className={`block font-bold uppercase tracking-wider text-sm truncate ${style.text}`}>{goal.text}</span>
+                                            <span className="block text-[10px] text-slate-500 font-mono">
+                                                {retirement.outcome === 'completed' ? 'Completed' : 'Retired'} {formatDate(retirement.at)}
+                                                {counts && counts.total > 0 && ` · ${counts.done}/${counts.total} tasks`}
+                                            </span>
+                                        </div>
+                                        <span className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-[10px] font-bold uppercase tracking-wider ${retirement.outcome === 'completed' ? 'text-emerald-400 bg-emerald-900/20 border-emerald-500/30' : 'text-slate-400 bg-slate-800 border-slate-700'}`}>
+                                            {retirement.outcome === 'completed' ? <CheckCircle2 size={10} /> : <Archive size={10} />}
+                                            {Math.round(retirement.points)} pts
+                                        </span>
+                                        <ChevronRight size={16} className="text-slate-600 opacity-0 group-hover:opacity-100 transition-opacity" />
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default HallOfFameView;
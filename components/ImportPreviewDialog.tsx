@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Upload, AlertTriangle, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { ParsedBackup, BackupDiff, BackupCollection, ImportMode, RejectedRecord } from '../utils/backup';
+
+interface ImportPreviewDialogProps {
+    fileName: string;
+    parsed: ParsedBackup;
+    diff: BackupDiff | null;
+    onConfirm: (mode: ImportMode, keepLocalOnConflict: boolean) => void;
+    onCancel: () => void;
+}
+
+const COLLECTION_LABELS: Record<BackupCollection, string> = {
+    todos: 'Tasks & Goals',
+    routines: 'Routines',
+    notes: 'Notes'
+};
+
+const PREVIEW_LIMIT = 50;
+
+// Display name for any backup record
+const recordTitle = (record: { text?: string; title?: string; id: string }) =>
+    String(record.title ?? record.text ?? record.id).replace(/<[^>]*>?/gm, '').trim() || record.id;
+
+const PreviewList: React.FC<{ title: string; tone: string; items: string[] }> = ({ title, tone, items }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    if (items.length === 0) return null;
+
+    return (
+        <div>
+            <button onClick={() => setIsOpen(!isOpen)} className={`flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest ${tone}`}>
+                {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                {items.length} {title}
+            </button>
+            {isOpen && (
+                <ul className="mt-1 ml-4 space-y-0.5">
+                    {items.slice(0, PREVIEW_LIMIT).map((item, i) => (
+                        <li key={i} className="text-xs text-slate-400 truncate">{item}</li>
+                    ))}
+                    {items.length > PREVIEW_LIMIT && (
+                        <li className="text-[10px] text-slate-600">…and {items.length - PREVIEW_LIMIT} more</li>
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const RejectedList: React.FC<{ rejected: RejectedRecord[] }> = ({ rejected }) => (
+    <div className="bg-red-900/10 border border-red-900/30 rounded-xl p-3">
+        <p className="text-xs font-bold text-red-400 mb-2 flex items-center gap-2">
+            <AlertTriangle size={14} />
+            {rejected.length} record{rejected.length === 1 ? '' : 's'} rejected (will not be imported)
+        </p>
+        <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+            {rejected.map((r, i) => (
+                <li key={i} className="text-[11px] text-slate-400">
+                    <span className="text-slate-300 font-mono">
+                        {COLLECTION_LABELS[r.collection]} #{r.index + 1}{r.id ? ` (${r.id})` : ''}
+                    </span>
+                    : {r.reasons.join('; ')}
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ fileName, parsed, diff, onConfirm, onCancel }) => {
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [keepLocalOnConflict, setKeepLocalOnConflict] = useState(true);
+
+    const { backup, errors, rejected } = parsed;
+    const collections: BackupCollection[] = ['todos', 'routines', 'notes'];
+    const conflictCount = diff ? collections.reduce((acc, c) => acc + diff[c].conflicting.length, 0) : 0;
+    const localOnlyCount = diff ? collections.reduce((acc, c) => acc + diff[c].localOnly.length, 0) : 0;
+    const hasChanges = diff ? collections.some(c =>
+        diff[c].added.length + diff[c].changed.length + diff[c].conflicting.length > 0 ||
+        (mode === 'replace' && diff[c].localOnly.length > 0)
+    ) : false;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/95 md:bg-black/70 md:backdrop-blur-sm animate-in fade-in duration-200" onClick={onCancel}>
+            <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between p-5 border-b border-slate-800">
+                    <div className="min-w-0">
+                        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                            <Upload size={18} className="text-indigo-400" />
+                            Restore Backup
+                        </h3>
+                        <p className="text-[10px] text-slate-500 font-mono mt-1 truncate">
+                            {fileName}
+                            {backup && ` · v${backup.version}`}
+                            {backup?.exportedAt && ` · exported ${new Date(backup.exportedAt).toLocaleString()}`}
+                        </p>
+                    </div>
+                    <button onClick={onCancel} className="p-1 text-slate-500 hover:text-white transition-colors">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4 overflow-y-auto">
+                    {errors.length > 0 && (
+                        <div className="bg-red-900/10 border border-red-900/30 rounded-xl p-3 space-y-1">
+                            <p className="text-xs font-bold text-red-400 flex items-center gap-2">
+                                <AlertTriangle size={14} />
+                                This file can't be imported
+                            </p>
+                            {errors.map((error, i) => (
+                                <p key={i} className="text-xs text-slate-400">{error}</p>
+                            ))}
+                        </div>
+                    )}
+
+                    {rejected.length > 0 && <RejectedList rejected={rejected} />}
+
+                    {diff && (
+                        <>
+                            <div className="space-y-3">
+                                {collections.map(c => (
+                                    <div key={c} className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-3">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <span className="text-xs font-bold text-slate-300 uppercase tracking-wider">{COLLECTION_LABELS[c]}</span>
+                                            <span className="text-[10px] text-slate-500 font-mono">{diff[c].unchanged} unchanged</span>
+                                        </div>
+                                        <div className="space-y-1">
+                                            <PreviewList title="new" tone="text-emerald-400" items={diff[c].added.map(recordTitle)} />
+                                            <PreviewList title="changed" tone="text-cyan-400" items={diff[c].changed.map(d => recordTitle(d.incoming))} />
+                                            <PreviewList
+                                                title="conflicting (edited here more recently)"
+                                                tone="text-amber-400"
+                                                items={diff[c].conflicting.map(d => `${recordTitle(d.local)} — ${d.fields.join(', ')}`)}
+                                            />
+                                            {mode === 'replace' && (
+                                                <PreviewList title="only on this device (moved to Trash)" tone="text-red-400" items={diff[c].localOnly.map(recordTitle)} />
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="space-y-2">
+                                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Import Mode</p>
+                                <label className="flex items-start gap-3 p-3 rounded-xl border border-slate-700 cursor-pointer hover:bg-slate-800/50">
+                                    <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-0.5 accent-indigo-500" />
+                                    <span>
+                                        <span className="block text-sm text-slate-200 font-bold">Merge by id</span>
+                                        <span className="block text-xs text-slate-500">Add new items and update changed ones. Everything else on this device stays.</span>
+                                    </span>
+                                </label>
+                                <label className="flex items-start gap-3 p-3 rounded-xl border border-slate-700 cursor-pointer hover:bg-slate-800/50">
+                                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-0.5 accent-indigo-500" />
+                                    <span>
+                                        <span className="block text-sm text-slate-200 font-bold">Replace</span>
+                                        <span className="block text-xs text-slate-500">
+                                            Make this device match the backup.
+                                            {localOnlyCount > 0 && ` ${localOnlyCount} item${localOnlyCount === 1 ? '' : 's'} not in the backup will be moved to Trash.`}
+                                        </span>
+                                    </span>
+                                </label>
+                                {mode === 'merge' && conflictCount > 0 && (
+                                    <label className="flex items-center gap-2 text-xs text-slate-400 pl-1 cursor-pointer">
+                                        <input type="checkbox" checked={keepLocalOnConflict} onChange={e => setKeepLocalOnConflict(e.target.checked)} className="accent-indigo-500" />
+                                        Keep this device's version of the {conflictCount} conflicting item{conflictCount === 1 ? '' : 's'}
+                                    </label>
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-3 p-5 border-t border-slate-800">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-3 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors text-xs font-bold uppercase tracking-wider min-h-[44px]"
+                    >
+                        {diff ? 'Cancel' : 'Close'}
+                    </button>
+                    {diff && (
+                        <button
+                            onClick={() => onConfirm(mode, keepLocalOnConflict)}
+                            disabled={!hasChanges}
+                            className="px-4 py-3 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg text-xs font-bold uppercase tracking-wider min-h-[44px] disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                            {hasChanges ? 'Import' : 'Nothing to import'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportPreviewDialog;
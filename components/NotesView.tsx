@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Search, StickyNote, Trash2, Pencil, Sparkles, Clock, Tag, Plus, X, Loader2 } from 'lucide-react';
 import RichTextEditor from './RichTextEditor';
+import DestinationPicker, { ROOT_DESTINATION } from './DestinationPicker';
 import { Todo, Note } from '../types';
 import { generateTasksFromNote } from '../services/geminiService';
 
@@ -138,7 +139,7 @@ const NotesView: React.FC<NotesViewProps> = ({ notes, todos, onAdd, onUpdate, on
     // Conversion Modal State
     const [convertingNote, setConvertingNote] = useState<Note | null>(null);
     const [convertStep, setConvertStep] = useState<'destination' | 'review'>('destination');
-    const [targetParentId, setTargetParentId] = useState<string>('root');
+    const [targetParentId, setTargetParentId] = useState<string>(ROOT_DESTINATION);
     const [generatedTasks, setGeneratedTasks] = useState<string[]>([]);
     const [isGenerating, setIsGenerating] = useState(false);
     
@@ -176,7 +177,7 @@ const NotesView: React.FC<NotesViewProps> = ({ notes, todos, onAdd, onUpdate, on
     const startConversion = useCallback((note: Note) => {
         setConvertingNote(note);
         setConvertStep('destination');
-        setTargetParentId('root');
+        setTargetParentId(ROOT_DESTINATION);
         setGeneratedTasks([]);
     }, []);
 
@@ -206,7 +207,7 @@ const NotesView: React.FC<NotesViewProps> = ({ notes, todos, onAdd, onUpdate, on
 
     const confirmConversion = () => {
         if (generatedTasks.length > 0) {
-            onAddBatch(generatedTasks, targetParentId === 'root' ? undefined : targetParentId);
+            onAddBatch(generatedTasks, targetParentId === ROOT_DESTINATION ? undefined : targetParentId);
         }
         setConvertingNote(null);
     };
@@ -223,10 +224,6 @@ const NotesView: React.FC<NotesViewProps> = ({ notes, todos, onAdd, onUpdate, on
         setGeneratedTasks(prev => [...prev, 'New Task']);
     };
 
-    // Data for Destination Select
-    const goals = useMemo(() => todos.filter(t => t.label === 'goal' && t.status !== 'graveyard'), [todos]);
-    const activeTasks = useMemo(() => todos.filter(t => t.label === 'normal' && t.status !== 'graveyard' && !t.completed), [todos]);
-
     return (
         <div className="h-full flex flex-col p-4 bg-slate-900/50 relative">
             {/* Header / Filters */}
@@ -308,25 +305,7 @@ const NotesView: React.FC<NotesViewProps> = ({ notes, todos, onAdd, onUpdate, on
                                     
                                     <div className="space-y-2">
                                         <label className="text-xs font-bold uppercase text-slate-400 block">Assign Target Orbit</label>
-                                        <select 
-                                            className="w-full bg-slate-800 border border-slate-700 text-white text-sm rounded-lg p-3 focus:outline-none focus:border-emerald-500"
-                                            value={targetParentId}
-                                            onChange={(e) => setTargetParentId(e.target.value)}
-                                        >
-                                            <option value="root">Standard Orbit (No Parent)</option>
-                                            <optgroup label="Primary Goals">
-                                                {goals.map(g => (
-                                                    <option key={g.id} value={g.id}>
-                                                        {g.goalCategory?.toUpperCase()} - {g.text}
-                                                    </option>
-                                                ))}
-                                            </optgroup>
-                                            <optgroup label="Active Tasks">
-                                                {activeTasks.map(t => (
-                                                    <option key={t.id} value={t.id}>{t.text}</option>
-                                                ))}
-                                            </optgroup>
-                                        </select>
+                                        <DestinationPicker todos={todos} value={targetParentId} onChange={setTargetParentId} />
                                         <p className="text-[10px] text-slate-500">
                                             Select where the generated tasks should be created.
                                         </p>
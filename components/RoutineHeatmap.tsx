@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { Routine, Todo } from '../types';
+import { buildRoutineHistory, calculateWeekdayRates, OccurrenceStatus } from '../utils/routineHistory';
+import { toDateKey, parseDateKey, MONTH_NAMES, WEEK_ORDER } from '../utils/schedule';
+import { DayBoundary, getDayKey } from '../utils/dayBoundary';
+
+interface RoutineHeatmapProps {
+    routine: Routine;
+    todos: Todo[];
+    dayBoundary: DayBoundary;
+}
+
+// Half a year of history; older occurrences still count towards the weekday rates
+const WEEKS_SHOWN = 26;
+
+const STATUS_STYLES: Record<OccurrenceStatus, { cell: string; label: string }> = {
+    completed: { cell: 'bg-emerald-500', label: 'Completed' },
+    failed: { cell: 'bg-red-500/80', label: 'Failed' },
+    skipped: { cell: 'bg-slate-500', label: 'Skipped' },
+    paused: { cell: 'bg-amber-500/40', label: 'Paused' },
+    pending: { cell: 'bg-cyan-900 ring-1 ring-cyan-400', label: 'Pending' }
+};
+
+const ROW_LABELS = ['M', '', 'W', '', 'F', '', 'S'];
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Local midnight of the Monday starting the date's week
+const weekStart = (date: Date) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+
+const formatDay = (date: Date) =>
+    date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const RoutineHeatmap: React.FC<RoutineHeatmapProps> = ({ routine, todos, dayBoundary }) => {
+    const history = useMemo(() => buildRoutineHistory(routine, todos, dayBoundary), [routine, todos, dayBoundary]);
+    const weekdayRates = useMemo(() => calculateWeekdayRates(history), [history]);
+
+    // Week columns (Mon-first) from the first occurrence's week, at most WEEKS_SHOWN, ending with the current week
+    const weeks = useMemo(() => {
+        const byDay = new Map(history.map(o => [o.day, o]));
+        const today = parseDateKey(getDayKey(Date.now(), dayBoundary));
+        const currentWeek = weekStart(today);
+        const earliest = new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - (WEEKS_SHOWN - 1) * 7);
+        const firstWeek = weekStart(history.length > 0 ? parseDateKey(history[0].day) : new Date(routine.createdAt));
+        const begin = firstWeek > earliest ? firstWeek : earliest;
+
+        const columns: Array<Array<{ date: Date; key: string; status?: OccurrenceStatus; future: boolean }>> = [];
+        const cursor = new Date(begin);
+        const todayKey = toDateKey(today);
+        while (cursor <= today) {
+            const column = [];
+            for (let i = 0; i < 7; i++) {
+                const key = toDateKey(cursor);
+                column.push({ date: new Date(cursor), key, status: byDay.get(key)?.status, future: key > todayKey });
+                cursor.setDate(cursor.getDate() + 1);
+            }
+            columns.push(column);
+        }
+        return columns;
+    }, [history, routine.createdAt, dayBoundary]);
+
+    const totals = useMemo(() => {
+        const counts: Record<OccurrenceStatus, number> = { completed: 0, failed: 0, skipped: 0, paused: 0, pending: 0 };
+        history.forEach(o => counts[o.status]++);
+        return counts;
+    }, [history]);
+
+    return (
+        <div className="mt-3 pt-3 border-t border-slate-700/50">
+            {/* Calendar Grid */}
+            <div className="flex gap-1 overflow-x-auto no-scrollbar pb-1">
+                <div className="flex flex-col gap-[3px] pt-3 shrink-0">
+                    {ROW_LABELS.map((label, i) => (
+                        <span key={i} className="h-2.5 text-[7px] leading-[10px] text-slate-600 font-bold">{label}</span>
+                    ))}
+                </div>
+                {weeks.map((column, i) => {
+                    const monthStart = column.find(d => d.date.getDate() === 1);
+                    return (
+                        <div key={column[0].key} className="flex flex-col gap-[3px] shrink-0">
+                            <span className="h-2.5 text-[7px] leading-[10px] text-slate-600 font-bold">
+                                {i === 0 ? MONTH_NAMES[column[0].date.getMonth()] : monthStart ? MONTH_NAMES[monthStart.date.getMonth()] : ''}
+                            </span>
+                            {column.map(d => (
+                                <div
+                                    key={d.key}
+                                    className={`w-2.5 h-2.5 rounded-sm ${d.status ? STATUS_STYLES[d.status].cell : d.future ? 'bg-transparent' : 'bg-slate-800'}`}
+                                    title={d.future ? undefined : `${formatDay(d.date)}: ${d.status ? STATUS_STYLES[d.status].label : 'Not scheduled'}`}
+                                />
+                            ))}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                {(Object.keys(STATUS_STYLES) as OccurrenceStatus[]).map(status => (
+                    <span key={status} className="flex items-center gap-1 text-[9px] text-slate-500 uppercase font-bold">
+                        <span className={`w-2 h-2 rounded-sm ${STATUS_STYLES[status].cell}`} />
+                        {STATUS_STYLES[status].label} {totals[status]}
+                    </span>
+                ))}
+            </div>
+
+            {/* Completion Rate per Weekday */}
+            <div className="grid grid-cols-7 gap-1 mt-3">
+                {WEEK_ORDER.map(weekday => {
+                    const entry = weekdayRates[weekday];
+                    const percent = entry.rate === null ? null : Math.round(entry.rate * 100);
+                    return (
+                        <div key={weekday} className="flex flex-col items-center gap-1" title={`${entry.completed}/${entry.total} completed`}>
+                            <div className="w-full h-8 bg-slate-800 rounded-sm flex items-end overflow-hidden">
+                                <div
+                                    className="w-full bg-emerald-500/70 transition-all duration-500"
+                                    style={{ height: `${percent ?? 0}%` }}
+                                />
+                            </div>
+                            <span className="text-[8px] text-slate-500 uppercase font-bold">{WEEKDAY_SHORT[weekday]}</span>
+                            <span className="text-[9px] font-mono text-slate-400">{percent === null ? '—' : `${percent}%`}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default RoutineHeatmap;
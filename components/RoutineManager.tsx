@@ -1,23 +1,128 @@
-import React, { useState } from 'react';
-import { Routine, Frequency } from '../types';
-import { Rocket, Calendar, Repeat, CheckSquare, Plus, Trash2, X, Activity, Zap, Flame } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Routine, Frequency, MonthlyRule, RoutineTemplateItem, Todo } from '../types';
+import { Rocket, Calendar, Repeat, CheckSquare, Plus, Trash2, X, Activity, Zap, Flame, Pencil, Pause, Play, Palmtree, ListChecks, Clock, Target, ChevronDown } from 'lucide-react';
+import RoutineHeatmap from './RoutineHeatmap';
+import { DayBoundary, getDayKey, getRoutineAnchor } from '../utils/dayBoundary';
+import { ScheduleRule, describeSchedule, nextOccurrences, parseDateKey, isScheduleValid, isRoutineResting, cycleUnit, ordinal, MONTH_NAMES, WEEK_ORDER } from '../utils/schedule';
+
+// Fields the form edits; progress, streak and generation state are kept when an existing routine is edited
+export type RoutineDraft = Omit<Routine, 'id' | 'createdAt' | 'lastGeneratedDate' | 'completedCycles' | 'streak'>;
 
 interface RoutineManagerProps {
     routines: Routine[];
-    onAdd: (routine: Omit<Routine, 'id' | 'createdAt' | 'lastGeneratedDate' | 'completedCycles' | 'streak'>) => void;
+    goals: Todo[]; // Goals in Orbit a routine can nest its tasks under
+    todos: Todo[]; // Generated tasks, for each routine's history
+    dayBoundary: DayBoundary;
+    onAdd: (routine: RoutineDraft) => void;
+    onUpdate: (id: string, draft: RoutineDraft) => void;
+    onTogglePause: (id: string) => void;
     onDelete: (id: string) => void;
 }
 
-const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, onAdd, onDelete }) => {
-    const [isAdding, setIsAdding] = useState(false);
-    
+interface RoutineFormProps {
+    initial?: Routine;
+    goals: Todo[];
+    dayBoundary: DayBoundary;
+    onSubmit: (draft: RoutineDraft) => void;
+    onCancel: () => void;
+}
+
+const FREQUENCY_OPTIONS: Array<{ value: Frequency; label: string }> = [
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekdays', label: 'Weekdays' },
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'yearly', label: 'Yearly' }
+];
+
+const MONTHLY_RULE_OPTIONS: Array<{ value: MonthlyRule; label: string }> = [
+    { value: 'day', label: 'Day' },
+    { value: 'last-day', label: 'Last Day' },
+    { value: 'nth-weekday', label: 'Weekday' }
+];
+
+const WEEK_OF_MONTH_OPTIONS = [1, 2, 3, 4, -1];
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const formatOccurrence = (date: Date) =>
+    date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const createItemId = () => `item-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const formatShortDate = (key: string) =>
+    new Date(`${key}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const RoutineForm: React.FC<RoutineFormProps> = ({ initial, goals, dayBoundary, onSubmit, onCancel }) => {
     // Form State
-    const [title, setTitle] = useState('');
-    const [label, setLabel] = useState('');
-    const [frequency, setFrequency] = useState<Frequency>('weekly');
-    const [selectedDays, setSelectedDays] = useState<number[]>([]);
-    const [selectedDate, setSelectedDate] = useState<number>(1);
-    const [targetCycles, setTargetCycles] = useState<number>(4);
+    // Legacy biweekly routines open as "every 2 weeks"
+    const isLegacyBiweekly = initial?.frequency === 'biweekly';
+    const [title, setTitle] = useState(initial?.title || '');
+    const [label, setLabel] = useState(initial?.label || '');
+    const [frequency, setFrequency] = useState<Frequency>(isLegacyBiweekly ? 'weekly' : initial?.frequency || 'weekly');
+    const [selectedDays, setSelectedDays] = useState<number[]>(
+        initial && (initial.frequency === 'weekly' || isLegacyBiweekly) ? initial.daysOfWeek : []
+    );
+    const [selectedDate, setSelectedDate] = useState<number>(initial?.dayOfMonth || 1);
+    const [repeatEvery, setRepeatEvery] = useState<number>(isLegacyBiweekly ? 2 : initial?.interval || 1);
+    const [monthlyRule, setMonthlyRule] = useState<MonthlyRule>(initial?.monthlyRule || 'day');
+    const [weekOfMonth, setWeekOfMonth] = useState<number>(initial?.weekOfMonth || 1);
+    const [nthWeekday, setNthWeekday] = useState<number>(initial?.monthlyRule === 'nth-weekday' ? initial.daysOfWeek[0] ?? 1 : 1);
+    const [monthOfYear, setMonthOfYear] = useState<number>(initial?.monthOfYear ?? new Date().getMonth());
+    const [targetCycles, setTargetCycles] = useState<number>(initial?.targetCycles || 4);
+    const [vacationStart, setVacationStart] = useState(initial?.vacation?.start || '');
+    const [vacationEnd, setVacationEnd] = useState(initial?.vacation?.end || '');
+    const [template, setTemplate] = useState<RoutineTemplateItem[]>(initial?.template || []);
+    const [parentGoalId, setParentGoalId] = useState(initial?.parentGoalId || '');
+
+    // The rule being built, in the shape it is saved
+    // (every field is set, so switching frequency on an existing routine clears the old rule's fields)
+    const rule: ScheduleRule = useMemo(() => {
+        const base: ScheduleRule = {
+            frequency,
+            interval: undefined,
+            daysOfWeek: [],
+            dayOfMonth: undefined,
+            monthlyRule: undefined,
+            weekOfMonth: undefined,
+            monthOfYear: undefined
+        };
+        switch (frequency) {
+            case 'daily':
+                return { ...base, interval: repeatEvery };
+            case 'weekly':
+                return { ...base, interval: repeatEvery, daysOfWeek: selectedDays };
+            case 'monthly':
+                if (monthlyRule === 'nth-weekday') return { ...base, monthlyRule, weekOfMonth, daysOfWeek: [nthWeekday] };
+                if (monthlyRule === 'last-day') return { ...base, monthlyRule };
+                return { ...base, monthlyRule, dayOfMonth: selectedDate };
+            case 'yearly':
+                return { ...base, monthOfYear, dayOfMonth: selectedDate };
+            default:
+                return base;
+        }
+    }, [frequency, repeatEvery, selectedDays, monthlyRule, weekOfMonth, nthWeekday, monthOfYear, selectedDate]);
+
+    const preview = useMemo(() => {
+        const now = Date.now();
+        return nextOccurrences(rule, getRoutineAnchor(initial?.createdAt ?? now, dayBoundary), parseDateKey(getDayKey(now, dayBoundary)));
+    }, [rule, initial?.createdAt, dayBoundary]);
+
+    // Both ends or neither; the end can't come before the start
+    const vacationValid = (!vacationStart && !vacationEnd) || (!!vacationStart && !!vacationEnd && vacationStart <= vacationEnd);
+
+    const templateMinutes = template.reduce((sum, item) => sum + (item.durationMinutes || 0), 0);
+
+    const addTemplateItem = () => {
+        setTemplate(prev => [...prev, { id: createItemId(), text: '' }]);
+    };
+
+    const updateTemplateItem = (id: string, patch: Partial<RoutineTemplateItem>) => {
+        setTemplate(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    };
+
+    const removeTemplateItem = (id: string) => {
+        setTemplate(prev => prev.filter(item => item.id !== id));
+    };
 
     const toggleDay = (day: number) => {
         setSelectedDays(prev => 
@@ -28,35 +133,32 @@ const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, onAdd, onDele
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!title.trim()) return;
-        if ((frequency === 'weekly' || frequency === 'biweekly') && selectedDays.length === 0) return;
+        if (!isScheduleValid(rule) || !vacationValid) return;
 
-        onAdd({
+        // Blank rows are dropped; an empty checklist generates a single task as before
+        const items = template
+            .filter(item => item.text.trim())
+            .map(item => ({
+                id: item.id,
+                text: item.text.trim(),
+                durationMinutes: item.durationMinutes || undefined,
+                customLabel: item.customLabel?.trim() || undefined
+            }));
+
+        onSubmit({
+            ...rule,
             title: title.trim(),
             label: label.trim() || undefined,
-            frequency,
-            daysOfWeek: selectedDays,
-            dayOfMonth: selectedDate,
             targetCycles,
-            color: 'cyan'
+            vacation: vacationStart && vacationEnd ? { start: vacationStart, end: vacationEnd } : undefined,
+            template: items.length > 0 ? items : undefined,
+            parentGoalId: parentGoalId || undefined,
+            color: initial?.color || 'cyan'
         });
-
-        // Reset
-        setTitle('');
-        setLabel('');
-        setSelectedDays([]);
-        setIsAdding(false);
     };
 
     const renderDaySelector = () => {
-        const days = [
-            { label: 'M', val: 1 },
-            { label: 'T', val: 2 },
-            { label: 'W', val: 3 },
-            { label: 'T', val: 4 },
-            { label: 'F', val: 5 },
-            { label: 'S', val: 6 },
-            { label: 'S', val: 0 },
-        ];
+        const days = WEEK_ORDER.map(val => ({ label: 'SMTWTFS'[val], val }));
         return (
             <div className="flex gap-2 justify-center my-4">
                 {days.map(d => (
@@ -78,6 +180,348 @@ const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, onAdd, onDele
         );
     };
 
+    return (
+        <form onSubmit={handleSubmit} className="bg-slate-900/80 border border-cyan-500/30 rounded-xl p-4 mb-6 shadow-2xl relative overflow-hidden">
+             {/* Decorative Header */}
+             <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-cyan-500 to-transparent opacity-50" />
+             
+             <div className="flex justify-between items-start mb-4">
+                <h3 className="text-xs font-bold text-cyan-400 uppercase tracking-wider">{initial ? 'Adjust Flight Pattern' : 'New Flight Pattern'}</h3>
+                <button type="button" onClick={onCancel} className="text-slate-500 hover:text-white"><X size={16} /></button>
+             </div>
+
+             {/* Name & Label */}
+             <div className="space-y-3 mb-4">
+                <input 
+                    type="text" 
+                    value={title}
+                    onChange={e => setTitle(e.target.value)}
+                    placeholder="Routine Name (e.g. Morning Jog)" 
+                    className="w-full bg-slate-800 border-b border-slate-600 focus:border-cyan-500 px-3 py-2 text-sm text-white focus:outline-none placeholder-slate-500 transition-colors"
+                    autoFocus
+                />
+                 <input 
+                    type="text" 
+                    value={label}
+                    onChange={e => setLabel(e.target.value)}
+                    placeholder="Label (Optional)" 
+                    className="w-full bg-transparent border-b border-slate-700 focus:border-cyan-500/50 px-3 py-1 text-xs text-slate-400 focus:outline-none placeholder-slate-600"
+                />
+             </div>
+
+             {/* Orbit Selector */}
+             <div className="grid grid-cols-5 gap-1 bg-slate-800 rounded-lg p-1 mb-4">
+                {FREQUENCY_OPTIONS.map(f => (
+                    <button
+                        key={f.value}
+                        type="button"
+                        onClick={() => {
+                            setFrequency(f.value);
+                            setRepeatEvery(1);
+                        }}
+                        className={`
+                            py-2 rounded text-[9px] font-bold uppercase tracking-wider transition-all
+                            ${frequency === f.value ? 'bg-cyan-700 text-white shadow' : 'text-slate-500 hover:text-slate-300'}
+                        `}
+                    >
+                        {f.label}
+                    </button>
+                ))}
+             </div>
+
+             {/* Triggers */}
+             <div className="mb-4 space-y-3">
+                {(frequency === 'daily' || frequency === 'weekly') && (
+                    <div className="flex items-center justify-center gap-2 text-xs text-slate-400">
+                        <span>Every</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={frequency === 'daily' ? 365 : 52}
+                            value={repeatEvery}
+                            onChange={e => setRepeatEvery(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+                            className="w-14 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-center text-white text-sm font-bold focus:outline-none focus:border-cyan-500"
+                        />
+                        <span>{frequency === 'daily' ? (repeatEvery === 1 ? 'day' : 'days') : (repeatEvery === 1 ? 'week' : 'weeks')}</span>
+                    </div>
+                )}
+
+                {frequency === 'weekly' && (
+                    <>
+                        <p className="text-[10px] text-slate-500 uppercase font-bold text-center mb-1">Active Days</p>
+                        {renderDaySelector()}
+                        {repeatEvery > 1 && (
+                            <p className="text-[9px] text-cyan-400/70 text-center mt-1">
+                                * Starts this week, then every {ordinal(repeatEvery)} week.
+                            </p>
+                        )}
+                    </>
+                )}
+
+                {frequency === 'monthly' && (
+                    <>
+                        <div className="grid grid-cols-3 gap-1 bg-slate-800/60 rounded-lg p-1">
+                            {MONTHLY_RULE_OPTIONS.map(o => (
+                                <button
+                                    key={o.value}
+                                    type="button"
+                                    onClick={() => setMonthlyRule(o.value)}
+                                    className={`py-1.5 rounded text-[9px] font-bold uppercase tracking-wider transition-all ${monthlyRule === o.value ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                                >
+                                    {o.label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex justify-center">
+                            <div className="flex items-center gap-2 bg-slate-800 px-3 py-2 rounded-lg border border-slate-700">
+                                <Calendar size={14} className="text-cyan-500" />
+                                {monthlyRule === 'day' && (
+                                    <select 
+                                        value={selectedDate} 
+                                        onChange={e => setSelectedDate(Number(e.target.value))}
+                                        className="bg-transparent text-white text-sm font-bold focus:outline-none"
+                                    >
+                                        {Array.from({length: 31}, (_, i) => i + 1).map(d => (
+                                            <option key={d} value={d}>{ordinal(d)}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                {monthlyRule === 'last-day' && (
+                                    <span className="text-sm text-white font-bold">Last day</span>
+                                )}
+                                {monthlyRule === 'nth-weekday' && (
+                                    <>
+                                        <select
+                                            value={weekOfMonth}
+                                            onChange={e => setWeekOfMonth(Number(e.target.value))}
+                                            className="bg-transparent text-white text-sm font-bold focus:outline-none"
+                                        >
+                                            {WEEK_OF_MONTH_OPTIONS.map(w => (
+                                                <option key={w} value={w}>{w === -1 ? 'Last' : ordinal(w)}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            value={nthWeekday}
+                                            onChange={e => setNthWeekday(Number(e.target.value))}
+                                            className="bg-transparent text-white text-sm font-bold focus:outline-none"
+                                        >
+                                            {WEEK_ORDER.map(d => (
+                                                <option key={d} value={d}>{WEEKDAY_LABELS[d]}</option>
+                                            ))}
+                                        </select>
+                                    </>
+                                )}
+                                <span className="text-xs text-slate-400">of every month</span>
+                            </div>
+                        </div>
+                        {monthlyRule === 'day' && selectedDate > 28 && (
+                            <p className="text-[9px] text-cyan-400/70 text-center">
+                                * Falls back to the last day in shorter months.
+                            </p>
+                        )}
+                    </>
+                )}
+
+                {frequency === 'yearly' && (
+                    <div className="flex justify-center">
+                        <div className="flex items-center gap-2 bg-slate-800 px-3 py-2 rounded-lg border border-slate-700">
+                            <Calendar size={14} className="text-cyan-500" />
+                            <select
+                                value={monthOfYear}
+                                onChange={e => setMonthOfYear(Number(e.target.value))}
+                                className="bg-transparent text-white text-sm font-bold focus:outline-none"
+                            >
+                                {MONTH_NAMES.map((m, i) => (
+                                    <option key={m} value={i}>{m}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={selectedDate}
+                                onChange={e => setSelectedDate(Number(e.target.value))}
+                                className="bg-transparent text-white text-sm font-bold focus:outline-none"
+                            >
+                                {Array.from({length: 31}, (_, i) => i + 1).map(d => (
+                                    <option key={d} value={d}>{d}</option>
+                                ))}
+                            </select>
+                            <span className="text-xs text-slate-400">every year</span>
+                        </div>
+                    </div>
+                )}
+
+                {/* Schedule Preview */}
+                <div className="bg-slate-800/40 border border-slate-700/50 rounded-lg px-3 py-2">
+                    <p className="text-[10px] font-bold text-cyan-400 uppercase tracking-wider">{describeSchedule(rule)}</p>
+                    <p className="text-[10px] text-slate-500 mt-1">
+                        {preview.length > 0
+                            ? `Next: ${preview.map(formatOccurrence).join(' · ')}`
+                            : 'Pick at least one day.'}
+                    </p>
+                </div>
+             </div>
+
+             {/* Destination Goal */}
+             <div className="mb-4">
+                <div className="flex items-center gap-2 bg-slate-800 px-3 py-2 rounded-lg border border-slate-700">
+                    <Target size={14} className="text-cyan-500 shrink-0" />
+                    <select
+                        value={parentGoalId}
+                        onChange={e => setParentGoalId(e.target.value)}
+                        className="flex-grow min-w-0 bg-transparent text-xs text-white focus:outline-none"
+                    >
+                        <option value="">No goal (standalone task)</option>
+                        {/* Keep a goal that has since left Orbit selectable so editing doesn't silently unlink it */}
+                        {parentGoalId && !goals.some(g => g.id === parentGoalId) && (
+                            <option value={parentGoalId}>Unavailable goal</option>
+                        )}
+                        {goals.map(g => (
+                            <option key={g.id} value={g.id}>
+                                {g.goalCategory ? `${g.goalCategory.toUpperCase()} · ` : ''}{g.text}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+             </div>
+
+             {/* Checklist Template */}
+             <div className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                    <p className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1">
+                        <ListChecks size={10} /> Checklist
+                        {templateMinutes > 0 && <span className="text-cyan-400/70 normal-case font-mono">({templateMinutes}m)</span>}
+                    </p>
+                    <button
+                        type="button"
+                        onClick={addTemplateItem}
+                        className="p-1 text-cyan-400 hover:bg-cyan-900/20 rounded transition-colors"
+                        title="Add checklist item"
+                    >
+                        <Plus size={12} />
+                    </button>
+                </div>
+                {template.length === 0 ? (
+                    <p className="text-[9px] text-slate-600 text-center">No checklist: each launch is a single task.</p>
+                ) : (
+                    <div className="space-y-1.5">
+                        {template.map(item => (
+                            <div key={item.id} className="flex items-center gap-1.5">
+                                <input
+                                    type="text"
+                                    value={item.text}
+                                    onChange={e => updateTemplateItem(item.id, { text: e.target.value })}
+                                    placeholder="Step"
+                                    className="flex-grow min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500 placeholder-slate-600"
+                                />
+                                <div className="flex items-center gap-1 bg-slate-800 border border-slate-700 rounded-lg px-1.5 py-1">
+                                    <Clock size={10} className="text-slate-500" />
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={item.durationMinutes || ''}
+                                        onChange={e => updateTemplateItem(item.id, { durationMinutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) || undefined })}
+                                        placeholder="min"
+                                        className="w-10 bg-transparent text-xs text-white text-right focus:outline-none placeholder-slate-600"
+                                    />
+                                </div>
+                                <input
+                                    type="text"
+                                    value={item.customLabel || ''}
+                                    onChange={e => updateTemplateItem(item.id, { customLabel: e.target.value })}
+                                    placeholder="Label"
+                                    className="w-16 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-400 focus:outline-none focus:border-cyan-500 placeholder-slate-600"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => removeTemplateItem(item.id)}
+                                    className="p-1 text-slate-500 hover:text-red-400"
+                                    title="Remove item"
+                                >
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+             </div>
+
+             {/* Vacation */}
+             <div className="mb-4">
+                <p className="text-[10px] text-slate-500 uppercase font-bold text-center mb-2 flex items-center justify-center gap-1">
+                    <Palmtree size={10} /> Vacation (no launches, streak frozen)
+                </p>
+                <div className="flex items-center justify-center gap-2">
+                    <input
+                        type="date"
+                        value={vacationStart}
+                        onChange={e => setVacationStart(e.target.value)}
+                        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+                    />
+                    <span className="text-xs text-slate-500">to</span>
+                    <input
+                        type="date"
+                        value={vacationEnd}
+                        min={vacationStart || undefined}
+                        onChange={e => setVacationEnd(e.target.value)}
+                        className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500"
+                    />
+                    {(vacationStart || vacationEnd) && (
+                        <button
+                            type="button"
+                            onClick={() => { setVacationStart(''); setVacationEnd(''); }}
+                            className="p-1 text-slate-500 hover:text-white"
+                            title="Clear vacation"
+                        >
+                            <X size={12} />
+                        </button>
+                    )}
+                </div>
+             </div>
+
+             {/* Commitment (Numerical Checkboxes) */}
+             <div className="mb-6">
+                <p className="text-[10px] text-slate-500 uppercase font-bold text-center mb-3">
+                    Mission Commitment ({cycleUnit(rule)})
+                </p>
+                <div className="flex justify-between px-2">
+                     {[1, 2, 4, 6, 8, 12, 24].map(num => (
+                         <label key={num} className="cursor-pointer group flex flex-col items-center gap-1">
+                             <input 
+                                type="radio" 
+                                name={`cycles-${initial?.id || "new"}`} 
+                                checked={targetCycles === num} 
+                                onChange={() => setTargetCycles(num)}
+                                className="hidden"
+                             />
+                             <div className={`
+                                w-8 h-8 rounded border flex items-center justify-center text-xs font-bold transition-all
+                                ${targetCycles === num 
+                                    ? 'bg-cyan-500 border-cyan-400 text-black shadow-[0_0_10px_rgba(6,182,212,0.4)]' 
+                                    : 'bg-slate-800 border-slate-700 text-slate-500 group-hover:border-slate-500'}
+                             `}>
+                                {num}
+                             </div>
+                         </label>
+                     ))}
+                </div>
+             </div>
+
+             <button 
+                type="submit"
+                disabled={!title.trim() || !isScheduleValid(rule) || !vacationValid}
+                className="w-full disabled:opacity-40 disabled:pointer-events-none py-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-bold uppercase tracking-widest text-xs transition-all shadow-lg shadow-cyan-900/20"
+             >
+                {initial ? 'Save Pattern' : 'Initialize Pattern'}
+             </button>
+        </form>
+    );
+};
+
+const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, goals, todos, dayBoundary, onAdd, onUpdate, onTogglePause, onDelete }) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const todayKey = getDayKey(Date.now(), dayBoundary);
+
     const getVelocityStyles = (streak: number) => {
         if (streak >= 12) return { 
             borderColor: 'border-rose-500', 
@@ -127,118 +571,15 @@ const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, onAdd, onDele
             </div>
 
             {isAdding && (
-                <form onSubmit={handleSubmit} className="bg-slate-900/80 border border-cyan-500/30 rounded-xl p-4 mb-6 shadow-2xl relative overflow-hidden">
-                     {/* Decorative Header */}
-                     <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-cyan-500 to-transparent opacity-50" />
-                     
-                     <div className="flex justify-between items-start mb-4">
-                        <h3 className="text-xs font-bold text-cyan-400 uppercase tracking-wider">New Flight Pattern</h3>
-                        <button type="button" onClick={() => setIsAdding(false)} className="text-slate-500 hover:text-white"><X size={16} /></button>
-                     </div>
-
-                     {/* Name & Label */}
-                     <div className="space-y-3 mb-4">
-                        <input 
-                            type="text" 
-                            value={title}
-                            onChange={e => setTitle(e.target.value)}
-                            placeholder="Routine Name (e.g. Morning Jog)" 
-                            className="w-full bg-slate-800 border-b border-slate-600 focus:border-cyan-500 px-3 py-2 text-sm text-white focus:outline-none placeholder-slate-500 transition-colors"
-                            autoFocus
-                        />
-                         <input 
-                            type="text" 
-                            value={label}
-                            onChange={e => setLabel(e.target.value)}
-                            placeholder="Label (Optional)" 
-                            className="w-full bg-transparent border-b border-slate-700 focus:border-cyan-500/50 px-3 py-1 text-xs text-slate-400 focus:outline-none placeholder-slate-600"
-                        />
-                     </div>
-
-                     {/* Orbit Selector */}
-                     <div className="grid grid-cols-3 gap-1 bg-slate-800 rounded-lg p-1 mb-4">
-                        {(['weekly', 'biweekly', 'monthly'] as const).map(f => (
-                            <button
-                                key={f}
-                                type="button"
-                                onClick={() => setFrequency(f)}
-                                className={`
-                                    py-2 rounded text-[9px] font-bold uppercase tracking-wider transition-all
-                                    ${frequency === f ? 'bg-cyan-700 text-white shadow' : 'text-slate-500 hover:text-slate-300'}
-                                `}
-                            >
-                                {f === 'weekly' ? 'Low Orbit' : f === 'biweekly' ? 'High Orbit' : 'Deep Space'}
-                            </button>
-                        ))}
-                     </div>
-
-                     {/* Triggers */}
-                     <div className="mb-4">
-                        <p className="text-[10px] text-slate-500 uppercase font-bold text-center mb-1">
-                            {frequency === 'monthly' ? 'Launch Date' : 'Active Days'}
-                        </p>
-                        
-                        {frequency === 'monthly' ? (
-                            <div className="flex justify-center">
-                                <div className="flex items-center gap-2 bg-slate-800 px-3 py-2 rounded-lg border border-slate-700">
-                                    <Calendar size={14} className="text-cyan-500" />
-                                    <select 
-                                        value={selectedDate} 
-                                        onChange={e => setSelectedDate(Number(e.target.value))}
-                                        className="bg-transparent text-white text-sm font-bold focus:outline-none"
-                                    >
-                                        {Array.from({length: 31}, (_, i) => i + 1).map(d => (
-                                            <option key={d} value={d}>{d}{[1, 21, 31].includes(d) ? 'st' : [2, 22].includes(d) ? 'nd' : [3, 23].includes(d) ? 'rd' : 'th'}</option>
-                                        ))}
-                                    </select>
-                                    <span className="text-xs text-slate-400">of every month</span>
-                                </div>
-                            </div>
-                        ) : (
-                            renderDaySelector()
-                        )}
-                        {frequency === 'biweekly' && (
-                            <p className="text-[9px] text-cyan-400/70 text-center mt-1">
-                                * Starts this week, then skips every other week.
-                            </p>
-                        )}
-                     </div>
-
-                     {/* Commitment (Numerical Checkboxes) */}
-                     <div className="mb-6">
-                        <p className="text-[10px] text-slate-500 uppercase font-bold text-center mb-3">
-                            Mission Commitment ({frequency === 'weekly' ? 'Weeks' : frequency === 'biweekly' ? 'Cycles' : 'Months'})
-                        </p>
-                        <div className="flex justify-between px-2">
-                             {[1, 2, 4, 6, 8, 12, 24].map(num => (
-                                 <label key={num} className="cursor-pointer group flex flex-col items-center gap-1">
-                                     <input 
-                                        type="radio" 
-                                        name="cycles" 
-                                        checked={targetCycles === num} 
-                                        onChange={() => setTargetCycles(num)}
-                                        className="hidden"
-                                     />
-                                     <div className={`
-                                        w-8 h-8 rounded border flex items-center justify-center text-xs font-bold transition-all
-                                        ${targetCycles === num 
-                                            ? 'bg-cyan-500 border-cyan-400 text-black shadow-[0_0_10px_rgba(6,182,212,0.4)]' 
-                                            : 'bg-slate-800 border-slate-700 text-slate-500 group-hover:border-slate-500'}
-                                     `}>
-                                        {num}
-                                     </div>
-                                 </label>
-                             ))}
-                        </div>
-                     </div>
-
-                     <button 
-                        type="submit"
-                        className="w-full py-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-bold uppercase tracking-widest text-xs transition-all shadow-lg shadow-cyan-900/20"
-                     >
-                        Initialize Pattern
-                     </button>
-                </form>
+                <RoutineForm
+                    goals={goals}
+                    dayBoundary={dayBoundary}
+                    onSubmit={(draft) => {
+                        onAdd(draft);
+                        setIsAdding(false);
+                    }}
+                    onCancel={() => setIsAdding(false)}
+                />
             )}
 
             {/* List Routines */}
@@ -246,6 +587,24 @@ const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, onAdd, onDele
                 {routines.map(routine => {
                     const streak = routine.streak || 0;
                     const vStyle = getVelocityStyles(streak);
+                    const onVacation = !routine.pausedAt && isRoutineResting(routine, todayKey);
+                    const parentGoal = routine.parentGoalId ? goals.find(g => g.id === routine.parentGoalId) : undefined;
+
+                    if (editingId === routine.id) {
+                        return (
+                            <RoutineForm
+                                key={routine.id}
+                                initial={routine}
+                                goals={goals}
+                                dayBoundary={dayBoundary}
+                                onSubmit={(draft) => {
+                                    onUpdate(routine.id, draft);
+                                    setEditingId(null);
+                                }}
+                                onCancel={() => setEditingId(null)}
+                            />
+                        );
+                    }
                     
                     return (
                         <div key={routine.id} className={`group relative ${vStyle.bg} border ${vStyle.borderColor} rounded-xl p-4 transition-all hover:bg-slate-800/60 shadow-lg ${vStyle.shadow}`}>
@@ -265,25 +624,79 @@ const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, onAdd, onDele
                                             <Flame size={8} className="fill-current" />
                                             {vStyle.label} ({streak})
                                         </span>
+                                        {routine.pausedAt && (
+                                            <span className="text-[9px] uppercase tracking-wide font-bold text-amber-400 flex items-center gap-1">
+                                                <Pause size={8} /> Paused
+                                            </span>
+                                        )}
+                                        {onVacation && (
+                                            <span className="text-[9px] uppercase tracking-wide font-bold text-emerald-400 flex items-center gap-1">
+                                                <Palmtree size={8} /> Until {formatShortDate(routine.vacation!.end)}
+                                            </span>
+                                        )}
+                                        {(routine.missedDates?.length || 0) > 0 && (
+                                            <span
+                                                className="text-[9px] uppercase tracking-wide font-bold text-red-400/70"
+                                                title={`Last missed ${routine.missedDates![routine.missedDates!.length - 1]}`}
+                                            >
+                                                {routine.missedDates!.length} missed
+                                            </span>
+                                        )}
+                                        {(routine.template?.length || 0) > 0 && (
+                                            <span className="text-[9px] uppercase tracking-wide font-bold text-slate-400 flex items-center gap-1">
+                                                <ListChecks size={8} /> {routine.template!.length} steps
+                                            </span>
+                                        )}
+                                        {parentGoal && (
+                                            <span className="text-[9px] uppercase tracking-wide font-bold text-slate-400 flex items-center gap-1 max-w-[120px] truncate" title={parentGoal.text}>
+                                                <Target size={8} className="shrink-0" /> {parentGoal.text}
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
-                                <button 
-                                    onClick={() => onDelete(routine.id)}
-                                    className="text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity p-2"
-                                >
-                                    <Trash2 size={14} />
-                                </button>
+                                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={() => onTogglePause(routine.id)}
+                                        className="text-slate-600 hover:text-amber-400 p-2"
+                                        title={routine.pausedAt ? 'Resume routine' : 'Pause routine'}
+                                    >
+                                        {routine.pausedAt ? <Play size={14} /> : <Pause size={14} />}
+                                    </button>
+                                    <button
+                                        onClick={() => setEditingId(routine.id)}
+                                        className="text-slate-600 hover:text-cyan-400 p-2"
+                                        title="Edit routine"
+                                    >
+                                        <Pencil size={14} />
+                                    </button>
+                                    <button 
+                                        onClick={() => onDelete(routine.id)}
+                                        className="text-slate-600 hover:text-red-400 p-2"
+                                        title="Delete routine"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Streak Record */}
+                            <div className="flex justify-between text-[9px] text-slate-500 uppercase font-bold">
+                                <span>
+                                    {streak > 0 && routine.streakStartedAt
+                                        ? `Streak since ${new Date(routine.streakStartedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+                                        : 'No active streak'}
+                                </span>
+                                <span className="flex items-center gap-1">
+                                    <Zap size={8} />
+                                    Best {Math.max(routine.longestStreak || 0, streak)}
+                                </span>
                             </div>
 
                             {/* Progress Bar (Habit Builder) */}
                             <div className="mt-3">
                                 <div className="flex justify-between text-[9px] text-slate-500 mb-1 uppercase font-bold">
                                     <span>Frequency</span>
-                                    <span>
-                                        {routine.frequency === 'monthly' 
-                                            ? `Day ${routine.dayOfMonth}` 
-                                            : routine.daysOfWeek.map(d => ['S','M','T','W','T','F','S'][d]).join(' ')}
-                                    </span>
+                                    <span>{describeSchedule(routine)}</span>
                                 </div>
                                 <div className="flex gap-1 h-1.5 mt-2">
                                     {Array.from({length: routine.targetCycles}).map((_, i) => {
@@ -300,6 +713,16 @@ const RoutineManager: React.FC<RoutineManagerProps> = ({ routines, onAdd, onDele
                                     })}
                                 </div>
                             </div>
+
+                            {/* History */}
+                            <button
+                                onClick={() => setExpandedId(expandedId === routine.id ? null : routine.id)}
+                                className="w-full flex items-center justify-center gap-1 mt-3 text-[9px] text-slate-500 hover:text-cyan-400 uppercase font-bold transition-colors"
+                            >
+                                {expandedId === routine.id ? 'Hide history' : 'History'}
+                                <ChevronDown size={10} className={`transition-transform ${expandedId === routine.id ? 'rotate-180' : ''}`} />
+                            </button>
+                            {expandedId === routine.id && <RoutineHeatmap routine={routine} todos={todos} dayBoundary={dayBoundary} />}
                         </div>
                     );
                 })}
@@ -1,5 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Download, Upload, AlertTriangle, Globe, Cloud, CloudOff, Copy, Check, Loader2, Link, Unlink } from 'lucide-react';
+import { Download, Upload, AlertTriangle, Globe, Cloud, CloudOff, Copy, Check, Loader2, Link, Unlink, Trash2, Trophy, RotateCcw, Moon, Focus, CalendarDays, CalendarPlus } from 'lucide-react';
+import { AppSettings, ScoringConfig, StreakBreakPolicy, PomodoroConfig } from '../types';
+import { TRASH_RETENTION_OPTIONS } from '../utils/settings';
+import { MAX_DAY_END_HOUR, formatDayEndHour, getDeviceTimeZone, listTimeZones } from '../utils/dayBoundary';
+import { DEFAULT_SCORING, TIER_COLORS, type Tier } from '../utils/pointCalculations';
+import { DEFAULT_POMODORO } from '../utils/pomodoro';
+import { WEEKDAY_NAMES, WEEK_ORDER } from '../utils/schedule';
+import { valuesEqual } from '../utils/syncMerge';
 import { 
     generateSyncCode, 
     getSyncState, 
@@ -8,8 +15,68 @@ import {
     getLastSyncedAt 
 } from '../services/syncService';
 
+// Number input that commits on blur/Enter, so a half-typed value never reaches the scoring rules
+const ScoringInput: React.FC<{
+    label: string;
+    value: number;
+    min: number;
+    step: number;
+    suffix?: string;
+    color?: string;
+    onCommit: (value: number) => void;
+}> = ({ label, value, min, step, suffix, color, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+
+    useEffect(() => {
+        setDraft(String(value));
+    }, [value]);
+
+    const commit = () => {
+        const parsed = parseFloat(draft);
+        if (isNaN(parsed) || parsed < min) {
+            setDraft(String(value));
+            return;
+        }
+        if (parsed !== value) onCommit(parsed);
+    };
+
+    return (
+        <label className="flex items-center justify-between gap-3">
+            <span className="text-xs text-slate-400" style={color ? { color } : undefined}>{label}</span>
+            <span className="flex items-center gap-1">
+                <input
+                    type="number"
+                    value={draft}
+                    min={min}
+                    step={step}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={commit}
+                    onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                    className="w-20 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white text-right focus:outline-none focus:border-indigo-500"
+                />
+                {suffix && <span className="text-[10px] text-slate-500 w-6">{suffix}</span>}
+            </span>
+        </label>
+    );
+};
+
+const TIER_LABELS: Record<Tier, string> = {
+    gold: 'Gold',
+    silver: 'Silver',
+    bronze: 'Bronze',
+    normal: 'Normal'
+};
+
+const BREAK_POLICY_LABELS: Record<StreakBreakPolicy, string> = {
+    'reset': 'Reset to zero',
+    'halve': 'Halve',
+    'step-back': 'Drop one step'
+};
+
 interface SettingsViewProps {
     onExport: () => void;
+    onExportCalendar: () => void;
+    onImportCalendar: (e: React.ChangeEvent<HTMLInputElement>) => void;
     onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
     onClear: () => void;
     // Sync props
@@ -17,17 +84,35 @@ interface SettingsViewProps {
     onJoinSync?: (code: string) => Promise<boolean>;
     onDisconnectSync?: () => void;
     syncStatus?: 'disconnected' | 'connecting' | 'connected' | 'error';
+    // Synced preferences
+    settings: AppSettings;
+    onUpdateSettings: (patch: Partial<AppSettings>) => void;
 }
 
 const SettingsView: React.FC<SettingsViewProps> = ({ 
     onExport, 
+    onExportCalendar,
+    onImportCalendar,
     onImport, 
     onClear,
     onEnableSync,
     onJoinSync,
     onDisconnectSync,
-    syncStatus = 'disconnected'
+    syncStatus = 'disconnected',
+    settings,
+    onUpdateSettings
 }) => {
+    const updateScoring = (patch: Partial<ScoringConfig>) => {
+        onUpdateSettings({ scoring: { ...settings.scoring, ...patch } });
+    };
+
+    const updatePomodoro = (patch: Partial<PomodoroConfig>) => {
+        onUpdateSettings({ pomodoro: { ...settings.pomodoro, ...patch } });
+    };
+
+    const deviceTimeZone = getDeviceTimeZone();
+    const [timeZones] = useState(listTimeZones);
+
     const [showSyncSetup, setShowSyncSetup] = useState(false);
     const [joinCode, setJoinCode] = useState('');
     const [generatedCode, setGeneratedCode] = useState<string | null>(null);
@@ -261,6 +346,272 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                 )}
             </div>
 
+            {/* Trash Section */}
+            <div className="space-y-4">
+                <div className="flex items-center gap-2 mb-2">
+                    <Trash2 size={14} className="text-slate-400" />
+                    <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Trash</span>
+                </div>
+
+                <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="text-sm font-bold text-slate-300">Retention</h3>
+                        <p className="text-xs text-slate-500 mt-1">Deleted items are purged permanently after this period.</p>
+                    </div>
+                    <select
+                        value={settings.trashRetentionDays}
+                        onChange={(e) => onUpdateSettings({ trashRetentionDays: Number(e.target.value) })}
+                        className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                    >
+                        {TRASH_RETENTION_OPTIONS.map(days => (
+                            <option key={days} value={days}>{days} days</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* Day Section */}
+            <div className="space-y-4">
+                <div className="flex items-center gap-2 mb-2">
+                    <Moon size={14} className="text-slate-400" />
+                    <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Day</span>
+                </div>
+
+                <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-4">
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <h3 className="text-sm font-bold text-slate-300">End of Day</h3>
+                            <p className="text-xs text-slate-500 mt-1">Activated tasks expire and routines roll over at this hour. Tasks already activated keep their deadline.</p>
+                        </div>
+                        <select
+                            value={settings.dayEndHour}
+                            onChange={(e) => onUpdateSettings({ dayEndHour: Number(e.target.value) })}
+                            className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                        >
+                            {Array.from({ length: MAX_DAY_END_HOUR + 1 }, (_, hour) => (
+                                <option key={hour} value={hour}>{formatDayEndHour(hour)}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-4 pt-3 border-t border-slate-700/50">
+                        <div>
+                            <h3 className="text-sm font-bold text-slate-300">Home Timezone</h3>
+                            <p className="text-xs text-slate-500 mt-1">Days are counted here, so travelling doesn't shift your deadlines.</p>
+                        </div>
+                        <select
+                            value={settings.timeZone}
+                            onChange={(e) => onUpdateSettings({ timeZone: e.target.value })}
+                            className="max-w-[45%] bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                        >
+                            <option value="">This device ({deviceTimeZone})</option>
+                            {settings.timeZone && !timeZones.includes(settings.timeZone) && (
+                                <option value={settings.timeZone}>{settings.timeZone}</option>
+                            )}
+                            {timeZones.map(zone => (
+                                <option key={zone} value={zone}>{zone}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {settings.timeZone && settings.timeZone !== deviceTimeZone && (
+                        <p className="text-[10px] text-amber-400/80">
+                            This device is in {deviceTimeZone}; deadlines and routines follow {settings.timeZone}.
+                        </p>
+                    )}
+
+                    <div className="pt-3 border-t border-slate-700/50 space-y-2">
+                        <div>
+                            <h3 className="text-sm font-bold text-slate-300">Daily Capacity</h3>
+                            <p className="text-xs text-slate-500 mt-1">Hours of estimated work a day holds. Activating past it asks first; the planner fills up to it.</p>
+                        </div>
+                        {WEEK_ORDER.map(weekday => (
+                            <ScoringInput
+                                key={weekday}
+                                label={WEEKDAY_NAMES[weekday]}
+                                value={settings.dailyCapacity[weekday] / 60}
+                                min={0}
+                                step={0.5}
+                                suffix="h"
+                                onCommit={(value) => onUpdateSettings({
+                                    dailyCapacity: settings.dailyCapacity.map((minutes, day) => day === weekday ? Math.min(24 * 60, Math.round(value * 60)) : minutes)
+                                })}
+                            />
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* Pomodoro Section */}
+            <div className="space-y-4">
+                <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                        <Focus size={14} className="text-slate-400" />
+                        <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Pomodoro</span>
+                    </div>
+                    {!valuesEqual(settings.pomodoro, DEFAULT_POMODORO) && (
+                        <button
+                            onClick={() => onUpdateSettings({ pomodoro: DEFAULT_POMODORO })}
+                            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+                        >
+                            <RotateCcw size={10} /> Defaults
+                        </button>
+                    )}
+                </div>
+
+                <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-2">
+                    <p className="text-xs text-slate-500 mb-3">
+                        Focus sessions run the task's timer; breaks start by themselves when one ends. New lengths apply from the next phase.
+                    </p>
+                    <ScoringInput
+                        label="Focus"
+                        value={settings.pomodoro.focusMinutes}
+                        min={1}
+                        step={5}
+                        suffix="min"
+                        onCommit={(value) => updatePomodoro({ focusMinutes: Math.round(value) })}
+                    />
+                    <ScoringInput
+                        label="Short break"
+                        value={settings.pomodoro.shortBreakMinutes}
+                        min={1}
+                        step={1}
+                        suffix="min"
+                        onCommit={(value) => updatePomodoro({ shortBreakMinutes: Math.round(value) })}
+                    />
+                    <ScoringInput
+                        label="Long break"
+                        value={settings.pomodoro.longBreakMinutes}
+                        min={1}
+                        step={5}
+                        suffix="min"
+                        onCommit={(value) => updatePomodoro({ longBreakMinutes: Math.round(value) })}
+                    />
+                    <ScoringInput
+                        label="Long break after"
+                        value={settings.pomodoro.longBreakEvery}
+                        min={1}
+                        step={1}
+                        suffix="×"
+                        onCommit={(value) => updatePomodoro({ longBreakEvery: Math.round(value) })}
+                    />
+                </div>
+            </div>
+
+            {/* Scoring Section */}
+            <div className="space-y-4">
+                <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                        <Trophy size={14} className="text-slate-400" />
+                        <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Scoring Rules</span>
+                    </div>
+                    {!valuesEqual(settings.scoring, DEFAULT_SCORING) && (
+                        <button
+                            onClick={() => onUpdateSettings({ scoring: DEFAULT_SCORING })}
+                            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+                        >
+                            <RotateCcw size={10} /> Defaults
+                        </button>
+                    )}
+                </div>
+
+                <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-4">
+                    <p className="text-xs text-slate-500">
+                        Tasks earn their tier multiplier for every started block of time. Changes apply to points earned from now on and sync to your other devices.
+                    </p>
+
+                    <div className="space-y-2">
+                        <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Tier Multipliers</h3>
+                        {(Object.keys(TIER_LABELS) as Tier[]).map(tier => (
+                            <ScoringInput
+                                key={tier}
+                                label={TIER_LABELS[tier]}
+                                color={TIER_COLORS[tier]}
+                                value={settings.scoring.tierMultipliers[tier]}
+                                min={0}
+                                step={1}
+                                suffix="pts"
+                                onCommit={(value) => updateScoring({ tierMultipliers: { ...settings.scoring.tierMultipliers, [tier]: value } })}
+                            />
+                        ))}
+                    </div>
+
+                    <div className="space-y-2 pt-3 border-t border-slate-700/50">
+                        <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Blocks & Penalties</h3>
+                        <ScoringInput
+                            label="Block size"
+                            value={settings.scoring.blockMinutes}
+                            min={1}
+                            step={5}
+                            suffix="min"
+                            onCommit={(value) => updateScoring({ blockMinutes: Math.round(value) })}
+                        />
+                        <ScoringInput
+                            label="Graveyard penalty (share of points)"
+                            value={settings.scoring.failurePenaltyRatio}
+                            min={0}
+                            step={0.1}
+                            suffix="×"
+                            onCommit={(value) => updateScoring({ failurePenaltyRatio: value })}
+                        />
+                        <ScoringInput
+                            label="Buyback cost (share of points)"
+                            value={settings.scoring.buybackRatio}
+                            min={0}
+                            step={0.1}
+                            suffix="×"
+                            onCommit={(value) => updateScoring({ buybackRatio: value })}
+                        />
+                        <ScoringInput
+                            label="Carry-over decay (per day)"
+                            value={settings.scoring.carryOverDecay}
+                            min={0}
+                            step={0.05}
+                            suffix="×"
+                            onCommit={(value) => updateScoring({ carryOverDecay: Math.min(1, value) })}
+                        />
+                    </div>
+
+                    <div className="space-y-2 pt-3 border-t border-slate-700/50">
+                        <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Routine Velocity</h3>
+                        <ScoringInput
+                            label="Streak per bonus step"
+                            value={settings.scoring.velocity.streakStep}
+                            min={1}
+                            step={1}
+                            onCommit={(value) => updateScoring({ velocity: { ...settings.scoring.velocity, streakStep: Math.round(value) } })}
+                        />
+                        <ScoringInput
+                            label="Bonus per step"
+                            value={settings.scoring.velocity.stepBonus}
+                            min={0}
+                            step={0.05}
+                            suffix="×"
+                            onCommit={(value) => updateScoring({ velocity: { ...settings.scoring.velocity, stepBonus: value } })}
+                        />
+                        <ScoringInput
+                            label="Velocity cap"
+                            value={settings.scoring.velocity.maxMultiplier}
+                            min={1}
+                            step={0.1}
+                            suffix="×"
+                            onCommit={(value) => updateScoring({ velocity: { ...settings.scoring.velocity, maxMultiplier: value } })}
+                        />
+                        <label className="flex items-center justify-between gap-3">
+                            <span className="text-xs text-slate-400">Missed or expired task</span>
+                            <select
+                                value={settings.scoring.velocity.breakPolicy}
+                                onChange={(e) => updateScoring({ velocity: { ...settings.scoring.velocity, breakPolicy: e.target.value as StreakBreakPolicy } })}
+                                className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                            >
+                                {(Object.keys(BREAK_POLICY_LABELS) as StreakBreakPolicy[]).map(policy => (
+                                    <option key={policy} value={policy}>{BREAK_POLICY_LABELS[policy]}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                </div>
+            </div>
+
             {/* Existing Data Management Section */}
             <div className="space-y-4">
                 <div className="flex items-center gap-2 mb-2">
@@ -278,10 +629,31 @@ const SettingsView: React.FC<SettingsViewProps> = ({
                     </button>
                 </div>
 
+                <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 flex items-center justify-between">
+                    <div>
+                        <h3 className="text-sm font-bold text-slate-300">Calendar Export</h3>
+                        <p className="text-xs text-slate-500 mt-1">Download an .ics file of Today's tasks, goal target dates and routines for your calendar app.</p>
+                    </div>
+                    <button onClick={onExportCalendar} className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white transition-colors">
+                        <CalendarDays size={20} />
+                    </button>
+                </div>
+
+                <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 flex items-center justify-between">
+                    <div>
+                        <h3 className="text-sm font-bold text-slate-300">Calendar Import</h3>
+                        <p className="text-xs text-slate-500 mt-1">Turn events from an .ics file into tasks. Events imported before are skipped.</p>
+                    </div>
+                    <label className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white transition-colors cursor-pointer">
+                        <CalendarPlus size={20} />
+                        <input type="file" accept=".ics,text/calendar" onChange={onImportCalendar} className="hidden" />
+                    </label>
+                </div>
+
                 <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 flex items-center justify-between">
                     <div>
                         <h3 className="text-sm font-bold text-slate-300">Restore Data</h3>
-                        <p className="text-xs text-slate-500 mt-1">Upload a previously exported JSON file.</p>
+                        <p className="text-xs text-slate-500 mt-1">Upload a previously exported JSON file. You can review and choose how to apply it first.</p>
                     </div>
                     <label className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white transition-colors cursor-pointer">
                         <Upload size={20} />
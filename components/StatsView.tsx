@@ -1,51 +1,45 @@
 import React, { useMemo, useState } from 'react';
-import { Todo } from '../types';
-import { Activity, Calendar, Award, BarChart3 } from 'lucide-react';
-import { 
-  TIER_MULTIPLIERS, 
-  TIER_COLORS, 
-  getTierFromTodo, 
-  calculateTodoPoints,
-  type Tier 
-} from '../utils/pointCalculations';
-
-const StatsView: React.FC<StatsViewProps> = ({ todos }) => {
+import { PointEvent, Todo } from '../types';
+import { Activity, Calendar, Award, BarChart3, Timer } from 'lucide-react';
+import { TIER_COLORS, type Tier } from '../utils/pointCalculations';
+import { countDelta } from '../utils/ledger';
+import { DayBoundary, getDayKey } from '../utils/dayBoundary';
+import { parseDateKey } from '../utils/schedule';
+import { calculateEstimateAccuracy, formatTrackedTime, EstimateAccuracy } from '../utils/timeTracking';
+
+interface StatsViewProps {
+  ledger: PointEvent[]; // Scores come from the points ledger, never from the todos' current state
+  dayBoundary: DayBoundary; // Events are bucketed into the user's days, not calendar midnights
+  todos: Todo[]; // Only for estimate accuracy (tracked time), which the ledger doesn't record
+}
+
+type Period = 'week' | 'month' | 'year';
+
+const StatsView: React.FC<StatsViewProps> = ({ ledger, dayBoundary, todos }) => {
   const [period, setPeriod] = useState<Period>('week');
 
-  // 1. Calculate General Stats
+  // 1. Calculate General Stats (reversals cancel the entries they undo)
   const stats = useMemo(() => {
     let totalScore = 0;
     let completedCount = 0;
     let failedCount = 0;
 
-    todos.forEach(t => {
-      // Calculate buyback deductions for ANY task (active, completed, or failed)
-      if (t.buybackHistory && t.buybackHistory.length > 0) {
-          t.buybackHistory.forEach(event => {
-              totalScore -= event.cost;
-          });
-      }
-
-      if (!t.completed && t.status !== 'graveyard') return;
-
-      const points = calculateTodoPoints(t, todos);
-
-      if (t.completed) {
-        totalScore += points;
-        completedCount++;
-      } else if (t.status === 'graveyard') {
-        // Failed tasks deduct points with 0.5x Multiplier (reduced penalty for Volume Over Status model)
-        totalScore -= (points * 0.5);
-        failedCount++;
-      }
+    ledger.forEach(event => {
+      totalScore += event.points;
+      completedCount += countDelta(event, 'completion');
+      failedCount += countDelta(event, 'failure');
     });
 
     return { totalScore, completedCount, failedCount };
-  }, [todos]);
+  }, [ledger]);
+
+  // Days (and the months and years they fall in) are compared as the local midnight of their day key,
+  // so every total follows the end-of-day hour and home timezone
+  const dayOf = (timestamp: number) => parseDateKey(getDayKey(timestamp, dayBoundary));
 
   // 2. Generate Graph Data based on Period
   const graphData = useMemo(() => {
-    const today = new Date();
+    const today = dayOf(Date.now());
     const currentYear = today.getFullYear();
     const currentMonth = today.getMonth();
 
@@ -66,7 +60,7 @@ const StatsView: React.FC<StatsViewProps> = ({ todos }) => {
             const d = new Date(date);
             d.setHours(0,0,0,0);
             const timeDiff = d.getTime() - monday.getTime();
-            const dayDiff = Math.floor(timeDiff / (1000 * 3600 * 24));
+            const dayDiff = Math.round(timeDiff / (1000 * 3600 * 24)); // Rounded: a DST week has a 23h or 25h day
             return (dayDiff >= 0 && dayDiff < 7) ? dayDiff : -1;
         };
     } else if (period === 'month') {
@@ -99,32 +93,10 @@ const StatsView: React.FC<StatsViewProps> = ({ todos }) => {
       normal: new Array(buckets).fill(0)
     };
 
-    todos.forEach(t => {
-      const tier = getTierFromTodo(t, todos);
-      
-      // Handle Buyback Events (Negative points at timestamp)
-      if (t.buybackHistory) {
-          t.buybackHistory.forEach(event => {
-              const bDate = new Date(event.timestamp);
-              const idx = getBucketIndex(bDate);
-              if (idx !== -1) {
-                  rawData[tier][idx] -= event.cost;
-              }
-          });
-      }
-
-      if (!t.resolvedAt) return;
-      const rDate = new Date(t.resolvedAt);
-      
-      const idx = getBucketIndex(rDate);
+    ledger.forEach(event => {
+      const idx = getBucketIndex(dayOf(event.at));
       if (idx === -1) return;
-
-      const points = calculateTodoPoints(t, todos);
-
-      // Failed Penalty 0.5x (reduced for Volume Over Status model)
-      const val = t.completed ? points : (t.status === 'graveyard' ? -(points * 0.5) : 0);
-
-      rawData[tier][idx] += val;
+      rawData[event.tier][idx] += event.points;
     });
 
     const accumulate = (arr: number[]) => {
@@ -143,7 +115,7 @@ const StatsView: React.FC<StatsViewProps> = ({ todos }) => {
     };
 
     return { labels, dataPoints: accumulatedData };
-  }, [todos, period]);
+  }, [ledger, period, dayBoundary]);
 
   // Helper for Graph Scaling
   const { yMin, yRange } = useMemo(() => {
@@ -208,63 +180,29 @@ const StatsView: React.FC<StatsViewProps> = ({ todos }) => {
   }, [yMin, yRange, graphData.labels.length]);
 
   const aggregateData = useMemo(() => {
-     const currentYear = new Date().getFullYear();
-     const currentMonth = new Date().getMonth();
+     const today = dayOf(Date.now());
+     const currentYear = today.getFullYear();
+     const currentMonth = today.getMonth();
      
      const monthStats = { gold: 0, silver: 0, bronze: 0, normal: 0, total: 0 };
      const yearStats = { gold: 0, silver: 0, bronze: 0, normal: 0, total: 0 };
 
-     todos.forEach(t => {
-        // Calculate Buyback costs for aggregation
-        let buybackDeductionMonth = 0;
-        let buybackDeductionYear = 0;
-
-        if (t.buybackHistory) {
-            t.buybackHistory.forEach(e => {
-                const d = new Date(e.timestamp);
-                if (d.getFullYear() === currentYear) {
-                    buybackDeductionYear += e.cost;
-                    if (d.getMonth() === currentMonth) {
-                        buybackDeductionMonth += e.cost;
-                    }
-                }
-            });
-        }
-        
-        const tier = getTierFromTodo(t, todos);
-        
-        // Subtract buybacks first
-        if (buybackDeductionMonth > 0) {
-            monthStats[tier] -= buybackDeductionMonth;
-            monthStats.total -= buybackDeductionMonth;
-        }
-        if (buybackDeductionYear > 0) {
-            yearStats[tier] -= buybackDeductionYear;
-            yearStats.total -= buybackDeductionYear;
-        }
+     ledger.forEach(event => {
+        const d = dayOf(event.at);
+        if (d.getFullYear() !== currentYear) return;
 
-        if (!t.resolvedAt) return;
-        const d = new Date(t.resolvedAt);
-        const isYear = d.getFullYear() === currentYear;
-        const isMonth = isYear && d.getMonth() === currentMonth;
-
-        if (!isYear) return;
-
-        const points = calculateTodoPoints(t, todos);
-        
-        // Failed Penalty 0.5x (reduced for Volume Over Status model)
-        const val = t.completed ? points : (t.status === 'graveyard' ? -(points * 0.5) : 0);
-
-        if (isMonth) {
-            monthStats[tier] += val;
-            monthStats.total += val;
+        if (d.getMonth() === currentMonth) {
+            monthStats[event.tier] += event.points;
+            monthStats.total += event.points;
         }
-        yearStats[tier] += val;
-        yearStats.total += val;
+        yearStats[event.tier] += event.points;
+        yearStats.total += event.points;
      });
 
      return { monthStats, yearStats };
-  }, [todos]);
+  }, [ledger, dayBoundary]);
+
+  const accuracy = useMemo(() => calculateEstimateAccuracy(todos), [todos]);
 
   const lastValues = useMemo(() => {
       const d = graphData.dataPoints;
@@ -385,6 +323,37 @@ const StatsView: React.FC<StatsViewProps> = ({ todos }) => {
              </div>
         </div>
 
+        <div className="bg-slate-900/95 md:bg-slate-900/50 md:backdrop-blur-sm border border-slate-800 rounded-2xl p-5 shadow-lg">
+            <div className="flex items-center gap-2 mb-4 pb-2 border-b border-slate-800">
+                <Timer size={14} className="text-slate-400" />
+                <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400">Estimate Accuracy</h3>
+            </div>
+            {accuracy.overall ? (
+                <>
+                    <p className="text-xs text-slate-500 mb-4">
+                        {accuracy.overall.tasks} completed task{accuracy.overall.tasks === 1 ? '' : 's'}: estimated {formatTrackedTime(accuracy.overall.estimatedMinutes * 60 * 1000)},
+                        tracked <span className="text-slate-300 font-mono">{formatTrackedTime(accuracy.overall.actualMinutes * 60 * 1000)}</span> ({describeRatio(accuracy.overall.ratio)}).
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div className="space-y-3">
+                            <h4 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">By Label</h4>
+                            {accuracy.byLabel.map(entry => (
+                                <AccuracyRow key={entry.key || '(none)'} name={entry.key || 'No label'} entry={entry} />
+                            ))}
+                        </div>
+                        <div className="space-y-3">
+                            <h4 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">By Tier</h4>
+                            {accuracy.byTier.map(entry => (
+                                <AccuracyRow key={entry.key} name={TIER_NAMES[entry.key as Tier]} entry={entry} color={TIER_COLORS[entry.key as Tier]} />
+                            ))}
+                        </div>
+                    </div>
+                </>
+            ) : (
+                <p className="text-xs text-slate-500">Complete tasks that have a duration, with their timer running, to compare estimates with the time they really took.</p>
+            )}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pb-12">
             <div className="bg-slate-900/95 md:bg-slate-900/50 md:backdrop-blur-sm border border-slate-800 rounded-2xl p-5 shadow-lg">
                 <div className="flex items-center gap-2 mb-4 pb-2 border-b border-slate-800">
@@ -428,6 +397,34 @@ const StatsView: React.FC<StatsViewProps> = ({ todos }) => {
   );
 };
 
+const TIER_NAMES: Record<Tier, string> = { gold: 'Gold', silver: 'Silver', bronze: 'Bronze', normal: 'Normal' };
+
+// Within 10% of the estimate counts as on target
+const describeRatio = (ratio: number) => {
+    const percent = Math.round((ratio - 1) * 100);
+    return Math.abs(percent) <= 10 ? 'on target' : percent > 0 ? `${percent}% over` : `${-percent}% under`;
+};
+
+// Actual time against the estimate: the bar is full at twice the estimate, the tick marks the estimate itself
+const AccuracyRow = ({ name, entry, color }: { name: string, entry: EstimateAccuracy, color?: string }) => {
+    const offTarget = Math.abs(entry.ratio - 1) > 0.1;
+    return (
+        <div title={`${entry.tasks} task${entry.tasks === 1 ? '' : 's'}: ${formatTrackedTime(entry.actualMinutes * 60 * 1000)} tracked / ${formatTrackedTime(entry.estimatedMinutes * 60 * 1000)} estimated`}>
+            <div className="flex justify-between items-center mb-1">
+                <span className="text-xs text-slate-400 truncate" style={color ? { color } : undefined}>{name} <span className="text-[10px] text-slate-600">({entry.tasks})</span></span>
+                <span className={`text-xs font-mono font-bold ${!offTarget ? 'text-emerald-400' : entry.ratio > 1 ? 'text-red-400' : 'text-cyan-400'}`}>×{entry.ratio.toFixed(2)}</span>
+            </div>
+            <div className="relative h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div
+                    className={`h-full transition-all duration-500 ${!offTarget ? 'bg-emerald-500/70' : entry.ratio > 1 ? 'bg-red-500/70' : 'bg-cyan-500/70'}`}
+                    style={{ width: `${Math.min(100, entry.ratio * 50)}%` }}
+                />
+                <div className="absolute inset-y-0 left-1/2 w-px bg-slate-400" />
+            </div>
+        </div>
+    );
+};
+
 const Row = ({ label, value, color }: { label: string, value: number, color: string }) => (
     <div className="flex justify-between items-center">
         <span className={`text-xs ${color} opacity-80`}>{label}</span>
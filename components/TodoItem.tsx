@@ -1,18 +1,32 @@
 import React, { useMemo, useState, useEffect, useRef, useCallback } from 'react';
-import { Todo } from '../types';
-import { Trash2, Check, Clock, Trophy, FolderOpen, ChevronLeft, ChevronRight, ChevronDown, Plus, CornerDownRight, AlignLeft, Layers, Zap, Tag, Lock, Timer, RefreshCcw, Play, Pause, Archive, RotateCcw, X as XIcon, Edit3, Rocket, Eye, EyeOff, Flame, GripVertical, Copy } from 'lucide-react';
+import { Todo, ScoringConfig } from '../types';
+import { Trash2, Check, Clock, Trophy, FolderOpen, ChevronLeft, ChevronRight, ChevronDown, Plus, CornerDownRight, AlignLeft, Layers, Zap, Tag, Lock, Timer, RefreshCcw, Play, Pause, Archive, RotateCcw, X as XIcon, Edit3, Rocket, Eye, EyeOff, Flame, GripVertical, Copy, Focus, CalendarClock } from 'lucide-react';
 import RichTextEditor from './RichTextEditor';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { useDroppable } from '@dnd-kit/core';
 import { 
-  TIER_MULTIPLIERS, 
+  DEFAULT_SCORING,
   getTierFromTodo, 
   calculateTaskPoints, 
   calculateTreePoints,
+  calculateBuybackCost,
+  calculateBlocks,
   type Tier 
 } from '../utils/pointCalculations';
+import { getTaskTree, SubtreeAggregator } from '../utils/taskTree';
+import { parseDateKey } from '../utils/schedule';
+import { getTimeLeft, getTrackedTime, formatTrackedTime } from '../utils/timeTracking';
+
+// Open (not completed, not failed) descendants and how many levels deep they go
+const openTreeStats: SubtreeAggregator<{ count: number; depth: number }> = {
+  include: t => t.status !== 'graveyard' && !t.completed,
+  combine: (_todo, children) => ({
+    count: children.reduce((sum, c) => sum + c.count + 1, 0),
+    depth: children.length > 0 ? 1 + Math.max(...children.map(c => c.depth)) : 0
+  })
+};
 
 interface TodoItemProps {
   todo: Todo;
@@ -20,6 +34,7 @@ interface TodoItemProps {
   onDelete: (id: string) => void;
   parentTier?: string;
   allTodos?: Todo[];
+  scoring?: ScoringConfig;
   labelOptions?: string[];
   onAddSubTask?: (parentId: string, text: string) => void;
   onUpdateDescription?: (id: string, description: string) => void;
@@ -30,6 +45,7 @@ interface TodoItemProps {
   onBuyback?: (id: string, cost: number) => void;
   onBreakDown?: (id: string) => Promise<void>;
   onToggleTimer?: (id: string) => void;
+  onStartFocus?: (id: string) => void;
   onOpen?: (id: string) => void;
   onDuplicate?: (id: string) => void;
   viewContext?: 'orbit' | 'today' | 'list';
@@ -45,6 +61,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
   onDelete, 
   parentTier,
   allTodos,
+  scoring = DEFAULT_SCORING,
   labelOptions,
   onAddSubTask,
   onUpdateDescription,
@@ -55,6 +72,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
   onBuyback,
   onBreakDown,
   onToggleTimer,
+  onStartFocus,
   onOpen,
   onDuplicate,
   viewContext = 'list',
@@ -98,7 +116,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
   
   // Unnest zone droppable - show on PARENT of dragged task
   // Find if this todo is the parent of the currently dragged task
-  const draggedTask = draggedTaskId && allTodos ? allTodos.find(t => t.id === draggedTaskId) : null;
+  const draggedTask = draggedTaskId && allTodos ? getTaskTree(allTodos).byId.get(draggedTaskId) : null;
   const isDraggedTaskParent = draggedTask?.parentId === todo.id;
   const { setNodeRef: setUnnestRef, isOver: isUnnestOver } = useDroppable({
     id: `unnest-${todo.id}`, // Use this todo's ID (the parent) - handler will find the dragged task
@@ -188,22 +206,18 @@ const TodoItem: React.FC<TodoItemProps> = ({
   // Local Timer Logic: Calculate and update time left every second if playing
   useEffect(() => {
     const calculateTimeLeft = () => {
-        if (isGraveyard || isArchived || todo.remainingTime === undefined) return null;
-        
-        let ms = todo.remainingTime;
-        
-        // If playing, subtract elapsed time since last start
-        if (todo.isPlaying && todo.lastStartedAt) {
-            const elapsed = Date.now() - todo.lastStartedAt;
-            ms = Math.max(0, ms - elapsed);
-        }
+        const left = getTimeLeft(todo);
+        if (isGraveyard || isArchived || left === undefined) return null;
+
+        // Past zero the timer keeps counting, as overtime
+        const ms = Math.abs(left);
 
         const h = Math.floor(ms / (1000 * 60 * 60));
         const m = Math.floor((ms / (1000 * 60)) % 60);
         const s = Math.floor((ms / 1000) % 60);
 
         const pad = (n: number) => n.toString().padStart(2, '0');
-        return `${pad(h)}:${pad(m)}:${pad(s)}`;
+        return `${left < 0 ? '+' : ''}${pad(h)}:${pad(m)}:${pad(s)}`;
     };
 
     // Initial calculation
@@ -219,22 +233,20 @@ const TodoItem: React.FC<TodoItemProps> = ({
     return () => clearInterval(interval);
   }, [todo.remainingTime, todo.isPlaying, todo.lastStartedAt, isGraveyard, isArchived]);
 
+  const isOvertime = !!timeLeftString?.startsWith('+');
+  const trackedTime = todo.timeSessions?.length ? getTrackedTime(todo) : 0;
+  const estimatedTime = (todo.durationMinutes || 0) * 60 * 1000;
+
 
   // Recursive Path Calculation
   const hierarchyPath = useMemo(() => {
       if (!allTodos) return '';
-      const path: string[] = [];
-      let current = allTodos.find(t => t.id === todo.parentId);
-      while(current) {
-          path.unshift(current.text);
-          current = allTodos.find(t => t.id === current?.parentId);
-      }
-      return path.join(' / ');
-  }, [allTodos, todo.parentId]);
+      return getTaskTree(allTodos).ancestorsOf(todo.id).map(t => t.text).reverse().join(' / ');
+  }, [allTodos, todo.id]);
 
   const subTasks = useMemo(() => {
       if (!allTodos) return [];
-      return allTodos.filter(t => t.parentId === todo.id && t.status !== 'graveyard');
+      return getTaskTree(allTodos).childrenOf(todo.id).filter(t => t.status !== 'graveyard');
   }, [allTodos, todo.id]);
 
   const activeSubTasks = subTasks.filter(t => !t.completed);
@@ -259,26 +271,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
 
   const treeStats = useMemo(() => {
     if (!allTodos) return { count: 0, depth: 0 };
-    
-    let count = 0;
-    let maxDepth = 0;
-
-    const traverse = (pid: string, currentDepth: number) => {
-        const children = allTodos.filter(t => t.parentId === pid && t.status !== 'graveyard' && !t.completed);
-        
-        if (children.length > 0) {
-            const nextLevel = currentDepth + 1;
-            maxDepth = Math.max(maxDepth, nextLevel);
-            
-            children.forEach(child => {
-                count++;
-                traverse(child.id, nextLevel);
-            });
-        }
-    };
-
-    traverse(todo.id, 0);
-    return { count, depth: maxDepth };
+    return getTaskTree(allTodos).aggregate(todo.id, openTreeStats);
   }, [allTodos, todo.id]);
   
   // Robust Tier Inheritance
@@ -295,8 +288,8 @@ const TodoItem: React.FC<TodoItemProps> = ({
   }, [tier, parentTier, allTodos, todo]);
 
   const tierMultiplier = useMemo(() => {
-    return TIER_MULTIPLIERS[effectiveTier];
-  }, [effectiveTier]);
+    return scoring.tierMultipliers[effectiveTier];
+  }, [effectiveTier, scoring]);
 
   const containerClasses = useMemo(() => {
     if (isArchived) {
@@ -349,26 +342,26 @@ const TodoItem: React.FC<TodoItemProps> = ({
   // Aggregated Points Calculation (for Children) - uses shared utility
   const totalPoints = useMemo(() => {
       if (!allTodos) return 0;
-      return calculateTreePoints(todo.id, tierMultiplier, allTodos);
-  }, [allTodos, todo.id, tierMultiplier]);
+      return calculateTreePoints(todo.id, tierMultiplier, allTodos, scoring);
+  }, [allTodos, todo.id, tierMultiplier, scoring]);
   
   // Calculate potential earnings for this specific task - uses shared utility
   const taskEarnedPoints = useMemo(() => {
-      return calculateTaskPoints(todo.durationMinutes, tierMultiplier, todo.multiplier);
-  }, [todo.durationMinutes, tierMultiplier, todo.multiplier]);
+      return calculateTaskPoints(todo.durationMinutes, tierMultiplier, todo.multiplier, scoring);
+  }, [todo.durationMinutes, tierMultiplier, todo.multiplier, scoring]);
 
-  // Dynamic Buyback Cost: 1.5x earnings
+  // Dynamic Buyback Cost: a configured multiple of earnings
   const buybackCost = useMemo(() => {
-      return Math.ceil(taskEarnedPoints * 1.5);
-  }, [taskEarnedPoints]);
+      return calculateBuybackCost(taskEarnedPoints, scoring);
+  }, [taskEarnedPoints, scoring]);
   
   // Calculate preview points for the activation form
   const previewPoints = useMemo(() => {
       const h = parseInt(hoursInput || '0', 10);
       const m = parseInt(minutesInput || '0', 10);
       const totalMinutes = h * 60 + m;
-      return calculateTaskPoints(totalMinutes || 15, tierMultiplier, todo.multiplier);
-  }, [hoursInput, minutesInput, tierMultiplier, todo.multiplier]);
+      return calculateTaskPoints(totalMinutes, tierMultiplier, todo.multiplier, scoring);
+  }, [hoursInput, minutesInput, tierMultiplier, todo.multiplier, scoring]);
 
   const isContextParent = viewContext === 'today' && isBlocked;
   
@@ -570,7 +563,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                         Confirm Delete
                     </h3>
                     <p className="text-sm text-slate-400 mb-6 leading-relaxed">
-                        Are you sure you want to delete <span className="text-white font-bold">"{todo.text}"</span> and all its subtasks?
+                        Move <span className="text-white font-bold">"{todo.text}"</span> and all its subtasks to Trash? You can restore them from the Trash tab.
                     </p>
                     <div className="flex justify-end gap-3">
                         <button 
@@ -682,6 +675,39 @@ const TodoItem: React.FC<TodoItemProps> = ({
                             </span>
                         )}
 
+                        {/* CARRY-OVER BADGE (decayed multiplier) */}
+                        {!isArchived && !isGraveyard && !!todo.carryOvers && (
+                            <span 
+                                className="text-[10px] uppercase font-black tracking-wider px-1.5 py-0.5 rounded border flex items-center gap-1 bg-amber-900/20 border-amber-500/40 text-amber-400"
+                                title={`Carried over ${todo.carryOvers}x: ${todo.multiplier ?? 1}x points`}
+                            >
+                                <CornerDownRight size={8} />
+                                {Math.round((todo.multiplier ?? 1) * 100)}%
+                            </span>
+                        )}
+
+                        {/* PENDING ACTIVATION BADGE (imported event waiting for its day) */}
+                        {!isArchived && !isGraveyard && !todo.isActivated && todo.activateOn && (
+                            <span
+                                className="text-[10px] uppercase font-black tracking-wider px-1.5 py-0.5 rounded border flex items-center gap-1 bg-indigo-900/20 border-indigo-500/40 text-indigo-300"
+                                title="Activates for Today on this day"
+                            >
+                                <CalendarClock size={8} />
+                                {parseDateKey(todo.activateOn).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                            </span>
+                        )}
+
+                        {/* POMODORO BADGE (completed focus sessions) */}
+                        {showDetails && !isArchived && !!todo.pomodoros?.length && (
+                            <span 
+                                className="text-[10px] uppercase font-black tracking-wider px-1.5 py-0.5 rounded border flex items-center gap-1 bg-rose-900/20 border-rose-500/40 text-rose-400"
+                                title={`${todo.pomodoros.length} focus session${todo.pomodoros.length === 1 ? '' : 's'} completed`}
+                            >
+                                <Focus size={8} />
+                                {todo.pomodoros.length}
+                            </span>
+                        )}
+
                         {!isGraveyard && !isArchived && (
                             isEditingLabel ? (
                                 <div className="relative flex items-center gap-1" onClick={e => e.stopPropagation()}>
@@ -875,11 +901,14 @@ const TodoItem: React.FC<TodoItemProps> = ({
                              <button
                                 onClick={(e) => { e.stopPropagation(); onToggleTimer && onToggleTimer(todo.id); }}
                                 className={`flex items-center gap-1.5 text-xs font-mono px-3 py-1.5 rounded-l border-y border-l transition-all min-h-[32px]
-                                    ${todo.isPlaying 
+                                    ${isOvertime
+                                        ? 'bg-red-900/20 border-red-500/30 text-red-400'
+                                        : todo.isPlaying 
                                         ? 'bg-orange-900/20 border-orange-500/30 text-orange-400 shadow-[0_0_10px_rgba(251,146,60,0.1)]' 
                                         : 'bg-slate-800/50 border-slate-700 text-slate-500'
                                     }
                                 `}
+                                title={isOvertime ? 'Over the estimate' : undefined}
                             >
                                 {todo.isPlaying ? <Pause size={10} className="fill-current" /> : <Play size={10} className="fill-current" />}
                                 <span className={todo.isPlaying ? 'font-bold' : ''}>{timeLeftString}</span>
@@ -894,6 +923,18 @@ const TodoItem: React.FC<TodoItemProps> = ({
                             </button>
                         </div>
                     )}
+
+                    {/* Pomodoro Focus Button */}
+                    {!isGraveyard && !isArchived && !todo.completed && isActivated && onStartFocus && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onStartFocus(todo.id); }}
+                            className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider px-3 py-1.5 rounded border border-slate-700 bg-slate-800/30 text-slate-500 hover:text-rose-300 hover:border-rose-500/40 transition-colors min-h-[32px] mr-2"
+                            title="Focus with Pomodoro"
+                        >
+                            <Focus size={10} />
+                            Focus
+                        </button>
+                    )}
                     
                     {showDetails && (
                         <>
@@ -911,6 +952,16 @@ const TodoItem: React.FC<TodoItemProps> = ({
                                 <span>{formatDate(todo.resolvedAt)}</span>
                             </div>
                             )}
+
+                            {trackedTime > 0 && (
+                                <div
+                                    className={`flex items-center gap-1 text-[9px] font-mono ${hasDuration && trackedTime > estimatedTime ? 'text-red-400/70' : 'text-slate-500/80'}`}
+                                    title="Time tracked by the timer (vs. the estimate)"
+                                >
+                                    <span className="font-bold">Tracked:</span>
+                                    <span>{formatTrackedTime(trackedTime)}{hasDuration && ` / ${formatTrackedTime(estimatedTime)}`}</span>
+                                </div>
+                            )}
                         </>
                     )}
                 </div>
@@ -1020,7 +1071,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                             <div className="flex flex-col">
                                 <span className="text-sm font-bold text-yellow-500">{previewPoints} pts</span>
                                 <span className="text-[9px] text-slate-400 font-mono leading-none">
-                                    {Math.ceil((parseInt(hoursInput||'0')*60 + parseInt(minutesInput||'0'))/15)} blk x {tierMultiplier}x {(todo.multiplier && todo.multiplier > 1) ? `(+${Math.round((todo.multiplier - 1)*100)}%)` : ''}
+                                    {calculateBlocks(parseInt(hoursInput||'0')*60 + parseInt(minutesInput||'0'), scoring)} blk x {tierMultiplier}x {(todo.multiplier && todo.multiplier > 1) ? `(+${Math.round((todo.multiplier - 1)*100)}%)` : ''}
                                 </span>
                             </div>
                         </div>
@@ -1177,7 +1228,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                 <button
                     onClick={(e) => { e.stopPropagation(); handleBuybackClick(); }}
                     className="flex flex-col items-center justify-center px-4 py-3 rounded-lg border border-orange-500/30 bg-orange-900/10 hover:bg-orange-900/20 text-orange-400 transition-all mr-1"
-                    title={`Buyback task for ${buybackCost} pts (${taskEarnedPoints}pts * 1.5)`}
+                    title={`Buyback task for ${buybackCost} pts (${taskEarnedPoints}pts * ${scoring.buybackRatio})`}
                 >
                     <div className="flex items-center gap-1">
                         <RefreshCcw size={12} />
@@ -1226,7 +1277,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                     }
                 `}
                 title={
-                    isGraveyard ? "Delete permanently" : 
+                    isGraveyard ? "Move to Trash" : 
                     isArchived ? "Restore from Archive" :
                     isBlocked ? "Complete subtasks first" :
                     "Mark as Done"
@@ -1306,6 +1357,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                             onToggle={onToggle}
                             onDelete={onDelete}
                             allTodos={allTodos}
+                            scoring={scoring}
                             onAddSubTask={onAddSubTask}
                             onUpdateDescription={onUpdateDescription}
                             onUpdateText={onUpdateText}
@@ -1315,6 +1367,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                             onBuyback={onBuyback}
                             onBreakDown={onBreakDown}
                             onToggleTimer={onToggleTimer}
+                            onStartFocus={onStartFocus}
                             onOpen={onOpen}
                             viewContext={viewContext}
                             visibleIds={visibleIds}
@@ -1355,6 +1408,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                                 onToggle={onToggle}
                                 onDelete={onDelete}
                                 allTodos={allTodos}
+                                scoring={scoring}
                                 onAddSubTask={onAddSubTask}
                                 onUpdateDescription={onUpdateDescription}
                                 onUpdateText={onUpdateText}
@@ -1364,6 +1418,7 @@ const TodoItem: React.FC<TodoItemProps> = ({
                                 onBuyback={onBuyback}
                                 onBreakDown={onBreakDown}
                                 onToggleTimer={onToggleTimer}
+                                onStartFocus={onStartFocus}
                                 onOpen={onOpen}
                                 viewContext={viewContext}
                                 visibleIds={visibleIds}
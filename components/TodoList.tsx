@@ -1,9 +1,30 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { Plus, Calendar, Skull, Trophy, CheckCircle2, Target, X, ChevronLeft, ChevronRight, FolderOpen, StickyNote, Trash2, Tag, Layers, CornerDownRight, Pencil, BarChart3, Search, Filter, Square, CheckSquare, Clock, Settings, Upload, Download, AlertTriangle, List, Rocket, Globe, Archive, Sparkles, ArrowRight, Loader2 } from 'lucide-react';
+import { Plus, Calendar, Skull, Trophy, CheckCircle2, Target, X, ChevronLeft, ChevronRight, FolderOpen, StickyNote, Trash2, Tag, Layers, CornerDownRight, Pencil, BarChart3, Search, Filter, Square, CheckSquare, Clock, Settings, Upload, Download, AlertTriangle, List, Rocket, Globe, Archive, Sparkles, ArrowRight, Loader2, Undo2, Redo2, BellRing, CalendarCheck, CalendarClock, Play } from 'lucide-react';
 import TodoItem from './TodoItem';
-import RoutineManager from './RoutineManager';
-import { Todo, Note, Routine } from '../types';
+import RoutineManager, { RoutineDraft } from './RoutineManager';
+import ImportPreviewDialog from './ImportPreviewDialog';
+import GoalPlanner from './GoalPlanner';
+import { Todo, Note, Routine, Tombstones, AppSettings, ScoringConfig, PointEvent, GoalOutcome, ExpiryPolicy } from '../types';
 import { breakDownTask, generateTasksFromNote } from '../services/geminiService';
+import { stampChanges, stampRecord, mergeRecord, mergeRecords, mergeTombstones, emptyTombstones, valuesEqual, ClockedRecord } from '../utils/syncMerge';
+import { DEFAULT_SETTINGS, SETTINGS_KEY, withDefaultSettings, loadSettings } from '../utils/settings';
+import { calculateVelocityMultiplier } from '../utils/pointCalculations';
+import { recordRoutineCompletion, revertRoutineCompletion, breakRoutineStreak } from '../utils/routineStreaks';
+import { reconcileLedger, mergeLedgers } from '../utils/ledger';
+import { getTaskTree, SubtreeAggregator } from '../utils/taskTree';
+import { occurrencesSince, isRoutineResting, parseDateKey } from '../utils/schedule';
+import { DayBoundary, getDayKey, getRoutineAnchor, getDayStart, getDayEnd, getDayDeadline, shiftDayKey } from '../utils/dayBoundary';
+import { findScheduledTask } from '../utils/timeline';
+import { CalendarEvent, createCalendar, parseCalendar, getEventDayKey, getEventDeadline, getEventMinutes } from '../utils/ics';
+import { startTimer, stopTimer } from '../utils/timeTracking';
+import { getDayCapacity, getTodayPlannedMinutes, formatMinutes } from '../utils/capacity';
+import { TimerAction, EXTEND_MINUTES, requestAlertPermission, scheduleTimerAlert, showTimerAlert, cancelTimerAlert, playChime, subscribeToTimerActions } from '../utils/timerAlerts';
+import { PomodoroSession, createPomodoroSession, startPhase, pausePhase, advancePhase, loadPomodoroSession, savePomodoroSession } from '../utils/pomodoro';
+import { applyExpiry, resolveExpiryPolicy, getInheritedExpiryPolicy, EXPIRY_POLICIES, EXPIRY_POLICY_LABELS } from '../utils/expiry';
+import { getCurrentSeason, startNewSeason, withSeason, isInRetiredGoal, calculateGoalPoints, suggestOutcome } from '../utils/seasons';
+import { ParsedBackup, BackupDiff, ImportMode, parseBackup, diffBackup, applyBackup, createBackup } from '../utils/backup';
+import { HistoryState, HistoryCollection, HistoryDirection, HistoryEntry, emptyHistory, diffRecords, combinePatches, applyPatches } from '../utils/history';
+import type { TrashKind } from './TrashView';
 import {
     DndContext,
     DragEndEvent,
@@ -38,18 +59,30 @@ import {
     forceSync,
     getLastSyncedAt
 } from '../services/syncService';
+import { loadStoredData, saveCollection, clearStoredData } from '../services/storage';
 
 // Lazy load heavy components
 const StatsView = React.lazy(() => import('./StatsView'));
 const SettingsView = React.lazy(() => import('./SettingsView'));
 const NotesView = React.lazy(() => import('./NotesView'));
-
-type Tab = 'today' | 'completed' | 'graveyard' | 'archive' | 'goals' | 'notes' | 'stats' | 'settings';
+const TrashView = React.lazy(() => import('./TrashView'));
+const HallOfFameView = React.lazy(() => import('./HallOfFameView'));
+const EndOfDayReview = React.lazy(() => import('./EndOfDayReview'));
+const FocusView = React.lazy(() => import('./FocusView'));
+const CapacityPlanner = React.lazy(() => import('./CapacityPlanner'));
+const DayTimeline = React.lazy(() => import('./DayTimeline'));
+const CalendarImportDialog = React.lazy(() => import('./CalendarImportDialog'));
+
+type Tab = 'today' | 'completed' | 'graveyard' | 'archive' | 'goals' | 'hall' | 'notes' | 'trash' | 'stats' | 'settings';
 type GoalTier = 'gold' | 'silver' | 'bronze';
 
 // Threshold for auto-archiving (30 days in ms)
 const ARCHIVE_THRESHOLD_MS = 30 * 24 * 60 * 60 * 1000;
 
+// The end-of-day review opens by itself this long before the day ends (once per day)
+const REVIEW_WINDOW_MS = 60 * 60 * 1000;
+const REVIEWED_DAY_KEY = 'northstar_reviewed_day';
+
 // Helper to generate ID
 const generateId = () => {
     if (typeof crypto !== 'undefined' && crypto.randomUUID) {
@@ -58,6 +91,105 @@ const generateId = () => {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
 };
 
+// Runs the task's timer and pauses any other: one timer at a time
+const runTimerAlone = (todos: Todo[], id: string, at: number): Todo[] =>
+    todos.map(t => t.id === id ? startTimer(t, at) : stopTimer(t, at));
+
+const TOMBSTONES_KEY = 'northstar_tombstones';
+const HISTORY_KEY = 'northstar_history';
+const HISTORY_LIMIT = 100; // Undo steps kept (past + future)
+
+const loadTombstones = (): Tombstones => {
+    try {
+        const saved = localStorage.getItem(TOMBSTONES_KEY);
+        return saved ? mergeTombstones(emptyTombstones(), JSON.parse(saved)) : emptyTombstones();
+    } catch {
+        return emptyTombstones();
+    }
+};
+
+const loadHistory = (): HistoryState => {
+    try {
+        const saved = localStorage.getItem(HISTORY_KEY);
+        return saved ? { ...emptyHistory(), ...JSON.parse(saved) } : emptyHistory();
+    } catch {
+        return emptyHistory();
+    }
+};
+
+// Wraps a raw state setter so every local mutation stamps per-field clocks on the records it
+// touched and reports removed ids (tombstones). Remote merges must use the raw setter instead.
+// `captureHistory` runs at call time: it returns a recorder when the update belongs to a user action.
+const withFieldClocks = <T extends ClockedRecord>(
+    setRaw: React.Dispatch<React.SetStateAction<T[]>>,
+    onRemoved: (ids: string[], deletedAt: number) => void,
+    captureHistory?: () => ((prev: T[], next: T[]) => void) | null
+): React.Dispatch<React.SetStateAction<T[]>> => (action) => {
+    const record = captureHistory ? captureHistory() : null;
+    setRaw(prev => {
+        const next = typeof action === 'function' ? action(prev) : action;
+        if (next === prev) return prev;
+        const now = Date.now();
+        const { items, removedIds } = stampChanges(prev, next, now);
+        if (removedIds.length > 0) onRemoved(removedIds, now);
+        if (record) record(prev, items);
+        return items;
+    });
+};
+
+// Deepest actionable tasks under a node: a task with open (active, not completed) children is not a leaf
+const activeLeaves: SubtreeAggregator<Todo[]> = {
+    include: t => t.status === 'active' && !t.completed,
+    combine: (todo, children) => children.length > 0 ? children.flat() : (todo ? [todo] : [])
+};
+
+// Undo/Redo feedback, dismissed automatically after a few seconds
+const HistoryToast: React.FC<{ message: string; action: HistoryDirection; onAction: () => void; onDismiss: () => void }> = ({ message, action, onAction, onDismiss }) => {
+    useEffect(() => {
+        const timeout = setTimeout(onDismiss, 5000);
+        return () => clearTimeout(timeout);
+    }, [onDismiss]);
+
+    return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-slate-800 border border-slate-700 rounded-xl pl-4 pr-2 py-2 shadow-2xl animate-in fade-in slide-in-from-bottom-2 duration-200 max-w-[90vw]">
+            <span className="text-xs text-slate-300 truncate">{message}</span>
+            <button
+                onClick={onAction}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-indigo-400 hover:text-white hover:bg-indigo-600 transition-colors"
+            >
+                {action === 'undo' ? <Undo2 size={12} /> : <Redo2 size={12} />}
+                {action}
+            </button>
+            <button onClick={onDismiss} className="p-1 text-slate-500 hover:text-white transition-colors">
+                <X size={14} />
+            </button>
+        </div>
+    );
+};
+
+// Time's up on a task timer: stays until acted on or dismissed
+const TimerAlertToast: React.FC<{ text: string; onComplete: () => void; onExtend: () => void; onDismiss: () => void }> = ({ text, onComplete, onExtend, onDismiss }) => (
+    <div className="fixed top-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-slate-800 border border-orange-500/40 rounded-xl pl-4 pr-2 py-2 shadow-2xl animate-in fade-in slide-in-from-top-2 duration-200 max-w-[90vw]">
+        <BellRing size={14} className="text-orange-400 shrink-0" />
+        <span className="text-xs text-slate-300 truncate">Time's up: <span className="text-white">{text}</span></span>
+        <button
+            onClick={onComplete}
+            className="px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-emerald-400 hover:text-white hover:bg-emerald-600 transition-colors whitespace-nowrap"
+        >
+            Complete
+        </button>
+        <button
+            onClick={onExtend}
+            className="px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-orange-400 hover:text-white hover:bg-orange-600 transition-colors whitespace-nowrap"
+        >
+            +{EXTEND_MINUTES} min
+        </button>
+        <button onClick={onDismiss} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <X size={14} />
+        </button>
+    </div>
+);
+
 // Loading Component
 const LoadingSpinner = () => (
     <div className="h-full w-full flex flex-col items-center justify-center text-slate-500 gap-3">
@@ -270,7 +402,7 @@ const ProjectTaskForm: React.FC<ProjectTaskFormProps> = ({ onAdd, goalText, styl
 // --- END ISOLATED COMPONENTS ---
 
 // Isolated Component for Daily Limit Countdown to prevent global re-renders
-const DailyLimitCountdown: React.FC = () => {
+const DailyLimitCountdown: React.FC<{ dayBoundary: DayBoundary }> = ({ dayBoundary }) => {
     const [now, setNow] = useState(Date.now());
 
     useEffect(() => {
@@ -278,17 +410,16 @@ const DailyLimitCountdown: React.FC = () => {
         return () => clearInterval(interval);
     }, []);
 
+    // Counts down to the configured end of the day, not necessarily midnight
     const timeUntilMidnight = useMemo(() => {
-        const midnight = new Date(now);
-        midnight.setHours(24, 0, 0, 0);
-        const diff = midnight.getTime() - now;
+        const diff = getDayEnd(now, dayBoundary) - now;
         if (diff <= 0) return "00:00:00";
         const h = Math.floor(diff / (1000 * 60 * 60));
         const m = Math.floor((diff / (1000 * 60)) % 60);
         const s = Math.floor((diff / 1000) % 60);
         const pad = (n: number) => n.toString().padStart(2, '0');
         return `${pad(h)}:${pad(m)}:${pad(s)}`;
-    }, [now]);
+    }, [now, dayBoundary]);
 
     return (
         <span className="text-xs font-bold font-mono">
@@ -297,6 +428,32 @@ const DailyLimitCountdown: React.FC = () => {
     );
 };
 
+// Suggests the timer for the task scheduled in the current time block (isolated: ticks every minute)
+const ScheduledNowBanner: React.FC<{ tasks: Todo[]; onStartTimer: (id: string) => void }> = ({ tasks, onStartTimer }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const scheduled = findScheduledTask(tasks, now);
+    if (!scheduled || scheduled.isPlaying) return null;
+
+    return (
+        <div className="flex items-center gap-3 mb-4 bg-indigo-900/20 border border-indigo-500/30 rounded-xl pl-4 pr-2 py-2">
+            <CalendarClock size={14} className="text-indigo-400 shrink-0" />
+            <span className="text-xs text-slate-400 truncate flex-1">Scheduled now: <span className="text-white">{scheduled.text}</span></span>
+            <button
+                onClick={() => onStartTimer(scheduled.id)}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-indigo-300 hover:text-white hover:bg-indigo-600 transition-colors whitespace-nowrap"
+            >
+                <Play size={10} className="fill-current" /> Start timer
+            </button>
+        </div>
+    );
+};
+
 interface MissionBriefingProps {
     onClose: () => void;
 }
@@ -372,10 +529,11 @@ interface GoalSlotProps {
     existingGoal?: Todo;
     onAdd: (text: string, tier: GoalTier) => void;
     onDelete: (id: string) => void;
+    onRetire?: (id: string, outcome: GoalOutcome) => void;
     onClick?: (id: string) => void;
 }
 
-const GoalSlot: React.FC<GoalSlotProps> = React.memo(({ tier, index, existingGoal, onAdd, onDelete, onClick }) => {
+const GoalSlot: React.FC<GoalSlotProps> = React.memo(({ tier, index, existingGoal, onAdd, onDelete, onRetire, onClick }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [val, setVal] = useState('');
 
@@ -428,10 +586,38 @@ const GoalSlot: React.FC<GoalSlotProps> = React.memo(({ tier, index, existingGoa
                     <span className={`font-bold uppercase tracking-wider text-sm ${c.text}`}>{existingGoal.text}</span>
                 </div>
                 <div className="flex items-center gap-1">
+                    {onRetire && (
+                        <>
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    if (window.confirm(`Mark "${existingGoal.text}" as completed and move it to the Hall of Fame?`)) {
+                                        onRetire(existingGoal.id, 'completed');
+                                    }
+                                }}
+                                className="p-2 rounded-lg opacity-0 group-hover:opacity-100 hover:bg-emerald-900/30 text-slate-500 hover:text-emerald-400 transition-all"
+                                title="Complete goal"
+                            >
+                                <CheckCircle2 size={14} />
+                            </button>
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    if (window.confirm(`Retire "${existingGoal.text}"? It leaves its slot but keeps its tasks and points in the Hall of Fame.`)) {
+                                        onRetire(existingGoal.id, 'retired');
+                                    }
+                                }}
+                                className="p-2 rounded-lg opacity-0 group-hover:opacity-100 hover:bg-slate-700/50 text-slate-500 hover:text-slate-300 transition-all"
+                                title="Retire goal"
+                            >
+                                <Archive size={14} />
+                            </button>
+                        </>
+                    )}
                     <button
                         onClick={(e) => {
                             e.stopPropagation();
-                            if (window.confirm(`Delete "${existingGoal.text}" and all its subtasks?`)) {
+                            if (window.confirm(`Move "${existingGoal.text}" and all its subtasks to Trash?`)) {
                                 onDelete(existingGoal.id);
                             }
                         }}
@@ -478,6 +664,7 @@ interface ProjectViewProps {
     goal: Todo;
     tasks: Todo[];
     allTodos: Todo[];
+    scoring: ScoringConfig;
     labelOptions?: string[];
     onBack: () => void;
     onAddTask: (text: string, customLabel?: string) => void;
@@ -493,6 +680,8 @@ interface ProjectViewProps {
     onBreakDown: (id: string) => Promise<void>;
     onDuplicate: (id: string) => void;
     onReorderTasks?: (updates: Array<{ id: string; order?: number; parentId?: string }>) => void;
+    onUpdateGoalPlan: (id: string, plan: Partial<Pick<Todo, 'targetDate' | 'milestones'>>) => void;
+    onSetExpiryPolicy: (id: string, policy: ExpiryPolicy | undefined) => void;
     totalPlannedTime: number;
 }
 
@@ -500,6 +689,7 @@ const ProjectView: React.FC<ProjectViewProps> = ({
     goal, 
     tasks, 
     allTodos,
+    scoring,
     labelOptions,
     onBack, 
     onAddTask, 
@@ -515,6 +705,8 @@ const ProjectView: React.FC<ProjectViewProps> = ({
     onBreakDown,
     onDuplicate,
     onReorderTasks,
+    onUpdateGoalPlan,
+    onSetExpiryPolicy,
     totalPlannedTime
 }) => {
     // Drag and drop state
@@ -542,22 +734,12 @@ const ProjectView: React.FC<ProjectViewProps> = ({
     };
     const s = styles[tier] || styles.normal;
 
+    // Shared parent/child index for the current list (built once per state change)
+    const tree = getTaskTree(allTodos);
+
     // Compute goal-specific label options (only labels from tasks under this goal)
     const goalLabelOptions = useMemo(() => {
-        // Helper to get all descendant IDs of this goal
-        const getDescendantIds = (rootId: string): Set<string> => {
-            const ids = new Set<string>([rootId]);
-            const addChildren = (parentId: string) => {
-                allTodos.filter(t => t.parentId === parentId).forEach(child => {
-                    ids.add(child.id);
-                    addChildren(child.id);
-                });
-            };
-            addChildren(rootId);
-            return ids;
-        };
-        
-        const descendantIds = getDescendantIds(goal.id);
+        const descendantIds = tree.subtreeIds(goal.id);
         
         // Deduplicate case-insensitively but keep first-seen casing
         const map = new Map<string, string>();
@@ -569,10 +751,10 @@ const ProjectView: React.FC<ProjectViewProps> = ({
             if (!map.has(key)) map.set(key, raw);
         }
         return Array.from(map.values()).sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
-    }, [allTodos, goal.id]);
+    }, [allTodos, tree, goal.id]);
 
     const handleDeleteProject = () => {
-        if (window.confirm("Are you sure you want to delete this task and all its subtasks?")) {
+        if (window.confirm("Move this task and all its subtasks to Trash?")) {
             onDelete(goal.id);
             onBack();
         }
@@ -635,23 +817,8 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                 const sortedZones = [...zoneCollisions].sort((a, b) => {
                     const idA = String(a.id).replace(/^(nest|unnest)-/, '');
                     const idB = String(b.id).replace(/^(nest|unnest)-/, '');
-                    const taskA = allTodos.find(t => t.id === idA);
-                    const taskB = allTodos.find(t => t.id === idB);
-                    
-                    // Count depth by walking up parentId chain
-                    const getDepth = (task: typeof taskA): number => {
-                        if (!task) return 0;
-                        let depth = 0;
-                        let current = task;
-                        while (current?.parentId) {
-                            depth++;
-                            current = allTodos.find(t => t.id === current?.parentId);
-                        }
-                        return depth;
-                    };
-                    
                     // Higher depth (more nested) should come first
-                    return getDepth(taskB) - getDepth(taskA);
+                    return tree.depthOf(idB) - tree.depthOf(idA);
                 });
                 return [sortedZones[0]];
             }
@@ -660,18 +827,12 @@ const ProjectView: React.FC<ProjectViewProps> = ({
         
         // If no zone collisions, fall back to sortable items using closestCenter
         return closestCenter(args);
-    }, [allTodos]);
+    }, [tree]);
     
     // Check if a task is a descendant of another (to prevent circular nesting)
     const isDescendantOf = useCallback((childId: string, potentialParentId: string): boolean => {
-        let currentId: string | undefined = childId;
-        while (currentId) {
-            if (currentId === potentialParentId) return true;
-            const current = allTodos.find(t => t.id === currentId);
-            currentId = current?.parentId;
-        }
-        return false;
-    }, [allTodos]);
+        return tree.isDescendantOf(childId, potentialParentId);
+    }, [tree]);
     
     const handleDragStart = (event: DragStartEvent) => {
         const id = toIdString(event.active?.id);
@@ -689,7 +850,7 @@ const ProjectView: React.FC<ProjectViewProps> = ({
             id: 'promotion-zone',
         });
         
-        const activeTask = activeId ? allTodos.find(t => t.id === activeId) : null;
+        const activeTask = activeId ? tree.byId.get(activeId) : null;
         const hasParent = activeTask?.parentId && activeTask.parentId !== goal.id;
         
         // Only show if dragging a nested task
@@ -731,13 +892,13 @@ const ProjectView: React.FC<ProjectViewProps> = ({
 
             if (activeIdStr === overIdStr) return;
 
-            const activeTask = allTodos.find(t => t.id === activeIdStr);
+            const activeTask = tree.byId.get(activeIdStr);
             if (!activeTask) return;
 
             // Handle nest zone: nest-{taskId}
             if (overIdStr.startsWith('nest-')) {
                 const targetTaskId = overIdStr.replace('nest-', '');
-                const targetTask = allTodos.find(t => t.id === targetTaskId);
+                const targetTask = tree.byId.get(targetTaskId);
                 if (!targetTask) return;
 
                 // Prevent circular nesting
@@ -747,7 +908,7 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                 }
 
                 // NEST: Make dragged task a child of target
-                const siblings = allTodos.filter(t => t.parentId === targetTaskId && t.id !== activeIdStr);
+                const siblings = tree.childrenOf(targetTaskId).filter(t => t.id !== activeIdStr);
                 const newOrder = siblings.length > 0
                     ? Math.max(...siblings.map(t => t.order ?? 0)) + 1
                     : 0;
@@ -769,11 +930,11 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                 if (activeTask.parentId !== droppedOnParentId) return;
 
                 // UNNEST: Move task to parent level (same level as current parent)
-                const parent = allTodos.find(t => t.id === droppedOnParentId);
+                const parent = tree.byId.get(droppedOnParentId);
                 if (!parent) return; // Already at root level
 
                 const newParentId = parent.parentId || goal.id;
-                const siblings = allTodos.filter(t => t.parentId === newParentId && t.id !== activeIdStr);
+                const siblings = tree.childrenOf(newParentId).filter(t => t.id !== activeIdStr);
 
                 // Find parent's position and place promoted task right after it
                 const parentIndex = siblings.findIndex(t => t.id === parent.id);
@@ -792,11 +953,11 @@ const ProjectView: React.FC<ProjectViewProps> = ({
             // Special handling for promotion zone
             if (overIdStr === 'promotion-zone') {
                 // PROMOTE: Move task to parent level (same level as current parent)
-                const parent = allTodos.find(t => t.id === activeTask.parentId);
+                const parent = tree.byId.get(activeTask.parentId);
                 if (!parent) return; // Already at root level
 
                 const newParentId = parent.parentId || goal.id;
-                const siblings = allTodos.filter(t => t.parentId === newParentId && t.id !== activeIdStr);
+                const siblings = tree.childrenOf(newParentId).filter(t => t.id !== activeIdStr);
 
                 // Find parent's position and place promoted task right after it
                 const parentIndex = siblings.findIndex(t => t.id === parent.id);
@@ -812,7 +973,7 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                 return;
             }
 
-            const overTask = allTodos.find(t => t.id === overIdStr);
+            const overTask = tree.byId.get(overIdStr);
             if (!overTask) return;
 
             // Check if we're at the same parent level
@@ -867,6 +1028,21 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                         <p className="text-[10px] text-slate-500 uppercase tracking-wide mt-0.5">
                             {isProject ? 'Project View - Drag to Reorder • Drop on zones to Nest/Unnest' : 'Task View - Drag to Reorder • Drop on zones to Nest/Unnest'}
                         </p>
+                        {/* What happens to this subtree's activated tasks left open at the end of the day */}
+                        <label className="flex items-center gap-1.5 mt-1 text-[10px] text-slate-500 uppercase tracking-wide">
+                            <Clock size={10} />
+                            At day end:
+                            <select
+                                value={goal.expiryPolicy || ''}
+                                onChange={(e) => onSetExpiryPolicy(goal.id, (e.target.value || undefined) as ExpiryPolicy | undefined)}
+                                className="bg-transparent text-slate-300 font-bold uppercase focus:outline-none cursor-pointer"
+                            >
+                                <option value="">Inherit ({EXPIRY_POLICY_LABELS[getInheritedExpiryPolicy(goal.id, allTodos)]})</option>
+                                {EXPIRY_POLICIES.map(policy => (
+                                    <option key={policy} value={policy}>{EXPIRY_POLICY_LABELS[policy]}</option>
+                                ))}
+                            </select>
+                        </label>
                     </div>
                     <button 
                         onClick={handleDeleteProject}
@@ -877,6 +1053,11 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                     </button>
                 </div>
 
+                {/* Target date, milestones and forecast (goals only) */}
+                {isProject && (
+                    <GoalPlanner goal={goal} allTodos={allTodos} scoring={scoring} onUpdatePlan={onUpdateGoalPlan} />
+                )}
+
                 {/* Task List */}
                 <div className="flex-grow overflow-y-auto p-4 pb-28 space-y-2">
                     {activeTasks.length === 0 && completedTasks.length === 0 && (
@@ -896,6 +1077,7 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                                 onToggle={onToggle}
                                 onDelete={onDelete}
                                 allTodos={allTodos}
+                                scoring={scoring}
                                 labelOptions={goalLabelOptions}
                                 onAddSubTask={onAddSubTask}
                                 onUpdateDescription={onUpdateDescription}
@@ -925,6 +1107,7 @@ const ProjectView: React.FC<ProjectViewProps> = ({
                                     onToggle={onToggle}
                                     onDelete={onDelete}
                                     allTodos={allTodos}
+                                    scoring={scoring}
                                     labelOptions={goalLabelOptions}
                                     onAddSubTask={onAddSubTask}
                                     onUpdateDescription={onUpdateDescription}
@@ -956,11 +1139,18 @@ const ProjectView: React.FC<ProjectViewProps> = ({
 interface GoalManagementViewProps {
     todos: Todo[];
     routines: Routine[];
+    scoring: ScoringConfig;
+    dayBoundary: DayBoundary;
     labelOptions?: string[];
     onAddGoal: (text: string, tier: GoalTier) => void;
     onAddNormal: (text: string) => void;
     onDelete: (id: string) => void;
     onOpenProject: (id: string) => void;
+    // Seasons
+    seasonName: string;
+    onRetireGoal: (id: string, outcome: GoalOutcome) => void;
+    onStartSeason: () => void;
+    onOpenHallOfFame: () => void;
     // Expanded Props for TodoItem functionality
     onToggle: (id: string) => void;
     onActivate: (id: string) => void;
@@ -973,7 +1163,9 @@ interface GoalManagementViewProps {
     onAddSubTask: (parentId: string, text: string) => void;
     onDuplicate: (id: string) => void;
     // Routine Props
-    onAddRoutine: (routine: Omit<Routine, 'id' | 'createdAt' | 'lastGeneratedDate' | 'completedCycles' | 'streak'>) => void;
+    onAddRoutine: (routine: RoutineDraft) => void;
+    onUpdateRoutine: (id: string, draft: RoutineDraft) => void;
+    onToggleRoutinePause: (id: string) => void;
     onDeleteRoutine: (id: string) => void;
     totalPlannedTime: number;
 }
@@ -981,11 +1173,17 @@ interface GoalManagementViewProps {
 const GoalManagementView: React.FC<GoalManagementViewProps> = ({ 
     todos, 
     routines,
+    scoring,
+    dayBoundary,
     labelOptions,
     onAddGoal, 
     onAddNormal, 
     onDelete, 
     onOpenProject,
+    seasonName,
+    onRetireGoal,
+    onStartSeason,
+    onOpenHallOfFame,
     onToggle,
     onActivate,
     onSetDuration,
@@ -997,10 +1195,13 @@ const GoalManagementView: React.FC<GoalManagementViewProps> = ({
     onAddSubTask,
     onDuplicate,
     onAddRoutine,
+    onUpdateRoutine,
+    onToggleRoutinePause,
     onDeleteRoutine,
     totalPlannedTime
 }) => {
-    const goals = useMemo(() => todos.filter(t => t.label === 'goal' && t.status !== 'graveyard'), [todos]);
+    // Retired goals live in the Hall of Fame, freeing their slot
+    const goals = useMemo(() => todos.filter(t => t.label === 'goal' && t.status !== 'graveyard' && !t.retirement), [todos]);
     const goldGoal = useMemo(() => goals.find(g => g.goalCategory === 'gold'), [goals]);
     const silverGoals = useMemo(() => goals.filter(g => g.goalCategory === 'silver'), [goals]);
     const bronzeGoals = useMemo(() => goals.filter(g => g.goalCategory === 'bronze'), [goals]);
@@ -1072,6 +1273,29 @@ const GoalManagementView: React.FC<GoalManagementViewProps> = ({
             </div>
 
             <div className="space-y-8 max-w-lg mx-auto">
+                {/* Season */}
+                <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-slate-800 bg-slate-900/60">
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                        Season <span className="text-slate-300 font-mono">{seasonName}</span>
+                    </span>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={onOpenHallOfFame}
+                            className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:bg-yellow-900/20 transition-colors"
+                        >
+                            <Trophy size={12} />
+                            Hall of Fame
+                        </button>
+                        <button
+                            onClick={onStartSeason}
+                            className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                        >
+                            <Sparkles size={12} />
+                            New Season
+                        </button>
+                    </div>
+                </div>
+
                 {/* Gold Tier */}
                 <div className="space-y-2">
                     <div className="flex items-center gap-2 mb-2">
@@ -1084,6 +1308,7 @@ const GoalManagementView: React.FC<GoalManagementViewProps> = ({
                         existingGoal={goldGoal} 
                         onAdd={onAddGoal} 
                         onDelete={onDelete} 
+                        onRetire={onRetireGoal}
                         onClick={onOpenProject}
                     />
                 </div>
@@ -1095,8 +1320,8 @@ const GoalManagementView: React.FC<GoalManagementViewProps> = ({
                         <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Support Vector (Silver)</span>
                     </div>
                     <div className="grid grid-cols-1 gap-3">
-                        <GoalSlot tier="silver" index={0} existingGoal={silverGoals[0]} onAdd={onAddGoal} onDelete={onDelete} onClick={onOpenProject} />
-                        <GoalSlot tier="silver" index={1} existingGoal={silverGoals[1]} onAdd={onAddGoal} onDelete={onDelete} onClick={onOpenProject} />
+                        <GoalSlot tier="silver" index={0} existingGoal={silverGoals[0]} onAdd={onAddGoal} onDelete={onDelete} onRetire={onRetireGoal} onClick={onOpenProject} />
+                        <GoalSlot tier="silver" index={1} existingGoal={silverGoals[1]} onAdd={onAddGoal} onDelete={onDelete} onRetire={onRetireGoal} onClick={onOpenProject} />
                     </div>
                 </div>
 
@@ -1115,6 +1340,7 @@ const GoalManagementView: React.FC<GoalManagementViewProps> = ({
                                 existingGoal={bg} 
                                 onAdd={onAddGoal} 
                                 onDelete={onDelete} 
+                                onRetire={onRetireGoal}
                                 onClick={onOpenProject} 
                             />
                         ))}
@@ -1126,7 +1352,12 @@ const GoalManagementView: React.FC<GoalManagementViewProps> = ({
                 {/* ROUTINES / FLIGHT PATTERNS (MOVED HERE) */}
                 <RoutineManager 
                     routines={routines}
+                    goals={goals}
+                    todos={todos}
+                    dayBoundary={dayBoundary}
                     onAdd={onAddRoutine}
+                    onUpdate={onUpdateRoutine}
+                    onTogglePause={onToggleRoutinePause}
                     onDelete={onDeleteRoutine}
                 />
                 
@@ -1145,6 +1376,7 @@ const GoalManagementView: React.FC<GoalManagementViewProps> = ({
                                 onToggle={onToggle} 
                                 onDelete={onDelete}
                                 allTodos={todos}
+                                scoring={scoring}
                                 labelOptions={labelOptions}
                                 onAddSubTask={onAddSubTask}
                                 onUpdateDescription={onUpdateDescription}
@@ -1173,37 +1405,168 @@ interface TodoListProps {
   onGoalsChange?: (goals: Todo[]) => void;
   onSyncStateChange?: (state: { status: 'disconnected' | 'connecting' | 'connected' | 'error'; lastSyncedAt: number | null }) => void;
   onForceSyncReady?: (handler: () => Promise<{ success: boolean; error?: string }>) => void;
+  onFocusModeChange?: (active: boolean) => void;
 }
 
-const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, onForceSyncReady }) => {
-  const LOCAL_UPDATED_AT_KEY = 'northstar_local_last_updated_at';
+const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, onForceSyncReady, onFocusModeChange }) => {
+  // Collections are loaded asynchronously from IndexedDB (see services/storage)
+  const [todos, setTodosRaw] = useState<Todo[]>([]);
+  const [routines, setRoutinesRaw] = useState<Routine[]>([]);
+  const [notes, setNotesRaw] = useState<Note[]>([]);
+  const [ledger, setLedger] = useState<PointEvent[]>([]); // Append-only, never edited or undone
+  const [isStorageReady, setIsStorageReady] = useState(false);
 
-  const [todos, setTodos] = useState<Todo[]>(() => {
-    try {
-      const saved = localStorage.getItem('todos');
-      return saved ? JSON.parse(saved) : [];
-    } catch {
-      return [];
-    }
-  });
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredData()
+      .then(data => {
+        if (cancelled) return;
+        setTodosRaw(data.todos);
+        setRoutinesRaw(data.routines);
+        setNotesRaw(data.notes);
+        setLedger(data.ledger);
+      })
+      .catch(err => {
+        console.error('Failed to load saved data:', err);
+        alert("Could not load your saved data. Changes made now may not be saved.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsStorageReady(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
 
-  const [routines, setRoutines] = useState<Routine[]>(() => {
+  // Deletion records for sync. Kept in a ref: they only matter when pushing/merging.
+  // Re-recording an id at the same time is a no-op, so Strict Mode double-invocation is safe.
+  const tombstonesRef = useRef<Tombstones>(loadTombstones());
+  const saveTombstones = useCallback((next: Tombstones) => {
+    tombstonesRef.current = next;
     try {
-        const saved = localStorage.getItem('routines');
-        return saved ? JSON.parse(saved) : [];
+      localStorage.setItem(TOMBSTONES_KEY, JSON.stringify(next));
     } catch {
-        return [];
+      // ignore
     }
-  });
-
-  const [notes, setNotes] = useState<Note[]>(() => {
+  }, []);
+  const recordTombstones = useCallback((collection: keyof Tombstones) => (ids: string[], deletedAt: number) => {
+    const entries = Object.fromEntries(ids.map(id => [id, deletedAt]));
+    saveTombstones(mergeTombstones(tombstonesRef.current, { [collection]: entries }));
+  }, [saveTombstones]);
+
+  // --- UNDO / REDO ---
+  // Handlers open an action with beginAction(label); every clocked update issued in the same tick
+  // is recorded into that one history entry as field-level inverse patches.
+  const historyRef = useRef<HistoryState>(loadHistory());
+  const pendingActionRef = useRef<{ id: string; label: string } | null>(null);
+  const [historyToast, setHistoryToast] = useState<{ id: number; message: string; action: HistoryDirection } | null>(null);
+
+  const saveHistory = useCallback((next: HistoryState) => {
+    historyRef.current = next;
     try {
-      const saved = localStorage.getItem('notes');
-      return saved ? JSON.parse(saved) : [];
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
     } catch {
-      return [];
+      // ignore (quota): history is a convenience, not data
     }
-  });
+  }, []);
+
+  const showHistoryToast = useCallback((message: string, action: HistoryDirection) => {
+    setHistoryToast({ id: Date.now(), message, action });
+  }, []);
+  const dismissHistoryToast = useCallback(() => setHistoryToast(null), []);
+
+  const beginAction = useCallback((label: string) => {
+    if (pendingActionRef.current) return; // Nested handler calls join the outer action
+    pendingActionRef.current = { id: generateId(), label };
+    queueMicrotask(() => { pendingActionRef.current = null; });
+  }, []);
+
+  const captureHistory = useCallback((collection: HistoryCollection) => () => {
+    const action = pendingActionRef.current;
+    if (!action) return null;
+    return (prev: ClockedRecord[], next: ClockedRecord[]) => {
+      const patches = diffRecords(collection, prev, next);
+      if (patches.length === 0) return;
+
+      const { past } = historyRef.current;
+      const last = past[past.length - 1];
+      const entry: HistoryEntry = last && last.id === action.id
+        ? { ...last, patches: combinePatches(last.patches, patches) }
+        : { id: action.id, label: action.label, at: Date.now(), patches };
+      const nextPast = last && last.id === action.id ? [...past.slice(0, -1), entry] : [...past, entry];
+      saveHistory({ past: nextPast.slice(-HISTORY_LIMIT), future: [] });
+
+      // Recorded from inside a state updater: defer the toast to avoid a render-phase update
+      setTimeout(() => showHistoryToast(action.label, 'undo'), 0);
+    };
+  }, [saveHistory, showHistoryToast]);
+
+  // Local mutations go through these clocked setters
+  const setTodos = useMemo(() => withFieldClocks<Todo>(setTodosRaw, recordTombstones('todos'), captureHistory('todos')), [recordTombstones, captureHistory]);
+  const setRoutines = useMemo(() => withFieldClocks<Routine>(setRoutinesRaw, recordTombstones('routines'), captureHistory('routines')), [recordTombstones, captureHistory]);
+  const setNotes = useMemo(() => withFieldClocks<Note>(setNotesRaw, recordTombstones('notes'), captureHistory('notes')), [recordTombstones, captureHistory]);
+
+  // Undo/redo re-apply an entry through the clocked setters (outside any action), so they sync like edits
+  const applyHistoryEntry = useCallback((entry: HistoryEntry, direction: HistoryDirection) => {
+    setTodos(prev => applyPatches(prev, entry.patches, 'todos', direction));
+    setRoutines(prev => applyPatches(prev, entry.patches, 'routines', direction));
+    setNotes(prev => applyPatches(prev, entry.patches, 'notes', direction));
+  }, [setTodos, setRoutines, setNotes]);
+
+  const undo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    applyHistoryEntry(entry, 'undo');
+    saveHistory({ past: past.slice(0, -1), future: [...future, entry].slice(-HISTORY_LIMIT) });
+    showHistoryToast(`Undone: ${entry.label}`, 'redo');
+  }, [applyHistoryEntry, saveHistory, showHistoryToast]);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const entry = future[future.length - 1];
+    if (!entry) return;
+    applyHistoryEntry(entry, 'redo');
+    saveHistory({ past: [...past, entry].slice(-HISTORY_LIMIT), future: future.slice(0, -1) });
+    showHistoryToast(`Redone: ${entry.label}`, 'undo');
+  }, [applyHistoryEntry, saveHistory, showHistoryToast]);
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Synced preferences: one clocked record, merged field-by-field like any other
+  const [settings, setSettingsRaw] = useState<AppSettings>(loadSettings);
+  const updateSettings = useCallback((patch: Partial<AppSettings>) => {
+    setSettingsRaw(prev => stampRecord(prev, { ...prev, ...patch }));
+  }, []);
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    settingsRef.current = settings;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // When the user's day ends (hour and home timezone), shared by deadlines, routines, the countdown and stats
+  const dayBoundary = useMemo<DayBoundary>(
+    () => ({ dayEndHour: settings.dayEndHour, timeZone: settings.timeZone }),
+    [settings.dayEndHour, settings.timeZone]
+  );
+
+  // Soft-deleted records stay in state (so the deletion syncs and can be restored) but only Trash shows them
+  const liveTodos = useMemo(() => todos.filter(t => !t.deletedAt), [todos]);
+  const liveRoutines = useMemo(() => routines.filter(r => !r.deletedAt), [routines]);
+  const liveNotes = useMemo(() => notes.filter(n => !n.deletedAt), [notes]);
 
   const [activeTab, setActiveTab] = useState<Tab>('today');
   const [viewingGoalId, setViewingGoalId] = useState<string | null>(null);
@@ -1224,35 +1587,36 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   useEffect(() => { routinesRef.current = routines; }, [routines]);
   const notesRef = useRef(notes);
   useEffect(() => { notesRef.current = notes; }, [notes]);
+  const ledgerRef = useRef(ledger);
+  useEffect(() => { ledgerRef.current = ledger; }, [ledger]);
+
+  // Merge a remote snapshot into local state field-by-field (never a wholesale replace)
+  const applyRemoteData = (data: Partial<SyncData>) => {
+    const tombstones = mergeTombstones(tombstonesRef.current, data.tombstones);
+    saveTombstones(tombstones);
+
+    const mergeSettings = (prev: AppSettings) => {
+      if (!data.settings) return prev;
+      const merged = mergeRecord(prev, withDefaultSettings(data.settings));
+      return valuesEqual(merged, prev) ? prev : merged;
+    };
 
-  const getLocalUpdatedAt = () => {
-    try {
-      const raw = localStorage.getItem(LOCAL_UPDATED_AT_KEY);
-      const n = raw ? Number(raw) : null;
-      return Number.isFinite(n) ? n : null;
-    } catch {
-      return null;
-    }
-  };
-
-  const setLocalUpdatedAt = (ts: number) => {
-    try {
-      localStorage.setItem(LOCAL_UPDATED_AT_KEY, String(ts));
-    } catch {
-      // ignore
-    }
-  };
+    // Our own writes echo back through the subscription; skip the state churn when nothing would change
+    const unchanged =
+      mergeRecords(todosRef.current, data.todos || [], tombstones.todos) === todosRef.current &&
+      mergeRecords(routinesRef.current, data.routines || [], tombstones.routines) === routinesRef.current &&
+      mergeRecords(notesRef.current, data.notes || [], tombstones.notes) === notesRef.current &&
+      mergeSettings(settingsRef.current) === settingsRef.current &&
+      mergeLedgers(ledgerRef.current, data.ledger) === ledgerRef.current;
+    if (unchanged) return;
 
-  const applyRemoteData = (data: SyncData) => {
     isRemoteUpdateRef.current = true;
 
-    if (data.todos) setTodos(data.todos);
-    if (data.routines) setRoutines(data.routines);
-    if (data.notes) setNotes(data.notes);
-
-    // Keep a local notion of "freshness" so we can choose direction on next startup.
-    const remoteUpdatedAt = data.lastUpdated?.toMillis?.() ?? Date.now();
-    setLocalUpdatedAt(remoteUpdatedAt);
+    setTodosRaw(prev => mergeRecords(prev, data.todos || [], tombstones.todos));
+    setRoutinesRaw(prev => mergeRecords(prev, data.routines || [], tombstones.routines));
+    setNotesRaw(prev => mergeRecords(prev, data.notes || [], tombstones.notes));
+    setSettingsRaw(mergeSettings);
+    setLedger(prev => mergeLedgers(prev, data.ledger));
 
     // Allow state to settle before we re-enable pushes
     setTimeout(() => {
@@ -1264,14 +1628,14 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   const labelOptions = useMemo(() => {
       // Deduplicate case-insensitively but keep first-seen casing.
       const map = new Map<string, string>();
-      for (const t of todos) {
+      for (const t of liveTodos) {
           const raw = (t.customLabel || '').trim();
           if (!raw) continue;
           const key = raw.toLowerCase();
           if (!map.has(key)) map.set(key, raw);
       }
       return Array.from(map.values()).sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
-  }, [todos]);
+  }, [liveTodos]);
   
   // Onboarding State
   const [showMissionBriefing, setShowMissionBriefing] = useState(() => {
@@ -1283,32 +1647,163 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       localStorage.setItem('hasSeenBriefing', 'true');
   };
 
+  // Capacity planner: pulls Orbit tasks into Today up to the day's capacity
+  const [showPlanner, setShowPlanner] = useState(false);
+
+  // Today as a flat list, or as time blocks on the day's timeline
+  const [todayView, setTodayView] = useState<'list' | 'timeline'>('list');
+
+  // End-of-day review: activated tasks still open, about to expire under their policy
+  const [showReview, setShowReview] = useState(false);
+  const expiringTasks = useMemo(
+      () => liveTodos.filter(t => t.status === 'active' && t.isActivated && !t.completed && !!t.activationDeadline),
+      [liveTodos]
+  );
+
+  useEffect(() => {
+      const check = () => {
+          const now = Date.now();
+          const today = getDayKey(now, settingsRef.current);
+          if (localStorage.getItem(REVIEWED_DAY_KEY) === today) return;
+          if (getDayEnd(now, settingsRef.current) - now > REVIEW_WINDOW_MS) return;
+          if (expiringTasks.length > 0) setShowReview(true);
+      };
+      check();
+      const interval = setInterval(check, 60 * 1000);
+      return () => clearInterval(interval);
+  }, [expiringTasks.length]);
+
+  // Closing counts as reviewed: the dialog doesn't come back by itself today
+  const closeReview = useCallback(() => {
+      setShowReview(false);
+      localStorage.setItem(REVIEWED_DAY_KEY, getDayKey(Date.now(), settingsRef.current));
+  }, []);
+
+  // Choices are stored as the tasks' own policy, unless they match what the task inherits anyway
+  const applyReview = useCallback((choices: Record<string, ExpiryPolicy>) => {
+      beginAction('End of day review');
+      setTodos(prev => prev.map(t => {
+          const choice = choices[t.id];
+          if (!choice) return t;
+          const expiryPolicy = choice === getInheritedExpiryPolicy(t.id, prev) ? undefined : choice;
+          return expiryPolicy === t.expiryPolicy ? t : { ...t, expiryPolicy };
+      }));
+      closeReview();
+  }, [closeReview]);
+
+  // Pomodoro: one session at a time, kept on this device; a focus session runs its task's timer
+  const [pomodoro, setPomodoro] = useState<PomodoroSession | null>(loadPomodoroSession);
+  const [showFocus, setShowFocus] = useState(false);
+  const pomodoroRef = useRef(pomodoro);
+  useEffect(() => {
+      pomodoroRef.current = pomodoro;
+      savePomodoroSession(pomodoro);
+  }, [pomodoro]);
+
+  // Ends the running phase on time (or right away when the app was closed past its end). Waits for the
+  // saved todos: the session comes from localStorage before they load, and the catch-up must reach its task
+  useEffect(() => {
+      if (!isStorageReady || !pomodoro || pomodoro.endsAt === undefined) return;
+      const session = pomodoro;
+      const endsAt = pomodoro.endsAt;
+      const timeout = setTimeout(() => {
+          if (session.phase === 'focus') {
+              // The completed focus session is recorded on the task, whose timer stops where the session ended
+              setTodos(prev => prev.map(t => t.id === session.taskId
+                  ? { ...stopTimer(t, endsAt), pomodoros: [...(t.pomodoros || []), endsAt] }
+                  : t));
+          }
+          setPomodoro(advancePhase(session, true, Date.now(), settingsRef.current.pomodoro));
+      }, Math.max(0, endsAt - Date.now()));
+      return () => clearTimeout(timeout);
+  }, [isStorageReady, pomodoro]);
+
+  // The session ends with its task (completed, failed, deleted or gone from Today)
+  const focusTask = pomodoro ? liveTodos.find(t => t.id === pomodoro.taskId) : undefined;
+  const isFocusTaskOpen = !!focusTask && focusTask.status === 'active' && !focusTask.completed;
+  useEffect(() => {
+      if (!isStorageReady || !pomodoro || isFocusTaskOpen) return;
+      setPomodoro(null);
+      setShowFocus(false);
+  }, [isStorageReady, pomodoro, isFocusTaskOpen]);
+
+  useEffect(() => {
+      onFocusModeChange?.(showFocus && isFocusTaskOpen);
+  }, [showFocus, isFocusTaskOpen, onFocusModeChange]);
+
+  // Timer alerts: follows the one running timer, scheduled again whenever it starts, pauses or is extended
+  const [timerAlert, setTimerAlert] = useState<{ taskId: string; text: string } | null>(null);
+  const runningTimer = useMemo(() => {
+      const t = liveTodos.find(t => t.isPlaying && t.status === 'active' && !t.completed);
+      if (!t || !t.lastStartedAt || t.remainingTime === undefined) return null;
+      return { id: t.id, text: t.text, dueAt: t.lastStartedAt + t.remainingTime };
+  }, [liveTodos]);
+
+  useEffect(() => {
+      if (!runningTimer || runningTimer.dueAt <= Date.now()) return; // Already in overtime: alerted when it got there
+      const { id, text, dueAt } = runningTimer;
+      scheduleTimerAlert(id, text, dueAt);
+      const timeout = setTimeout(() => {
+          playChime();
+          setTimerAlert({ taskId: id, text });
+          if (document.visibilityState !== 'visible') showTimerAlert(id, text);
+      }, dueAt - Date.now());
+      return () => {
+          clearTimeout(timeout);
+          cancelTimerAlert(id);
+      };
+  }, [runningTimer?.id, runningTimer?.text, runningTimer?.dueAt]);
+
+  // Notification actions, once the todos they refer to are loaded
+  const timerActionsRef = useRef<(action: TimerAction, taskId: string) => void>(() => {});
+  useEffect(() => {
+      if (!isStorageReady) return;
+      return subscribeToTimerActions((action, taskId) => timerActionsRef.current(action, taskId));
+  }, [isStorageReady]);
+
+  // Persist per record once loaded (never overwrite storage with the empty initial state)
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveCollection('todos', todos).catch(err => console.error('Failed to save todos:', err));
+  }, [todos, isStorageReady]);
+
   useEffect(() => {
-    localStorage.setItem('todos', JSON.stringify(todos));
-    // Track local change time (but don't treat remote hydrations as "local edits")
-    if (!isRemoteUpdateRef.current) {
-      setLocalUpdatedAt(Date.now());
-    }
     if (onGoalsChange) {
-        // Emit active goals AND normal tasks for visualization
-        const visualGoals = todos.filter(t => t.status === 'active' && !t.completed);
+        // Emit active goals AND normal tasks for visualization (retired goals' trees stay in the Hall of Fame)
+        const visualGoals = todos.filter(t => t.status === 'active' && !t.completed && !t.deletedAt && !isInRetiredGoal(t.id, todos));
         onGoalsChange(visualGoals);
     }
   }, [todos, onGoalsChange]);
 
   useEffect(() => {
-    localStorage.setItem('routines', JSON.stringify(routines));
-    if (!isRemoteUpdateRef.current) {
-      setLocalUpdatedAt(Date.now());
-    }
-  }, [routines]);
+    if (!isStorageReady) return;
+    saveCollection('routines', routines).catch(err => console.error('Failed to save routines:', err));
+  }, [routines, isStorageReady]);
 
   useEffect(() => {
-    localStorage.setItem('notes', JSON.stringify(notes));
-    if (!isRemoteUpdateRef.current) {
-      setLocalUpdatedAt(Date.now());
-    }
-  }, [notes]);
+    if (!isStorageReady) return;
+    saveCollection('notes', notes).catch(err => console.error('Failed to save notes:', err));
+  }, [notes, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveCollection('ledger', ledger).catch(err => console.error('Failed to save points ledger:', err));
+  }, [ledger, isStorageReady]);
+
+  // Points ledger: record completions, failures and buybacks as todos change (locally, by undo or via sync).
+  // Only changed todos are checked; the first run after loading just takes the baseline.
+  const ledgerBaselineRef = useRef<Todo[] | null>(null);
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const prev = ledgerBaselineRef.current;
+    ledgerBaselineRef.current = todos;
+    if (!prev) return;
+
+    const prevById = new Map(prev.map(t => [t.id, t]));
+    const changed = todos.filter(t => prevById.get(t.id) !== t);
+    if (changed.length === 0) return;
+    setLedger(current => reconcileLedger(current, changed, todos, settingsRef.current.scoring));
+  }, [todos, isStorageReady]);
 
   // Use a ref for todos so callbacks can access latest state without dependency
   // This is crucial for performance optimization so TodoItem doesn't re-render when TodoList re-renders
@@ -1316,29 +1811,34 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   const todosRef = useRef(todos);
   useEffect(() => { todosRef.current = todos; }, [todos]);
 
+  // Latest local collections for sync calls made outside render (subscriptions, bootstrap)
+  const getLocalPayload = () => ({
+    todos: todosRef.current || [],
+    routines: routinesRef.current || [],
+    notes: notesRef.current || [],
+    tombstones: tombstonesRef.current,
+    settings: settingsRef.current,
+    ledger: ledgerRef.current
+  });
+
   // --- ROUTINE GENERATOR LOGIC ---
+  // Day the app is on (per the end-of-day hour and home timezone); ticking over re-runs the generator while the app stays open
+  const [generatorDay, setGeneratorDay] = useState(() => getDayKey(Date.now(), settingsRef.current));
   useEffect(() => {
-     // Run check on mount and whenever routines config changes
-     const now = new Date();
-     
-     // CRITICAL FIX: Use Local Time, not UTC for todayStr to match getDay() logic.
-     // toISOString() uses UTC. We need YYYY-MM-DD in local time.
-     const offset = now.getTimezoneOffset();
-     const localDate = new Date(now.getTime() - (offset*60*1000));
-     const todayStr = localDate.toISOString().split('T')[0]; // YYYY-MM-DD
+    const interval = setInterval(() => setGeneratorDay(getDayKey(Date.now(), settingsRef.current)), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+  useEffect(() => {
+    setGeneratorDay(getDayKey(Date.now(), dayBoundary));
+  }, [dayBoundary]);
+
+  useEffect(() => {
+     // Run check on mount, whenever routines config changes and when the day changes
+     const now = Date.now();
      
-     const dayOfWeek = now.getDay(); // 0=Sun, 1=Mon...
-     const dayOfMonth = now.getDate(); // 1-31
-
-     // Helper for Bi-Weekly parity (ISO Week number based)
-     const getWeekNumber = (d: Date) => {
-        d = new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()));
-        d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
-        var yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-        var weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-        return weekNo;
-     };
-     const currentWeek = getWeekNumber(now);
+     // The user's current day; the schedule rules evaluate its calendar date
+     const todayStr = getDayKey(now, settingsRef.current); // YYYY-MM-DD
+     const today = parseDateKey(todayStr);
 
      setRoutines(prev => {
         let hasUpdates = false;
@@ -1346,57 +1846,77 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
         
         // Use map to create new array instead of modifying prev directly (Strict Mode safety)
         const newRoutines = prev.map(routine => {
-            // 1. Skip if already generated today
-            if (routine.lastGeneratedDate === todayStr) return routine;
-
-            // 2. Check Triggers
-            let shouldRun = false;
-
-            if (routine.frequency === 'weekly') {
-                if (routine.daysOfWeek.includes(dayOfWeek)) shouldRun = true;
-            } else if (routine.frequency === 'biweekly') {
-                // Determine start week parity based on creation
-                const startWeek = getWeekNumber(new Date(routine.createdAt));
-                // Run if current week parity matches start week parity AND day matches
-                if ((currentWeek % 2 === startWeek % 2) && routine.daysOfWeek.includes(dayOfWeek)) {
-                    shouldRun = true;
-                }
-            } else if (routine.frequency === 'monthly') {
-                if (dayOfMonth === routine.dayOfMonth) shouldRun = true;
-            }
+            // 1. Skip if today was already processed (or the routine is in Trash)
+            if (routine.lastGeneratedDate === todayStr || routine.deletedAt) return routine;
+
+            // 2. Catch up: every day since the last run the routine was due on. Past ones were missed
+            // while the app was closed; they are recorded and each one breaks the streak (and with it the velocity bonus).
+            // Paused and vacation days are skipped: the streak is frozen, not broken.
+            const due = occurrencesSince(routine, getRoutineAnchor(routine.createdAt, settingsRef.current), routine.lastGeneratedDate, today)
+                .filter(day => !isRoutineResting(routine, day));
+            const missed = due.filter(day => day !== todayStr);
+            const shouldRun = due.includes(todayStr);
+
+            hasUpdates = true;
+            const updated: Routine = missed.length > 0
+                ? breakRoutineStreak(
+                    { ...routine, lastGeneratedDate: todayStr, missedDates: [...(routine.missedDates || []), ...missed] },
+                    settingsRef.current.scoring,
+                    missed.length
+                  )
+                : { ...routine, lastGeneratedDate: todayStr };
 
             // 3. Spawn Task
             if (shouldRun) {
-                hasUpdates = true;
-                
                 // CALCULATE MULTIPLIER BASED ON STREAK
                 // Streak = number of tasks completed.
-                // Every 4 tasks (approx 1 week of consistent work), add 0.1x. Cap at 1.5x.
-                const currentStreak = routine.streak || 0;
-                let multiplier = 1 + (Math.floor(currentStreak / 4) * 0.1);
-                if (multiplier > 1.5) multiplier = 1.5;
+                // Every streakStep tasks add stepBonus, up to the cap (defaults: 4 tasks, +0.1x, 1.5x).
+                const multiplier = calculateVelocityMultiplier(updated.streak || 0, settingsRef.current.scoring);
+
+                // Nest under the routine's goal while it is still in Orbit
+                const goal = routine.parentGoalId ? todosRef.current.find(t => t.id === routine.parentGoalId) : undefined;
+                const parentId = goal && !goal.deletedAt && goal.status !== 'graveyard' && !isInRetiredGoal(goal.id, todosRef.current)
+                    ? goal.id
+                    : undefined;
 
                 // Create Task
                 const newTask: Todo = {
                     id: generateId(),
                     text: routine.title,
                     completed: false,
-                    createdAt: Date.now(),
+                    createdAt: now,
                     status: 'active',
                     label: 'normal',
+                    parentId,
                     customLabel: routine.label || 'Routine',
                     routineId: routine.id,
                     isActivated: true, // Auto-activate into Today view
-                    activationDeadline: new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59).getTime(), // End of Today
+                    activationDeadline: getDayDeadline(now, settingsRef.current), // End of Today
                     multiplier: multiplier // Attach velocity multiplier
                 };
                 newTasks.push(newTask);
-                
-                // Return updated routine object
-                return { ...routine, lastGeneratedDate: todayStr };
+
+                // Checklist: subtasks with preset timers show up in Today through the activated parent.
+                // Only the parent carries the routineId, so the streak counts one completion per occurrence.
+                (routine.template || []).forEach((item, index) => {
+                    newTasks.push({
+                        id: generateId(),
+                        text: item.text,
+                        completed: false,
+                        createdAt: newTask.createdAt,
+                        status: 'active',
+                        label: 'normal',
+                        parentId: newTask.id,
+                        customLabel: item.customLabel,
+                        durationMinutes: item.durationMinutes,
+                        remainingTime: item.durationMinutes ? item.durationMinutes * 60 * 1000 : undefined,
+                        order: index,
+                        multiplier
+                    });
+                });
             }
             
-            return routine;
+            return updated;
         });
 
         if (hasUpdates) {
@@ -1408,33 +1928,65 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
         }
         return prev;
      });
-  }, [routines]); // Use routines object as dependency to ensure updates catch fresh state
+  }, [routines, generatorDay]); // Use routines object as dependency to ensure updates catch fresh state
   
+  // Imported events waiting in Orbit activate themselves when their day comes (a day that passed
+  // while the app was closed is let go: the task just stays in Orbit)
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const now = Date.now();
+    setTodos(prev => {
+        if (!prev.some(t => t.activateOn && t.activateOn <= generatorDay)) return prev;
+        return prev.map(t => {
+            if (!t.activateOn || t.activateOn > generatorDay) return t;
+            const isDue = t.activateOn === generatorDay && !t.deletedAt && t.status === 'active' && !t.completed;
+            return isDue
+                ? { ...t, activateOn: undefined, isActivated: true, activationDeadline: getDayDeadline(now, settingsRef.current) }
+                : { ...t, activateOn: undefined, scheduledAt: undefined };
+        });
+    });
+  }, [generatorDay, isStorageReady]);
+
   // Daily Deadline Check - Only check for expiration, do NOT decrement timer here
+  // Routine task deadlines already counted as streak breaks (the interval can fire again before todosRef catches up)
+  const expiredRoutineTasksRef = useRef<Set<string>>(new Set());
   useEffect(() => {
+    const isExpired = (t: Todo, now: number) =>
+        t.status === 'active' && t.isActivated && !t.deletedAt && !!t.activationDeadline && now > t.activationDeadline;
+
     const interval = setInterval(() => {
         const now = Date.now();
         setTodos(prev => {
             let hasChanges = false;
             
             const next = prev.map(t => {
-                // Check if task deadline (Midnight) has passed for active tasks
-                if (t.status === 'active' && t.isActivated && t.activationDeadline && now > t.activationDeadline) {
+                // Check if task deadline (end of day) has passed for active tasks; its policy decides
+                // between the graveyard, carrying it over to tomorrow and returning it to Orbit
+                if (isExpired(t, now)) {
                     hasChanges = true;
-                    return { 
-                        ...t, 
-                        status: 'graveyard' as const, 
-                        resolvedAt: now, 
-                        isPlaying: false,
-                        isActivated: false,
-                        lastStartedAt: undefined
-                    };
+                    return applyExpiry(t, resolveExpiryPolicy(t, prev), now, settingsRef.current, settingsRef.current.scoring);
                 }
                 return t;
             });
             
             return hasChanges ? next : prev;
         });
+
+        // A routine task left open past its day breaks its routine's streak, whatever happens to the task
+        // (unless the routine is resting that day). Keyed by deadline: a carried-over task can miss again.
+        const expiredDays = new Map<string, string[]>();
+        todosRef.current.forEach(t => {
+            const key = `${t.id}:${t.activationDeadline}`;
+            if (!t.routineId || !isExpired(t, now) || expiredRoutineTasksRef.current.has(key)) return;
+            expiredRoutineTasksRef.current.add(key);
+            expiredDays.set(t.routineId, [...(expiredDays.get(t.routineId) || []), getDayKey(t.activationDeadline!, settingsRef.current)]);
+        });
+        if (expiredDays.size > 0) {
+            setRoutines(prev => prev.map(r => {
+                const breaks = (expiredDays.get(r.id) || []).filter(day => !isRoutineResting(r, day)).length;
+                return breaks > 0 ? breakRoutineStreak(r, settingsRef.current.scoring, breaks) : r;
+            }));
+        }
     }, 1000); // Check every second for midnight expiry, but doesn't cause render unless state changes
     return () => clearInterval(interval);
   }, []);
@@ -1447,7 +1999,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
             let hasChanges = false;
             const next = prev.map(t => {
                 // Only archive 'active' status tasks created more than THRESHOLD ago
-                if (t.status === 'active') {
+                if (t.status === 'active' && !t.deletedAt) {
                     if (now - t.createdAt > ARCHIVE_THRESHOLD_MS) {
                          hasChanges = true;
                          return { ...t, status: 'archive' as const };
@@ -1465,22 +2017,37 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
     // Run periodically (every hour)
     const interval = setInterval(checkArchival, 60 * 60 * 1000); 
     return () => clearInterval(interval);
-  }, []);
+  }, [isStorageReady]);
+
+  // Trash Retention (Background Process)
+  useEffect(() => {
+    const purgeExpired = () => {
+        const cutoff = Date.now() - settings.trashRetentionDays * 24 * 60 * 60 * 1000;
+        const expired = (item: { deletedAt?: number }) => !!item.deletedAt && item.deletedAt < cutoff;
+        setTodos(prev => prev.some(expired) ? prev.filter(t => !expired(t)) : prev);
+        setRoutines(prev => prev.some(expired) ? prev.filter(r => !expired(r)) : prev);
+        setNotes(prev => prev.some(expired) ? prev.filter(n => !expired(n)) : prev);
+    };
+
+    purgeExpired();
+    const interval = setInterval(purgeExpired, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [settings.trashRetentionDays, isStorageReady]);
 
   // --- CLOUD SYNC LOGIC ---
   
-  // Set up real-time listener on mount if already connected
+  // Set up real-time listener once local data is loaded, if already connected
   useEffect(() => {
     let cancelled = false;
 
     const setupSync = async () => {
-      if (!isSyncEnabled()) return;
+      if (!isStorageReady || !isSyncEnabled()) return;
 
       isSyncInitializingRef.current = true;
       setSyncStatus('connecting');
 
       try {
-        // Pull remote first to avoid wiping the room with empty localStorage on a fresh device.
+        // Pull remote first to avoid wiping the room with empty local data on a fresh device.
         const state = getSyncState();
         const code = state.syncCode;
 
@@ -1492,37 +2059,14 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
             // We successfully read the room at least once.
             hasRemoteBaselineRef.current = true;
 
-            const localTodos = todosRef.current || [];
-            const localRoutines = routinesRef.current || [];
-            const localNotes = notesRef.current || [];
-
-            const localCount = localTodos.length + localRoutines.length + localNotes.length;
-            const remoteCount = (remote.todos?.length || 0) + (remote.routines?.length || 0) + (remote.notes?.length || 0);
-
-            const localUpdatedAt = getLocalUpdatedAt();
-            const remoteUpdatedAt = remote.lastUpdated?.toMillis?.() ?? null;
-
-            const remoteLooksNewer =
-              remoteUpdatedAt !== null &&
-              (localUpdatedAt === null || remoteUpdatedAt > localUpdatedAt + 1000);
-
-            const localLooksNewer =
-              localUpdatedAt !== null &&
-              (remoteUpdatedAt === null || localUpdatedAt > remoteUpdatedAt + 1000);
-
-            if (remoteLooksNewer || (remoteCount > 0 && localCount === 0)) {
-              applyRemoteData(remote);
-            } else if (localLooksNewer || (localCount > 0 && remoteCount === 0)) {
-              // Remote is empty/stale but we have local data -> push local up.
-              await pushChanges({ todos: localTodos, routines: localRoutines, notes: localNotes });
-            } else if (remoteCount > 0) {
-              // Tie-breaker: prefer remote when both have data.
-              applyRemoteData(remote);
-            }
+            // Merge the room into local state, then push local-only edits back up.
+            // Both sides are merged field-by-field, so neither can wipe the other.
+            applyRemoteData(remote);
+            await pushChanges(getLocalPayload());
           }
         }
 
-        // Subscribe for realtime updates after initial direction decision
+        // Subscribe for realtime updates after the initial merge
         const unsubscribe = subscribeToChanges(
           (data: SyncData) => {
             if (cancelled) return;
@@ -1540,11 +2084,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
             if (hasRemoteBaselineRef.current) return;
             hasRemoteBaselineRef.current = true;
 
-            const localTodos = todosRef.current || [];
-            const localRoutines = routinesRef.current || [];
-            const localNotes = notesRef.current || [];
-
-            pushChanges({ todos: localTodos, routines: localRoutines, notes: localNotes }).catch(err => {
+            pushChanges(getLocalPayload()).catch(err => {
               console.error('Failed to recreate missing sync room:', err);
               setSyncStatus('error');
             });
@@ -1575,7 +2115,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
         syncUnsubscribeRef.current = null;
       }
     };
-  }, []);
+  }, [isStorageReady]);
 
   // Debounced push to cloud when local data changes
   useEffect(() => {
@@ -1593,13 +2133,13 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
     
     // Debounce the push to avoid too many writes
     const timeout = setTimeout(() => {
-      pushChanges({ todos, routines, notes }).catch(err => {
+      pushChanges({ todos, routines, notes, tombstones: tombstonesRef.current, settings, ledger }).catch(err => {
         console.error('Failed to push changes:', err);
       });
     }, 500); // 500ms debounce
     
     return () => clearTimeout(timeout);
-  }, [todos, routines, notes]);
+  }, [todos, routines, notes, settings, ledger]);
 
   // Push changes when page visibility changes (user switches apps on mobile)
   useEffect(() => {
@@ -1608,7 +2148,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       if (!hasRemoteBaselineRef.current) return;
       if (document.visibilityState === 'hidden' && isSyncEnabled()) {
         // Push immediately without debounce when going to background
-        pushChanges({ todos, routines, notes }).catch(err => {
+        pushChanges({ todos, routines, notes, tombstones: tombstonesRef.current, settings, ledger }).catch(err => {
           console.error('Failed to push on visibility change:', err);
         });
       }
@@ -1616,7 +2156,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
     
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [todos, routines, notes]);
+  }, [todos, routines, notes, settings, ledger]);
 
   // Force sync handler for external use (e.g., sync button)
   const handleForceSync = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
@@ -1624,7 +2164,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       return { success: false, error: 'Sync not enabled' };
     }
     
-    const result = await forceSync({ todos, routines, notes });
+    const result = await forceSync({ todos, routines, notes, tombstones: tombstonesRef.current, settings, ledger });
     
     // If force sync returned remote data, apply it locally
     if (result.success && result.remoteData) {
@@ -1632,7 +2172,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
     }
     
     return { success: result.success, error: result.error };
-  }, [todos, routines, notes]);
+  }, [todos, routines, notes, settings, ledger]);
 
   // Notify parent of sync state changes
   useEffect(() => {
@@ -1652,7 +2192,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   const handleEnableSync = useCallback(async (code: string): Promise<boolean> => {
     setSyncStatus('connecting');
     
-    const success = await createSyncRoom(code, { todos, routines, notes });
+    const success = await createSyncRoom(code, { todos, routines, notes, tombstones: tombstonesRef.current, settings, ledger });
     
     if (success) {
       // Room exists and we know its baseline (our current state).
@@ -1668,11 +2208,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
           // Room doc missing (deleted). Recreate it from our local state.
           if (hasRemoteBaselineRef.current) return;
           hasRemoteBaselineRef.current = true;
-          pushChanges({
-            todos: todosRef.current || [],
-            routines: routinesRef.current || [],
-            notes: notesRef.current || []
-          }).catch(err => {
+          pushChanges(getLocalPayload()).catch(err => {
             console.error('Failed to recreate missing sync room:', err);
             setSyncStatus('error');
           });
@@ -1688,7 +2224,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
     
     setSyncStatus('error');
     return false;
-  }, [todos, routines, notes]);
+  }, [todos, routines, notes, settings, ledger]);
 
   const handleJoinSync = useCallback(async (code: string): Promise<boolean> => {
     setSyncStatus('connecting');
@@ -1711,11 +2247,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
           // Room doc missing (deleted). Recreate it from our local state.
           if (hasRemoteBaselineRef.current) return;
           hasRemoteBaselineRef.current = true;
-          pushChanges({
-            todos: todosRef.current || [],
-            routines: routinesRef.current || [],
-            notes: notesRef.current || []
-          }).catch(err => {
+          pushChanges(getLocalPayload()).catch(err => {
             console.error('Failed to recreate missing sync room:', err);
             setSyncStatus('error');
           });
@@ -1745,6 +2277,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   // --- END CLOUD SYNC LOGIC ---
 
   const addTodo = useCallback((text: string, label: 'goal' | 'normal' = 'normal', parentId?: string, goalCategory?: string, customLabel?: string) => {
+    beginAction(label === 'goal' ? 'Add goal' : 'Add task');
     setTodos(prev => {
         const newTodo: Todo = {
             id: generateId(),
@@ -1762,6 +2295,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   }, []);
   
   const addBatchTodos = useCallback((texts: string[], parentId?: string) => {
+      beginAction(texts.length === 1 ? 'Add task' : `Add ${texts.length} tasks`);
       setTodos(prev => {
         const newTodos: Todo[] = texts.map(text => ({
             id: generateId(),
@@ -1777,7 +2311,8 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   }, []);
 
   // Routine Handlers
-  const handleAddRoutine = useCallback((routineData: Omit<Routine, 'id' | 'createdAt' | 'lastGeneratedDate' | 'completedCycles' | 'streak'>) => {
+  const handleAddRoutine = useCallback((routineData: RoutineDraft) => {
+      beginAction('Add routine');
       const newRoutine: Routine = {
           ...routineData,
           id: generateId(),
@@ -1788,9 +2323,45 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       setRoutines(prev => [...prev, newRoutine]);
   }, []);
 
+  // Day the generator should treat as settled when a routine changes: yesterday, so today's occurrence
+  // is reconsidered under the new rule, unless today's task already exists
+  const routineResumeKey = useCallback((routineId: string) => {
+      const today = getDayKey(Date.now(), settingsRef.current);
+      const hasTodayTask = todosRef.current.some(t => t.routineId === routineId && !t.deletedAt && getDayKey(t.createdAt, settingsRef.current) === today);
+      return hasTodayTask ? today : shiftDayKey(today, -1);
+  }, []);
+
+  // Edits keep progress and streak; only the rule, labels and vacation change
+  const handleUpdateRoutine = useCallback((id: string, draft: RoutineDraft) => {
+      beginAction('Edit routine');
+      const today = getDayKey(Date.now(), settingsRef.current);
+      const resumeKey = routineResumeKey(id);
+      setRoutines(prev => prev.map(r => r.id === id ? {
+          ...r,
+          ...draft,
+          lastGeneratedDate: r.lastGeneratedDate === today ? resumeKey : r.lastGeneratedDate
+      } : r));
+  }, [routineResumeKey]);
+
+  // Paused days are rests, not misses: resuming settles everything up to yesterday
+  const handleToggleRoutinePause = useCallback((id: string) => {
+      const routine = routinesRef.current.find(r => r.id === id);
+      if (!routine) return;
+      beginAction(routine.pausedAt ? 'Resume routine' : 'Pause routine');
+      const resumeKey = routineResumeKey(id);
+      setRoutines(prev => prev.map(r => {
+          if (r.id !== id) return r;
+          return r.pausedAt
+              ? { ...r, pausedAt: undefined, lastGeneratedDate: resumeKey }
+              : { ...r, pausedAt: Date.now() };
+      }));
+  }, [routineResumeKey]);
+
   const handleDeleteRoutine = useCallback((id: string) => {
-      if(window.confirm("Delete this routine? It will stop generating tasks.")) {
-        setRoutines(prev => prev.filter(r => r.id !== id));
+      if(window.confirm("Move this routine to Trash? It will stop generating tasks.")) {
+        beginAction('Delete routine');
+        const deletedAt = Date.now();
+        setRoutines(prev => prev.map(r => r.id === id ? { ...r, deletedAt } : r));
       }
   }, []);
 
@@ -1808,6 +2379,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
 
   // Duplicate task at the same nested level
   const handleDuplicateTask = useCallback((id: string) => {
+      beginAction('Duplicate task');
       setTodos(prev => {
           const original = prev.find(t => t.id === id);
           if (!original) return prev;
@@ -1836,28 +2408,103 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       });
   }, []);
   
-  // Optimized delete
+  // Soft delete: the whole subtree moves to Trash as one entry, keeping parentId/order for restore
   const deleteTodo = useCallback((id: string) => {
+      beginAction('Delete task');
       setTodos(prev => {
+          const deletedAt = Date.now();
           const toDelete = new Set([id]);
-          // Recursive delete children
+          // Recursive delete children (ones already in Trash keep their own entry)
           const findChildren = (pid: string) => {
               prev.forEach(t => {
-                  if (t.parentId === pid) {
+                  if (t.parentId === pid && !t.deletedAt && !toDelete.has(t.id)) {
                       toDelete.add(t.id);
                       findChildren(t.id);
                   }
               });
           };
           findChildren(id);
-          return prev.filter(t => !toDelete.has(t.id));
+          return prev.map(t => {
+              if (!toDelete.has(t.id)) return t;
+              // Pause a running timer so the countdown doesn't keep burning while in Trash
+              return { ...stopTimer(t, deletedAt), deletedAt, deletedRootId: id };
+          });
       });
   }, []);
 
+  // Restores a Trash entry. A todo entry brings back its whole subtree in place; if its parent
+  // is gone (purged or itself in Trash) the root is restored to the top level instead.
+  const restoreFromTrash = useCallback((kind: TrashKind, id: string) => {
+      beginAction('Restore from Trash');
+      if (kind === 'note') {
+          setNotes(prev => prev.map(n => n.id === id ? { ...n, deletedAt: undefined } : n));
+          return;
+      }
+      if (kind === 'routine') {
+          setRoutines(prev => prev.map(r => r.id === id ? { ...r, deletedAt: undefined } : r));
+          return;
+      }
+      setTodos(prev => {
+          const root = prev.find(t => t.id === id);
+          if (!root) return prev;
+          const parentAlive = !root.parentId || prev.some(t => t.id === root.parentId && !t.deletedAt);
+          const now = Date.now();
+
+          return prev.map(t => {
+              if (!t.deletedAt || (t.deletedRootId ?? t.id) !== id) return t;
+              const restored: Todo = { ...t, deletedAt: undefined, deletedRootId: undefined };
+              if (t.id === id && !parentAlive) restored.parentId = undefined;
+              // Today's window passed while in Trash: return to orbit instead of expiring straight into the graveyard
+              if (t.isActivated && t.activationDeadline && now > t.activationDeadline) {
+                  restored.isActivated = false;
+                  restored.activationDeadline = undefined;
+              }
+              return restored;
+          });
+      });
+  }, []);
+
+  // Permanently removes a Trash entry; the removal is recorded as a tombstone for sync
+  const purgeFromTrash = useCallback((kind: TrashKind, id: string) => {
+      beginAction('Delete forever');
+      if (kind === 'note') {
+          setNotes(prev => prev.filter(n => n.id !== id));
+      } else if (kind === 'routine') {
+          setRoutines(prev => prev.filter(r => r.id !== id));
+      } else {
+          setTodos(prev => prev.filter(t => !(t.deletedAt && (t.deletedRootId ?? t.id) === id)));
+      }
+  }, []);
+
+  const emptyTrash = useCallback(() => {
+      beginAction('Empty Trash');
+      setTodos(prev => prev.filter(t => !t.deletedAt));
+      setRoutines(prev => prev.filter(r => !r.deletedAt));
+      setNotes(prev => prev.filter(n => !n.deletedAt));
+  }, []);
+
   const toggleTodo = useCallback((id: string) => {
+    const current = todosRef.current.find(t => t.id === id);
+    beginAction(current?.status === 'archive' ? 'Restore from archive' : current?.completed ? 'Reopen task' : 'Complete task');
+
+    // A routine task with a checklist is done once its last item is checked off (and reopens when one is unchecked);
+    // it never shows in Today itself, so it follows its items rather than expiring with them done
+    const parent = current?.parentId ? todosRef.current.find(t => t.id === current.parentId) : undefined;
+    let routineParent: Todo | undefined;
+    if (current && current.status !== 'archive' && parent?.routineId && parent.status === 'active' && !parent.deletedAt) {
+        if (current.completed) {
+            if (parent.completed) routineParent = parent;
+        } else if (!parent.completed) {
+            const items = todosRef.current.filter(t => t.parentId === parent.id && !t.deletedAt && t.status !== 'graveyard');
+            if (items.every(t => t.id === id || t.completed)) routineParent = parent;
+        }
+    }
+
     // 1. Update Todo Status
+    const toggled = new Set([id, ...(routineParent ? [routineParent.id] : [])]);
+    const at = Date.now();
     setTodos(prev => prev.map(t => {
-      if (t.id === id) {
+      if (toggled.has(t.id)) {
         // If it's in archive, restore to active
         if (t.status === 'archive') {
              return { ...t, status: 'active' };
@@ -1865,11 +2512,9 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
 
         const completed = !t.completed;
         return {
-          ...t,
+          ...stopTimer(t, at), // Stop timer if completed
           completed,
-          resolvedAt: completed ? Date.now() : undefined,
-          isPlaying: false, // Stop timer if completed
-          lastStartedAt: undefined
+          resolvedAt: completed ? at : undefined
         };
       }
       return t;
@@ -1877,50 +2522,93 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
     
     // 2. Update Routine Stats if linked
     // Accessing `todosRef.current` is safe here.
-    const task = todosRef.current.find(t => t.id === id);
+    const task = routineParent || current;
     if (task && task.routineId) {
         // If we are marking as COMPLETE (was false)
         if (!task.completed) {
-            setRoutines(prev => prev.map(r => {
-                if (r.id === task.routineId) {
-                    return {
-                        ...r,
-                        completedCycles: r.completedCycles + 1,
-                        streak: (r.streak || 0) + 1
-                    };
-                }
-                return r;
-            }));
+            setRoutines(prev => prev.map(r => r.id === task.routineId ? recordRoutineCompletion(r, at) : r));
         } else {
             // If marking as incomplete, decrement?
             // For simplicity and user forgiveness, let's decrement.
-            setRoutines(prev => prev.map(r => {
-                 if (r.id === task.routineId) {
-                    return {
-                        ...r,
-                        completedCycles: Math.max(0, r.completedCycles - 1),
-                        streak: Math.max(0, (r.streak || 0) - 1)
-                    };
-                }
-                return r;
-            }));
+            setRoutines(prev => prev.map(r => r.id === task.routineId ? revertRoutineCompletion(r) : r));
         }
     }
   }, []);
 
   const updateDescription = useCallback((id: string, description: string) => {
+      beginAction('Edit description');
       setTodos(prev => prev.map(t => t.id === id ? { ...t, description } : t));
   }, []);
 
   const updateText = useCallback((id: string, text: string) => {
+      beginAction('Rename task');
       setTodos(prev => prev.map(t => t.id === id ? { ...t, text } : t));
   }, []);
 
   const updateLabel = useCallback((id: string, customLabel: string) => {
+      beginAction('Change label');
       setTodos(prev => prev.map(t => t.id === id ? { ...t, customLabel: customLabel || undefined } : t));
   }, []);
   
+  const updateGoalPlan = useCallback((id: string, plan: Partial<Pick<Todo, 'targetDate' | 'milestones'>>) => {
+      beginAction('milestones' in plan ? 'Edit milestones' : 'Set target date');
+      setTodos(prev => prev.map(t => t.id === id ? { ...t, ...plan } : t));
+  }, []);
+
+  const setExpiryPolicy = useCallback((id: string, expiryPolicy: ExpiryPolicy | undefined) => {
+      beginAction('Set end-of-day policy');
+      setTodos(prev => prev.map(t => t.id === id ? { ...t, expiryPolicy } : t));
+  }, []);
+
+  // Moves goals out of their Orbit slots into a season's archive, freezing the points their subtree earned.
+  // The subtree stays intact; open tasks under it are deactivated so they can't expire into the graveyard.
+  const retireGoals = useCallback((outcomes: Map<string, GoalOutcome>, seasonId: string) => {
+      const at = Date.now();
+      setTodos(prev => {
+          const tree = getTaskTree(prev);
+          const underRetired = new Set<string>();
+          outcomes.forEach((_, id) => tree.subtreeIds(id).forEach(sid => underRetired.add(sid)));
+
+          return prev.map(t => {
+              const outcome = outcomes.get(t.id);
+              if (outcome) {
+                  return { ...t, retirement: { seasonId, outcome, at, points: calculateGoalPoints(t.id, prev, ledgerRef.current) } };
+              }
+              if (underRetired.has(t.id) && t.isActivated && !t.completed && t.status === 'active') {
+                  return { ...stopTimer(t, at), isActivated: false, activationDeadline: undefined };
+              }
+              return t;
+          });
+      });
+  }, []);
+
+  const handleRetireGoal = useCallback((id: string, outcome: GoalOutcome) => {
+      beginAction(outcome === 'completed' ? 'Complete goal' : 'Retire goal');
+      const season = getCurrentSeason(settingsRef.current.seasons);
+      updateSettings({ seasons: withSeason(settingsRef.current.seasons, season) });
+      retireGoals(new Map([[id, outcome]]), season.id);
+  }, [retireGoals, updateSettings]);
+
+  // Ends the season: every slotted goal retires into it (completed when all its blocks are done)
+  const handleStartSeason = useCallback(() => {
+      const current = getCurrentSeason(settingsRef.current.seasons);
+      const slotted = todosRef.current.filter(t => t.label === 'goal' && t.status !== 'graveyard' && !t.retirement && !t.deletedAt);
+      const message = slotted.length > 0
+          ? `End ${current.name} and start a new season? ${slotted.length} goal${slotted.length === 1 ? '' : 's'} will move to the Hall of Fame. Points and stats are kept.`
+          : `End ${current.name} and start a new season?`;
+      if (!window.confirm(message)) return;
+
+      beginAction('Start new season');
+      const live = todosRef.current.filter(t => !t.deletedAt);
+      const { seasons, ended } = startNewSeason(settingsRef.current.seasons);
+      updateSettings({ seasons });
+      if (slotted.length > 0) {
+          retireGoals(new Map(slotted.map(g => [g.id, suggestOutcome(g.id, live, settingsRef.current.scoring)])), ended.id);
+      }
+  }, [retireGoals, updateSettings]);
+
   const handleReorderTasks = useCallback((updates: Array<{ id: string; order?: number; parentId?: string }>) => {
+      beginAction('Move task');
       setTodos(prev => {
           const updatesMap = new Map(updates.map(u => [u.id, u]));
           return prev.map(t => {
@@ -1937,35 +2625,65 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       });
   }, []);
   
-  const activateTask = useCallback((id: string) => {
-      const now = new Date();
-      // Set deadline to next midnight (24:00 today)
-      const deadline = new Date(now);
-      deadline.setHours(24, 0, 0, 0);
+  const activateTasks = useCallback((ids: string[]) => {
+      // Deadline: end of the user's day (midnight unless a later end-of-day hour is set)
+      const now = Date.now();
+      const deadline = getDayDeadline(now, settingsRef.current);
+      const selected = new Set(ids);
 
       setTodos(prev => prev.map(t => {
-          if (t.id === id) {
+          if (selected.has(t.id)) {
               return { 
-                  ...t, 
+                  ...stopTimer(t, now), // Ensure it starts paused per requirement
                   isActivated: true,
-                  isPlaying: false, // Ensure it starts paused per requirement
-                  lastStartedAt: undefined,
-                  activationDeadline: deadline.getTime()
+                  activationDeadline: deadline,
+                  activateOn: undefined // Activated by hand ahead of its day
               };
           }
           return t;
       }));
   }, []);
 
+  const activateTask = useCallback((id: string) => {
+      // Going over today's capacity takes a confirmation
+      const live = todosRef.current.filter(t => !t.deletedAt);
+      const planned = getTodayPlannedMinutes(live);
+      const plannedAfter = getTodayPlannedMinutes(live.map(t => t.id === id ? { ...t, isActivated: true } : t));
+      const capacity = getDayCapacity(settingsRef.current.dailyCapacity, getDayKey(Date.now(), settingsRef.current));
+      if (plannedAfter > planned && plannedAfter > capacity) {
+          const confirmed = window.confirm(
+              `This plans ${formatMinutes(plannedAfter)} for today, over your ${formatMinutes(capacity)} capacity. Activate anyway?`
+          );
+          if (!confirmed) return;
+      }
+      beginAction('Activate task');
+      activateTasks([id]);
+  }, [activateTasks]);
+
+  // The planner's suggested fill fits the remaining capacity, so it doesn't ask
+  const planToday = useCallback((ids: string[]) => {
+      if (ids.length === 0) return;
+      beginAction('Plan today');
+      activateTasks(ids);
+      setShowPlanner(false);
+  }, [activateTasks]);
+
+  const scheduleTask = useCallback((id: string, scheduledAt: number | undefined) => {
+      if (todosRef.current.find(t => t.id === id)?.scheduledAt === scheduledAt) return;
+      beginAction(scheduledAt === undefined ? 'Unschedule task' : 'Schedule task');
+      setTodos(prev => prev.map(t => t.id === id ? { ...t, scheduledAt } : t));
+  }, []);
+
   const setTaskDuration = useCallback((id: string, durationMinutes: number) => {
+      beginAction('Set duration');
+      const now = Date.now();
       setTodos(prev => prev.map(t => {
           if (t.id === id) {
+              // The countdown restarts from the new estimate; time already spent stays in the session log
               return { 
-                  ...t, 
+                  ...stopTimer(t, now), 
                   durationMinutes,
-                  remainingTime: durationMinutes * 60 * 1000,
-                  isPlaying: false,
-                  lastStartedAt: undefined
+                  remainingTime: durationMinutes * 60 * 1000
               };
           }
           return t;
@@ -1973,50 +2691,103 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   }, []);
   
   const toggleTimer = useCallback((id: string) => {
+      const isPlaying = todosRef.current.find(t => t.id === id)?.isPlaying;
+      beginAction(isPlaying ? 'Pause timer' : 'Start timer');
+      if (!isPlaying) requestAlertPermission();
       setTodos(prev => {
           const now = Date.now();
-          return prev.map(t => {
-              // Target task toggling
-              if (t.id === id) {
-                  if (t.isPlaying) {
-                      // PAUSE: Calculate elapsed time and update remainingTime snapshot
-                      const elapsed = t.lastStartedAt ? (now - t.lastStartedAt) : 0;
-                      const newRemaining = Math.max(0, (t.remainingTime || 0) - elapsed);
-                      
-                      return { 
-                          ...t, 
-                          isPlaying: false, 
-                          remainingTime: newRemaining,
-                          lastStartedAt: undefined
-                      };
-                  } else {
-                      // START: Set timestamp
-                      return { 
-                          ...t, 
-                          isPlaying: true, 
-                          lastStartedAt: now 
-                      };
-                  }
-              }
-              
-              // Ensure exclusivity: Pause any other playing timer
-              if (t.isPlaying) {
-                  const elapsed = t.lastStartedAt ? (now - t.lastStartedAt) : 0;
-                  const newRemaining = Math.max(0, (t.remainingTime || 0) - elapsed);
-                  return { 
-                      ...t, 
-                      isPlaying: false, 
-                      remainingTime: newRemaining,
-                      lastStartedAt: undefined
-                  };
-              }
-              
-              return t;
-          });
+          // PAUSE logs the run and keeps the remaining time snapshot; START also pauses any other playing timer
+          return isPlaying
+              ? prev.map(t => t.id === id ? stopTimer(t, now) : t)
+              : runTimerAlone(prev, id, now);
       });
   }, []);
+
+  // --- Pomodoro (session state lives next to the end-of-day review) ---
+
+  const startFocus = useCallback((id: string) => {
+      setShowFocus(true);
+      if (pomodoroRef.current?.taskId === id) return; // Already focusing on it: just reopen the view
+      const now = Date.now();
+      beginAction('Start focus');
+      requestAlertPermission();
+      setTodos(prev => runTimerAlone(prev, id, now));
+      setPomodoro(startPhase(createPomodoroSession(id, settingsRef.current.pomodoro), now));
+  }, []);
+
+  const togglePomodoro = useCallback(() => {
+      const session = pomodoroRef.current;
+      if (!session) return;
+      const now = Date.now();
+      const isRunning = session.endsAt !== undefined;
+      // Focus sessions run the task's timer with them; breaks leave it paused
+      if (session.phase === 'focus') {
+          beginAction(isRunning ? 'Pause timer' : 'Start timer');
+          setTodos(prev => isRunning
+              ? prev.map(t => t.id === session.taskId ? stopTimer(t, now) : t)
+              : runTimerAlone(prev, session.taskId, now));
+      }
+      setPomodoro(isRunning ? pausePhase(session, now) : startPhase(session, now));
+  }, []);
+
+  // A skipped focus session isn't recorded on the task
+  const skipPomodoroPhase = useCallback(() => {
+      const session = pomodoroRef.current;
+      if (!session) return;
+      const now = Date.now();
+      if (session.phase === 'focus' && session.endsAt !== undefined) {
+          beginAction('Pause timer');
+          setTodos(prev => prev.map(t => t.id === session.taskId ? stopTimer(t, now) : t));
+      }
+      setPomodoro(advancePhase(session, false, now, settingsRef.current.pomodoro));
+  }, []);
+
+  const stopPomodoro = useCallback(() => {
+      const session = pomodoroRef.current;
+      if (session?.phase === 'focus' && session.endsAt !== undefined) {
+          const now = Date.now();
+          beginAction('Pause timer');
+          setTodos(prev => prev.map(t => t.id === session.taskId ? stopTimer(t, now) : t));
+      }
+      setPomodoro(null);
+      setShowFocus(false);
+  }, []);
+
+  const completeFocusTask = useCallback(() => {
+      const session = pomodoroRef.current;
+      if (!session) return;
+      beginAction('Complete task');
+      stopPomodoro();
+      toggleTodo(session.taskId);
+  }, [stopPomodoro, toggleTodo]);
+
+  // --- Timer alerts (the running timer reaching zero, see utils/timerAlerts) ---
+
+  // Adds time to the countdown; a timer in overtime comes back under zero by what it ran over
+  const extendTimer = useCallback((id: string) => {
+      beginAction('Extend timer');
+      setTodos(prev => prev.map(t => t.id === id && t.remainingTime !== undefined
+          ? { ...t, remainingTime: t.remainingTime + EXTEND_MINUTES * 60 * 1000 }
+          : t));
+      setTimerAlert(null);
+  }, []);
+
+  const completeTimerTask = useCallback((id: string) => {
+      const task = todosRef.current.find(t => t.id === id);
+      if (task && !task.completed && task.status === 'active') toggleTodo(id);
+      setTimerAlert(null);
+  }, [toggleTodo]);
+
+  useEffect(() => {
+      timerActionsRef.current = (action, taskId) => {
+          if (action === 'complete') completeTimerTask(taskId);
+          else if (action === 'extend') extendTimer(taskId);
+          else setActiveTab('today');
+      };
+  }, [completeTimerTask, extendTimer]);
   
   const buybackTask = useCallback((taskId: string, cost: number) => {
+      beginAction('Buy back task');
       setTodos(prev => {
           // Robustly find the root ancestor that is responsible for the current state (Active or Graveyard)
           const findRoot = (currentId: string): string => {
@@ -2080,6 +2851,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
           // Explicitly typing raw array to handle 'any' return from breakDownTask potentially
           const raw: any[] = subTasks as any[]; 
           if (raw && raw.length > 0) {
+              beginAction('Break down task');
               setTodos(prev => {
                   const newTodos = raw.map(st => ({
                       id: generateId(),
@@ -2101,18 +2873,24 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
 
   // Note Handlers
   const addNote = useCallback((text: string, label?: string) => {
+      beginAction('Add note');
       const newNote: Note = { id: generateId(), text, createdAt: Date.now(), label };
       setNotes(prev => [newNote, ...prev]);
   }, []);
   const updateNote = useCallback((id: string, text: string) => {
+      beginAction('Edit note');
       setNotes(prev => prev.map(n => n.id === id ? { ...n, text } : n));
   }, []);
-  const deleteNote = useCallback((id: string) => setNotes(prev => prev.filter(n => n.id !== id)), []);
+  const deleteNote = useCallback((id: string) => {
+      beginAction('Delete note');
+      const deletedAt = Date.now();
+      setNotes(prev => prev.map(n => n.id === id ? { ...n, deletedAt } : n));
+  }, []);
 
   // Settings Handlers
   const handleExport = useCallback(() => {
       // Use ref for export to avoid stale state in callback if not updating
-      const data = { todos: todosRef.current, routines, notes, version: 1, exportedAt: Date.now() };
+      const data = createBackup({ todos: todosRef.current, routines, notes }, settings);
       const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -2124,87 +2902,190 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       a.download = `north-star-backup-${timestamp}.json`;
       
       a.click();
-  }, [notes, routines]);
+  }, [notes, routines, settings]);
+
+  const handleExportCalendar = useCallback(() => {
+      const blob = new Blob([createCalendar({ todos: todosRef.current, routines: routinesRef.current }, settingsRef.current)], { type: 'text/calendar' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      // Same name every time, so a calendar subscribed to the file keeps following it
+      a.download = 'north-star-calendar.ics';
+      a.click();
+  }, []);
   
+  // Import is two-step: the file is validated and diffed into a preview, then applied on confirm
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; parsed: ParsedBackup; diff: BackupDiff | null } | null>(null);
+
   const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
+      // Allow picking the same file again later
+      e.target.value = '';
       const reader = new FileReader();
       reader.onload = (evt) => {
-          const target = evt.target as FileReader;
-          const result = target?.result;
-          try {
-              if (typeof result === 'string') {
-                const data = JSON.parse(result);
-                if (data.todos) setTodos(data.todos);
-                if (data.routines) setRoutines(data.routines);
-                if (data.notes) setNotes(data.notes);
-                alert("Data restored successfully.");
-              }
-          } catch (err: any) {
-              console.error(err);
-              alert("Failed to import data.");
+          const result = (evt.target as FileReader)?.result;
+          const parsed = typeof result === 'string'
+              ? parseBackup(result)
+              : { backup: null, errors: ['The file could not be read.'], rejected: [] };
+          const diff = parsed.backup
+              ? diffBackup({ todos: todosRef.current, routines: routinesRef.current, notes: notesRef.current }, parsed.backup)
+              : null;
+          setPendingImport({ fileName: file.name, parsed, diff });
+      };
+      reader.onerror = () => {
+          console.error(reader.error);
+          setPendingImport({ fileName: file.name, parsed: { backup: null, errors: ['The file could not be read.'], rejected: [] }, diff: null });
+      };
+      reader.readAsText(file);
+  }, []);
+
+  // Calendar import: events not imported before (by UID), waiting for a selection and a destination
+  const [pendingCalendar, setPendingCalendar] = useState<{ fileName: string; events: CalendarEvent[]; skipped: number } | null>(null);
+
+  const handleImportCalendar = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      e.target.value = '';
+      const reader = new FileReader();
+      reader.onload = (evt) => {
+          const result = (evt.target as FileReader)?.result;
+          const events = typeof result === 'string' ? parseCalendar(result) : [];
+          if (events.length === 0) {
+              alert('No events found in this calendar file.');
+              return;
+          }
+          const imported = new Set(todosRef.current.map(t => t.icsUid).filter(Boolean));
+          const fresh = new Map<string, CalendarEvent>();
+          events.forEach(event => {
+              if (!imported.has(event.uid) && !fresh.has(event.uid)) fresh.set(event.uid, event);
+          });
+          if (fresh.size === 0) {
+              alert('All events in this file have already been imported.');
+              return;
           }
+          setPendingCalendar({ fileName: file.name, events: Array.from(fresh.values()), skipped: events.length - fresh.size });
+      };
+      reader.onerror = () => {
+          console.error(reader.error);
+          alert('The file could not be read.');
       };
       reader.readAsText(file);
   }, []);
+
+  // Today's events are activated right away (timed ones also scheduled on the timeline); later ones wait in Orbit
+  // for their day (activateOn), and past ones just land in Orbit. The dialog stays open if the capacity warning is declined.
+  const confirmCalendarImport = useCallback((events: CalendarEvent[], parentId?: string) => {
+      if (events.length === 0) return;
+      const now = Date.now();
+      const today = getDayKey(now, settingsRef.current);
+      const newTodos: Todo[] = events.map(event => {
+          const durationMinutes = getEventMinutes(event);
+          const day = getEventDayKey(event, settingsRef.current);
+          return {
+              id: generateId(),
+              text: event.summary,
+              description: event.description,
+              completed: false,
+              createdAt: now,
+              status: 'active',
+              label: 'normal',
+              parentId,
+              durationMinutes,
+              remainingTime: durationMinutes ? durationMinutes * 60 * 1000 : undefined,
+              icsUid: event.uid,
+              scheduledAt: day >= today && !event.allDay ? event.start : undefined,
+              ...(day === today && { isActivated: true, activationDeadline: getEventDeadline(event, settingsRef.current) }),
+              ...(day > today && { activateOn: day })
+          };
+      });
+
+      // Going over today's capacity takes a confirmation, as when activating by hand
+      const live = todosRef.current.filter(t => !t.deletedAt);
+      const planned = getTodayPlannedMinutes(live);
+      const plannedAfter = getTodayPlannedMinutes([...newTodos, ...live]);
+      const capacity = getDayCapacity(settingsRef.current.dailyCapacity, today);
+      if (plannedAfter > planned && plannedAfter > capacity) {
+          const confirmed = window.confirm(
+              `Today's events plan ${formatMinutes(plannedAfter)} for today, over your ${formatMinutes(capacity)} capacity. Import anyway?`
+          );
+          if (!confirmed) return;
+      }
+
+      setPendingCalendar(null);
+      beginAction(newTodos.length === 1 ? 'Import event' : `Import ${newTodos.length} events`);
+      setTodos(prev => [...newTodos, ...prev]);
+  }, []);
+
+  const confirmImport = useCallback((mode: ImportMode, keepLocalOnConflict: boolean) => {
+      const backup = pendingImport?.parsed.backup;
+      setPendingImport(null);
+      if (!backup) return;
+
+      const next = applyBackup(
+          { todos: todosRef.current, routines: routinesRef.current, notes: notesRef.current },
+          backup,
+          { mode, keepLocalOnConflict }
+      );
+      beginAction(mode === 'replace' ? 'Replace from backup' : 'Merge backup');
+      setTodos(next.todos);
+      setRoutines(next.routines);
+      setNotes(next.notes);
+      if (mode === 'replace' && backup.settings) {
+          const { fieldClocks: _clocks, ...restored } = withDefaultSettings(backup.settings);
+          updateSettings(restored);
+      }
+  }, [pendingImport, beginAction, setTodos, setRoutines, setNotes, updateSettings]);
   
   const clearAll = useCallback(() => {
       // Disconnect sync first to avoid pushing empty data
       handleDisconnectSync();
       
-      setTodos([]);
-      setRoutines([]);
-      setNotes([]);
-      localStorage.removeItem('todos');
-      localStorage.removeItem('routines');
-      localStorage.removeItem('notes');
-  }, [handleDisconnectSync]);
+      // Raw setters: a reset is not a deletion that should be recorded for sync
+      setTodosRaw([]);
+      setRoutinesRaw([]);
+      setNotesRaw([]);
+      setLedger([]);
+      setSettingsRaw({ ...DEFAULT_SETTINGS });
+      saveTombstones(emptyTombstones());
+      saveHistory(emptyHistory());
+      clearStoredData().catch(err => console.error('Failed to clear saved data:', err));
+  }, [handleDisconnectSync, saveTombstones, saveHistory]);
 
   // View Logic
   const activeTodos = useMemo(() => {
     // 1. Get all explicitly activated nodes (Roots of the day)
-    const activatedRoots = todos.filter(t => !t.completed && t.status === 'active' && t.isActivated);
+    const activatedRoots = liveTodos.filter(t => !t.completed && t.status === 'active' && t.isActivated);
     
     // 2. Helper to find deepest actionable leaves
     // If a task has children that are active and not completed, it is not a leaf.
-    const getActiveLeaves = (item: Todo): Todo[] => {
-        const children = todos.filter(t => t.parentId === item.id && t.status === 'active' && !t.completed);
-        if (children.length === 0) {
-            return [item];
-        }
-        return children.flatMap(child => getActiveLeaves(child));
-    };
+    const tree = getTaskTree(liveTodos);
 
     // 3. Flatten to unique leaves
     // Use a Map to deduplicate if multiple paths lead to same leaf (unlikely in tree but safe)
     const leafMap = new Map<string, Todo>();
     activatedRoots.forEach(root => {
-        const leaves = getActiveLeaves(root);
+        const leaves = tree.aggregate(root.id, activeLeaves);
         leaves.forEach(leaf => leafMap.set(leaf.id, leaf));
     });
 
     // 4. Return sorted list
     return Array.from(leafMap.values()).sort((a,b) => b.createdAt - a.createdAt);
-  }, [todos]);
+  }, [liveTodos]);
 
-  const totalPlannedMinutes = useMemo(() => {
-    return activeTodos.reduce((acc, t) => acc + (t.durationMinutes || 0), 0);
-  }, [activeTodos]);
+  const totalPlannedMinutes = useMemo(() => getTodayPlannedMinutes(liveTodos), [liveTodos]);
+  const todayCapacity = getDayCapacity(settings.dailyCapacity, generatorDay);
+  const todayStart = getDayStart(generatorDay, dayBoundary);
+  const todayEnd = getDayStart(shiftDayKey(generatorDay, 1), dayBoundary);
 
   const formattedTotalTime = useMemo(() => {
       if (totalPlannedMinutes === 0) return null;
-      const h = Math.floor(totalPlannedMinutes / 60);
-      const m = totalPlannedMinutes % 60;
-      if (h > 0 && m > 0) return `${h}h ${m}m`;
-      if (h > 0) return `${h}h`;
-      return `${m}m`;
+      return formatMinutes(totalPlannedMinutes);
   }, [totalPlannedMinutes]);
 
   const focusStatsStyle = useMemo(() => {
-      const hours = totalPlannedMinutes / 60;
-      // Cap at 8 hours for the full red
-      const ratio = Math.min(hours / 8, 1);
+      // Full red once the day's capacity is reached (any planned time on a day without capacity)
+      const ratio = todayCapacity > 0 ? Math.min(totalPlannedMinutes / todayCapacity, 1) : totalPlannedMinutes > 0 ? 1 : 0;
       // Interpolate hue from 140 (Emerald/Green) to 0 (Red)
       const hue = Math.round(140 * (1 - ratio));
       
@@ -2213,20 +3094,88 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
           borderColor: `hsla(${hue}, 85%, 60%, 0.3)`,
           backgroundColor: `hsla(${hue}, 85%, 60%, 0.1)`
       };
-  }, [totalPlannedMinutes]);
+  }, [totalPlannedMinutes, todayCapacity]);
+
+  const completedTodos = useMemo(() => liveTodos.filter(t => t.completed && t.status !== 'archive' && t.status !== 'graveyard').sort((a,b) => (b.resolvedAt || 0) - (a.resolvedAt || 0)), [liveTodos]);
+  const failedTodos = useMemo(() => liveTodos.filter(t => t.status === 'graveyard').sort((a,b) => (b.resolvedAt || 0) - (a.resolvedAt || 0)), [liveTodos]);
+  const currentSeason = useMemo(() => getCurrentSeason(settings.seasons), [settings.seasons]);
+  const archivedTodos = useMemo(() => liveTodos.filter(t => t.status === 'archive').sort((a,b) => b.createdAt - a.createdAt), [liveTodos]);
+
+  const historyToastElement = historyToast && (
+      <HistoryToast
+          key={historyToast.id}
+          message={historyToast.message}
+          action={historyToast.action}
+          onAction={historyToast.action === 'undo' ? undo : redo}
+          onDismiss={dismissHistoryToast}
+      />
+  );
+
+  const timerAlertElement = timerAlert && (
+      <TimerAlertToast
+          text={timerAlert.text}
+          onComplete={() => completeTimerTask(timerAlert.taskId)}
+          onExtend={() => extendTimer(timerAlert.taskId)}
+          onDismiss={() => setTimerAlert(null)}
+      />
+  );
+
+  const plannerElement = showPlanner && (
+      <React.Suspense fallback={null}>
+          <CapacityPlanner
+              allTodos={liveTodos}
+              scoring={settings.scoring}
+              plannedMinutes={totalPlannedMinutes}
+              capacityMinutes={todayCapacity}
+              onActivate={activateTask}
+              onActivateMany={planToday}
+              onClose={() => setShowPlanner(false)}
+          />
+      </React.Suspense>
+  );
+
+  const reviewElement = showReview && expiringTasks.length > 0 && (
+      <React.Suspense fallback={null}>
+          <EndOfDayReview
+              tasks={expiringTasks}
+              allTodos={liveTodos}
+              scoring={settings.scoring}
+              dayEnd={getDayEnd(Date.now(), dayBoundary)}
+              onApply={applyReview}
+              onClose={closeReview}
+          />
+      </React.Suspense>
+  );
+
+  const focusElement = showFocus && pomodoro && focusTask && isFocusTaskOpen && (
+      <React.Suspense fallback={null}>
+          <FocusView
+              session={pomodoro}
+              task={focusTask}
+              config={settings.pomodoro}
+              onToggle={togglePomodoro}
+              onSkip={skipPomodoroPhase}
+              onStop={stopPomodoro}
+              onComplete={completeFocusTask}
+              onMinimize={() => setShowFocus(false)}
+          />
+      </React.Suspense>
+  );
 
-  const completedTodos = useMemo(() => todos.filter(t => t.completed && t.status !== 'archive' && t.status !== 'graveyard').sort((a,b) => (b.resolvedAt || 0) - (a.resolvedAt || 0)), [todos]);
-  const failedTodos = useMemo(() => todos.filter(t => t.status === 'graveyard').sort((a,b) => (b.resolvedAt || 0) - (a.resolvedAt || 0)), [todos]);
-  const archivedTodos = useMemo(() => todos.filter(t => t.status === 'archive').sort((a,b) => b.createdAt - a.createdAt), [todos]);
+  if (!isStorageReady) {
+      return <LoadingSpinner />;
+  }
 
   if (viewingGoalId) {
-      const goal = todos.find(t => t.id === viewingGoalId);
+      const goal = liveTodos.find(t => t.id === viewingGoalId);
       if (goal) {
           return (
+            <>
             <ProjectView 
                 goal={goal}
-                tasks={todos.filter(t => t.parentId === goal.id && t.status !== 'graveyard')}
-                allTodos={todos}
+                tasks={liveTodos.filter(t => t.parentId === goal.id && t.status !== 'graveyard')}
+                allTodos={liveTodos}
+                scoring={settings.scoring}
                 labelOptions={labelOptions}
                 onBack={() => setViewingGoalId(null)}
                 // Use a closure here to pass current ID without breaking hook rules
@@ -2243,8 +3192,15 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                 onBreakDown={handleBreakDown}
                 onDuplicate={handleDuplicateTask}
                 onReorderTasks={handleReorderTasks}
+                onUpdateGoalPlan={updateGoalPlan}
+                onSetExpiryPolicy={setExpiryPolicy}
                 totalPlannedTime={totalPlannedMinutes}
             />
+            {reviewElement}
+            {focusElement}
+            {timerAlertElement}
+            {historyToastElement}
+            </>
           );
       }
       // If goal not found (deleted?), go back
@@ -2254,17 +3210,45 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
   return (
     <div className="h-full flex flex-col bg-slate-900 md:bg-slate-900/80 md:backdrop-blur-sm relative">
       {showMissionBriefing && <MissionBriefing onClose={closeBriefing} />}
+      {pendingImport && (
+          <ImportPreviewDialog
+              fileName={pendingImport.fileName}
+              parsed={pendingImport.parsed}
+              diff={pendingImport.diff}
+              onConfirm={confirmImport}
+              onCancel={() => setPendingImport(null)}
+          />
+      )}
+      {pendingCalendar && (
+          <React.Suspense fallback={null}>
+              <CalendarImportDialog
+                  fileName={pendingCalendar.fileName}
+                  events={pendingCalendar.events}
+                  skipped={pendingCalendar.skipped}
+                  todos={liveTodos}
+                  todayKey={generatorDay}
+                  dayBoundary={dayBoundary}
+                  onConfirm={confirmCalendarImport}
+                  onCancel={() => setPendingCalendar(null)}
+              />
+          </React.Suspense>
+      )}
+      {plannerElement}
+      {reviewElement}
+      {focusElement}
+      {timerAlertElement}
+      {historyToastElement}
 
       {/* Navigation */}
       <div className="flex-shrink-0 flex items-center justify-between px-4 py-2 border-b border-slate-800 bg-slate-900 md:bg-[#0f172a]/90">
         <div className="flex bg-slate-800/50 rounded-lg p-1 overflow-x-auto no-scrollbar max-w-[75vw]">
-          {(['orbit', 'today', 'completed', 'graveyard', 'archive', 'notes', 'stats'] as const).map(tab => (
+          {(['orbit', 'today', 'completed', 'graveyard', 'archive', 'notes', 'trash', 'stats'] as const).map(tab => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab === 'orbit' ? 'goals' : tab as Tab)}
               className={`
                 px-4 py-3 rounded-md text-[10px] font-bold uppercase tracking-widest transition-all whitespace-nowrap flex items-center gap-1.5 min-h-[44px]
-                ${(activeTab === tab || (tab === 'orbit' && activeTab === 'goals')) ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}
+                ${(activeTab === tab || (tab === 'orbit' && (activeTab === 'goals' || activeTab === 'hall'))) ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}
               `}
             >
               {tab === 'orbit' && <Rocket size={12} />}
@@ -2273,6 +3257,7 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
               {tab === 'graveyard' && <Skull size={12} />}
               {tab === 'archive' && <Archive size={12} />}
               {tab === 'notes' && <StickyNote size={12} />}
+              {tab === 'trash' && <Trash2 size={12} />}
               {tab === 'stats' && <BarChart3 size={12} />}
               {tab}
             </button>
@@ -2290,13 +3275,19 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
       <div className="flex-grow overflow-hidden relative">
         {activeTab === 'goals' && (
             <GoalManagementView 
-                todos={todos} 
-                routines={routines}
+                todos={liveTodos} 
+                routines={liveRoutines}
+                scoring={settings.scoring}
+                dayBoundary={dayBoundary}
                 labelOptions={labelOptions}
                 onAddGoal={handleAddGoal} 
                 onAddNormal={handleAddNormal}
                 onDelete={deleteTodo} 
                 onOpenProject={setViewingGoalId} 
+                seasonName={currentSeason.name}
+                onRetireGoal={handleRetireGoal}
+                onStartSeason={handleStartSeason}
+                onOpenHallOfFame={() => setActiveTab('hall')}
                 onToggle={toggleTodo}
                 onActivate={activateTask}
                 onSetDuration={setTaskDuration}
@@ -2308,11 +3299,24 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                 onAddSubTask={handleAddSubTask}
                 onDuplicate={handleDuplicateTask}
                 onAddRoutine={handleAddRoutine}
+                onUpdateRoutine={handleUpdateRoutine}
+                onToggleRoutinePause={handleToggleRoutinePause}
                 onDeleteRoutine={handleDeleteRoutine}
                 totalPlannedTime={totalPlannedMinutes}
             />
         )}
 
+        {activeTab === 'hall' && (
+            <React.Suspense fallback={<LoadingSpinner />}>
+                <HallOfFameView
+                    todos={liveTodos}
+                    seasons={settings.seasons}
+                    onOpenProject={setViewingGoalId}
+                    onBack={() => setActiveTab('goals')}
+                />
+            </React.Suspense>
+        )}
+
         {activeTab === 'today' && (
             <div className="h-full overflow-y-auto p-4 pb-32">
                  <div className="text-center mb-6">
@@ -2334,16 +3338,41 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                                     <Clock size={12} style={{ color: focusStatsStyle.color }} />
                                     <span className="text-xs font-bold text-slate-300">
                                         Total Focus: <span style={{ color: focusStatsStyle.color }}>{formattedTotalTime}</span>
+                                        <span className="text-slate-500 font-normal"> / {formatMinutes(todayCapacity)}</span>
                                     </span>
                                 </div>
                             )}
 
+                            <button
+                                onClick={() => setShowPlanner(true)}
+                                className="flex items-center gap-2 px-3 py-1 rounded-full shadow-sm border border-indigo-500/30 bg-indigo-900/10 hover:bg-indigo-900/30 text-indigo-300 text-xs font-bold transition-colors"
+                                title="Pull tasks from Orbit up to today's capacity"
+                            >
+                                <CalendarCheck size={12} />
+                                Plan
+                            </button>
+
+                            {activeTodos.length > 0 && (
+                                <button
+                                    onClick={() => setTodayView(todayView === 'list' ? 'timeline' : 'list')}
+                                    className="flex items-center gap-2 px-3 py-1 rounded-full shadow-sm border border-slate-700 bg-slate-800/50 hover:bg-slate-800 text-slate-300 text-xs font-bold transition-colors"
+                                    title={todayView === 'list' ? 'Show the day as time blocks' : 'Show the task list'}
+                                >
+                                    {todayView === 'list' ? <CalendarClock size={12} /> : <List size={12} />}
+                                    {todayView === 'list' ? 'Timeline' : 'List'}
+                                </button>
+                            )}
+
                             {activeTodos.length > 0 && (
-                                <div className="flex items-center gap-2 px-3 py-1 rounded-full shadow-sm border border-red-500/30 bg-red-900/10 text-red-400">
+                                <button
+                                    onClick={() => setShowReview(true)}
+                                    className="flex items-center gap-2 px-3 py-1 rounded-full shadow-sm border border-red-500/30 bg-red-900/10 hover:bg-red-900/20 text-red-400 transition-colors"
+                                    title="Review what expires tonight"
+                                >
                                     <Clock size={12} className="animate-pulse" />
                                     {/* Isolated Component for Countdown */}
-                                    <DailyLimitCountdown />
-                                </div>
+                                    <DailyLimitCountdown dayBoundary={dayBoundary} />
+                                </button>
                             )}
                         </div>
                     </div>
@@ -2355,14 +3384,31 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                          <p className="text-sm text-slate-400 font-medium">Orbit established. Awaiting orders.</p>
                          <p className="text-xs text-slate-600 mt-2">Go to Orbit tab to plan tasks.</p>
                      </div>
+                 ) : todayView === 'timeline' ? (
+                     <>
+                         <ScheduledNowBanner tasks={activeTodos} onStartTimer={toggleTimer} />
+                         <React.Suspense fallback={<LoadingSpinner />}>
+                             <DayTimeline
+                                 tasks={activeTodos}
+                                 allTodos={liveTodos}
+                                 dayStart={todayStart}
+                                 dayEnd={todayEnd}
+                                 onSchedule={scheduleTask}
+                                 onToggleTimer={toggleTimer}
+                             />
+                         </React.Suspense>
+                     </>
                  ) : (
-                     activeTodos.map(todo => (
+                     <>
+                     <ScheduledNowBanner tasks={activeTodos} onStartTimer={toggleTimer} />
+                     {activeTodos.map(todo => (
                         <TodoItem 
                             key={todo.id} 
                             todo={todo} 
                             onToggle={toggleTodo} 
                             onDelete={deleteTodo} 
-                            allTodos={todos}
+                            allTodos={liveTodos}
+                            scoring={settings.scoring}
                             labelOptions={labelOptions}
                             // Removed onAddSubTask to prevent creating tasks in Today view
                             onUpdateDescription={updateDescription}
@@ -2374,9 +3420,11 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                             onBreakDown={handleBreakDown}
                             onDuplicate={handleDuplicateTask}
                             onToggleTimer={toggleTimer}
+                            onStartFocus={startFocus}
                             viewContext="today"
                         />
-                     ))
+                     ))}
+                     </>
                  )}
             </div>
         )}
@@ -2390,7 +3438,8 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                         todo={todo} 
                         onToggle={toggleTodo} 
                         onDelete={deleteTodo} 
-                        allTodos={todos}
+                        allTodos={liveTodos}
+                        scoring={settings.scoring}
                         viewContext="list"
                     />
                 ))}
@@ -2406,7 +3455,8 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                         todo={todo} 
                         onToggle={toggleTodo} 
                         onDelete={deleteTodo} 
-                        allTodos={todos}
+                        allTodos={liveTodos}
+                        scoring={settings.scoring}
                         onBuyback={buybackTask}
                         viewContext="list"
                     />
@@ -2429,7 +3479,8 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
                         todo={todo} 
                         onToggle={toggleTodo} 
                         onDelete={deleteTodo} 
-                        allTodos={todos}
+                        allTodos={liveTodos}
+                        scoring={settings.scoring}
                         viewContext="list"
                     />
                 ))}
@@ -2439,8 +3490,8 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
         {activeTab === 'notes' && (
             <React.Suspense fallback={<LoadingSpinner />}>
                 <NotesView 
-                    notes={notes} 
-                    todos={todos}
+                    notes={liveNotes} 
+                    todos={liveTodos}
                     onAdd={addNote} 
                     onUpdate={updateNote} 
                     onDelete={deleteNote} 
@@ -2451,20 +3502,38 @@ const TodoList: React.FC<TodoListProps> = ({ onGoalsChange, onSyncStateChange, o
 
         {activeTab === 'stats' && (
              <React.Suspense fallback={<LoadingSpinner />}>
-                 <StatsView todos={todos} />
+                 <StatsView ledger={ledger} dayBoundary={dayBoundary} todos={liveTodos} />
              </React.Suspense>
         )}
 
+        {activeTab === 'trash' && (
+            <React.Suspense fallback={<LoadingSpinner />}>
+                <TrashView
+                    todos={todos}
+                    notes={notes}
+                    routines={routines}
+                    retentionDays={settings.trashRetentionDays}
+                    onRestore={restoreFromTrash}
+                    onPurge={purgeFromTrash}
+                    onEmpty={emptyTrash}
+                />
+            </React.Suspense>
+        )}
+
         {activeTab === 'settings' && (
             <React.Suspense fallback={<LoadingSpinner />}>
                 <SettingsView 
                     onExport={handleExport} 
+                    onExportCalendar={handleExportCalendar}
+                    onImportCalendar={handleImportCalendar}
                     onImport={handleImport} 
                     onClear={clearAll}
                     onEnableSync={handleEnableSync}
                     onJoinSync={handleJoinSync}
                     onDisconnectSync={handleDisconnectSync}
                     syncStatus={syncStatus}
+                    settings={settings}
+                    onUpdateSettings={updateSettings}
                 />
             </React.Suspense>
         )}
@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { RotateCcw, X, Target, StickyNote, Repeat, CornerDownRight } from 'lucide-react';
+import { Todo, Note, Routine } from '../types';
+
+export type TrashKind = 'todo' | 'note' | 'routine';
+
+interface TrashEntry {
+    kind: TrashKind;
+    id: string;
+    title: string;
+    deletedAt: number;
+    subtaskCount: number;
+    parentTitle?: string;
+}
+
+interface TrashViewProps {
+    todos: Todo[]; // Full list, including soft-deleted records
+    notes: Note[];
+    routines: Routine[];
+    retentionDays: number;
+    onRestore: (kind: TrashKind, id: string) => void;
+    onPurge: (kind: TrashKind, id: string) => void;
+    onEmpty: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashView: React.FC<TrashViewProps> = ({ todos, notes, routines, retentionDays, onRestore, onPurge, onEmpty }) => {
+    // One entry per deleted tree (its root), note and routine, newest first
+    const entries = useMemo(() => {
+        const todosById = new Map(todos.map(t => [t.id, t]));
+        const list: TrashEntry[] = [];
+
+        todos.forEach(t => {
+            if (!t.deletedAt || (t.deletedRootId ?? t.id) !== t.id) return;
+            list.push({
+                kind: 'todo',
+                id: t.id,
+                title: t.text,
+                deletedAt: t.deletedAt,
+                subtaskCount: todos.filter(c => c.id !== t.id && c.deletedAt && c.deletedRootId === t.id).length,
+                parentTitle: t.parentId ? todosById.get(t.parentId)?.text : undefined
+            });
+        });
+        notes.forEach(n => {
+            if (!n.deletedAt) return;
+            list.push({
+                kind: 'note',
+                id: n.id,
+                title: String(n.text || '').replace(/<[^>]*>?/gm, '') || 'Untitled note',
+                deletedAt: n.deletedAt,
+                subtaskCount: 0
+            });
+        });
+        routines.forEach(r => {
+            if (!r.deletedAt) return;
+            list.push({ kind: 'routine', id: r.id, title: r.title, deletedAt: r.deletedAt, subtaskCount: 0 });
+        });
+
+        return list.sort((a, b) => b.deletedAt - a.deletedAt);
+    }, [todos, notes, routines]);
+
+    const daysLeft = (deletedAt: number) => Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+    return (
+        <div className="h-full overflow-y-auto p-4 pb-20">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-light text-white tracking-[0.2em] uppercase pl-2 border-l-2 border-slate-500">Trash</h2>
+                {entries.length > 0 && (
+                    <button
+                        onClick={() => {
+                            if (window.confirm("Permanently delete everything in Trash? This cannot be undone.")) {
+                                onEmpty();
+                            }
+                        }}
+                        className="px-3 py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest text-red-400 bg-red-900/10 border border-red-500/30 hover:bg-red-900/30 transition-colors"
+                    >
+                        Empty Trash
+                    </button>
+                )}
+            </div>
+
+            {entries.length === 0 && (
+                <div className="text-center text-slate-600 mt-10">
+                    <p className="text-xs">Trash is empty.</p>
+                    <p className="text-[10px] text-slate-700 mt-1">Deleted items are kept here for {retentionDays} days before being purged.</p>
+                </div>
+            )}
+
+            {entries.map(entry => (
+                <div key={`${entry.kind}-${entry.id}`} className="flex items-center gap-3 bg-slate-800/50 border border-slate-700/50 rounded-xl p-3 mb-2">
+                    <div className="text-slate-500 flex-shrink-0">
+                        {entry.kind === 'todo' && <Target size={16} />}
+                        {entry.kind === 'note' && <StickyNote size={16} />}
+                        {entry.kind === 'routine' && <Repeat size={16} />}
+                    </div>
+                    <div className="flex-grow min-w-0">
+                        <p className="text-sm text-slate-300 truncate">{entry.title}</p>
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-[10px] text-slate-500 font-mono">
+                            <span>
+                                Deleted {new Date(entry.deletedAt).toLocaleString('default', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                            {entry.subtaskCount > 0 && <span>+{entry.subtaskCount} subtasks</span>}
+                            {entry.parentTitle && (
+                                <span className="flex items-center gap-1 truncate">
+                                    <CornerDownRight size={10} /> {entry.parentTitle}
+                                </span>
+                            )}
+                            <span className="text-red-400/70">Purged in {daysLeft(entry.deletedAt)}d</span>
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => onRestore(entry.kind, entry.id)}
+                        className="p-2 rounded-lg text-slate-400 hover:text-emerald-400 hover:bg-slate-700 transition-colors"
+                        title="Restore"
+                    >
+                        <RotateCcw size={16} />
+                    </button>
+                    <button
+                        onClick={() => {
+                            if (window.confirm("Permanently delete this item? This cannot be undone.")) {
+                                onPurge(entry.kind, entry.id);
+                            }
+                        }}
+                        className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-slate-700 transition-colors"
+                        title="Delete Forever"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default TrashView;
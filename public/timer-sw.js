@@ -0,0 +1,71 @@
+// Task timer notifications, imported into the generated service worker (see vite.config.ts and utils/timerAlerts.ts).
+// Where the Notification Triggers API exists the notification is handed to the browser for its time;
+// elsewhere a timeout in the worker covers the time the browser keeps it running.
+
+const timeouts = new Map();
+
+const showTimerNotification = (data, showTrigger) =>
+  self.registration.showNotification("Time's up", {
+    body: data.title,
+    tag: data.tag,
+    renotify: true,
+    requireInteraction: true,
+    icon: '/pwa-192x192.png',
+    badge: '/pwa-192x192.png',
+    data: { taskId: data.taskId },
+    actions: [
+      { action: 'complete', title: 'Complete' },
+      { action: 'extend', title: `+${data.extendMinutes} min` }
+    ],
+    ...(showTrigger && { showTrigger })
+  });
+
+const clearScheduled = async (data) => {
+  clearTimeout(timeouts.get(data.taskId));
+  timeouts.delete(data.taskId);
+  const shown = await self.registration.getNotifications({ tag: data.tag, includeTriggered: true });
+  shown.forEach(notification => notification.close());
+};
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'timer:cancel') {
+    event.waitUntil(clearScheduled(data));
+    return;
+  }
+  if (data.type !== 'timer:schedule') return;
+
+  const delay = data.at - Date.now();
+  if (delay <= 0) {
+    event.waitUntil(showTimerNotification(data));
+  } else if ('showTrigger' in Notification.prototype && 'TimestampTrigger' in self) {
+    event.waitUntil(showTimerNotification(data, new self.TimestampTrigger(data.at)));
+  } else {
+    clearTimeout(timeouts.get(data.taskId));
+    event.waitUntil(new Promise(resolve => {
+      timeouts.set(data.taskId, setTimeout(() => {
+        timeouts.delete(data.taskId);
+        showTimerNotification(data).then(resolve, resolve);
+      }, delay));
+    }));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const taskId = event.notification.data && event.notification.data.taskId;
+  if (!taskId) return;
+  const action = event.action || 'open';
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (client) {
+      client.postMessage({ type: 'timer:action', action, taskId });
+      if (action === 'open' && 'focus' in client) await client.focus();
+      return;
+    }
+    // No open window: the app picks the action up from the URL once it has loaded
+    await self.clients.openWindow(`/?timerAction=${action}&task=${encodeURIComponent(taskId)}`);
+  })());
+});
@@ -0,0 +1,281 @@
+import { Todo, Routine, Note, PointEvent } from '../types';
+import { backfillLedger } from '../utils/ledger';
+import { loadSettings } from '../utils/settings';
+
+// Local persistence for the synced collections.
+// Records live in IndexedDB (one object store per collection, keyed by id) and are written
+// per record: only records whose reference changed since the last write are put/deleted.
+
+// Persisted collections, as loaded into TodoList state
+export interface StoredData {
+  todos: Todo[];
+  routines: Routine[];
+  notes: Note[];
+  ledger: PointEvent[];
+}
+
+export type StoredCollection = keyof StoredData;
+
+// Bump when a types.ts change needs existing records rewritten, and append a migration below
+export const SCHEMA_VERSION = 2;
+
+interface Migration {
+  version: number; // Schema version the data is at after this migration
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+// Ordered: every migration newer than the stored schemaVersion runs once, oldest first
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Backfill fields that localStorage-era saves may lack',
+    migrate: (data) => ({
+      ...data,
+      todos: data.todos.map(t => ({
+        ...t,
+        status: t.status || 'active',
+        label: t.label || 'normal',
+        completed: !!t.completed,
+        createdAt: t.createdAt || Date.now()
+      })),
+      routines: data.routines.map(r => ({
+        ...r,
+        daysOfWeek: r.daysOfWeek || [],
+        completedCycles: r.completedCycles || 0,
+        streak: r.streak || 0,
+        createdAt: r.createdAt || Date.now()
+      })),
+      notes: data.notes.map(n => ({ ...n, createdAt: n.createdAt || Date.now() }))
+    })
+  },
+  {
+    version: 2,
+    description: 'Backfill the points ledger from completed, failed and bought-back todos',
+    migrate: (data) => ({
+      ...data,
+      ledger: backfillLedger(data.ledger, data.todos, loadSettings().scoring)
+    })
+  }
+];
+
+const DB_NAME = 'northstar';
+const DB_VERSION = 2; // IndexedDB structure (stores), independent of SCHEMA_VERSION
+const META_STORE = 'meta';
+const COLLECTIONS: StoredCollection[] = ['todos', 'routines', 'notes', 'ledger'];
+const LEGACY_COLLECTIONS: StoredCollection[] = ['todos', 'routines', 'notes']; // Keys the localStorage-era app used
+
+// Fallback when IndexedDB can't be opened (e.g. some private browsing modes)
+const LEGACY_SCHEMA_KEY = 'northstar_schema_version';
+let useLocalStorage = false;
+
+// Last written version of every record, per collection (for per-record diffs)
+const written: Record<StoredCollection, Map<string, unknown>> = {
+  todos: new Map(),
+  routines: new Map(),
+  notes: new Map(),
+  ledger: new Map()
+};
+
+// === INDEXEDDB HELPERS ===
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        COLLECTIONS.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// === LOCALSTORAGE (LEGACY) ===
+
+const readLegacyCollection = <T>(key: StoredCollection): T[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const readLegacyData = (): StoredData => ({
+  todos: readLegacyCollection<Todo>('todos'),
+  routines: readLegacyCollection<Routine>('routines'),
+  notes: readLegacyCollection<Note>('notes'),
+  ledger: readLegacyCollection<PointEvent>('ledger')
+});
+
+const hasLegacyData = (): boolean => LEGACY_COLLECTIONS.some(key => localStorage.getItem(key) !== null);
+
+const removeLegacyData = () => COLLECTIONS.forEach(key => localStorage.removeItem(key));
+
+// === LOADING ===
+
+const runMigrations = (data: StoredData, fromVersion: number): StoredData =>
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, m) => m.migrate(current), data);
+
+// IndexedDB returns records in key order; restore the newest-first / oldest-first order the views expect
+const sortForState = (data: StoredData): StoredData => ({
+  todos: [...data.todos].sort((a, b) => b.createdAt - a.createdAt),
+  routines: [...data.routines].sort((a, b) => a.createdAt - b.createdAt),
+  notes: [...data.notes].sort((a, b) => b.createdAt - a.createdAt),
+  ledger: [...data.ledger].sort((a, b) => a.at - b.at)
+});
+
+const rememberWritten = (data: StoredData) => {
+  COLLECTIONS.forEach(name => {
+    written[name] = new Map((data[name] as Array<{ id: string }>).map(item => [item.id, item]));
+  });
+};
+
+// Replaces every store's contents and the schema version in one transaction
+const writeAll = async (db: IDBDatabase, data: StoredData): Promise<void> => {
+  const tx = db.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+  COLLECTIONS.forEach(name => {
+    const store = tx.objectStore(name);
+    store.clear();
+    (data[name] as Array<{ id: string }>).forEach(item => store.put(item));
+  });
+  tx.objectStore(META_STORE).put(SCHEMA_VERSION, 'schemaVersion');
+  await transactionDone(tx);
+};
+
+const loadFromLocalStorage = (): StoredData => {
+  const storedVersion = Number(localStorage.getItem(LEGACY_SCHEMA_KEY) || 0);
+  let data = readLegacyData();
+  if (storedVersion < SCHEMA_VERSION) {
+    data = runMigrations(data, storedVersion);
+    COLLECTIONS.forEach(name => localStorage.setItem(name, JSON.stringify(data[name])));
+    localStorage.setItem(LEGACY_SCHEMA_KEY, String(SCHEMA_VERSION));
+  }
+  return data;
+};
+
+/**
+ * Loads all collections, migrating them to SCHEMA_VERSION first.
+ * On the first run with IndexedDB, data saved by the localStorage-based versions is imported
+ * once and the old keys are removed.
+ */
+export const loadStoredData = async (): Promise<StoredData> => {
+  let db: IDBDatabase;
+  try {
+    db = await openDb();
+  } catch (error) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', error);
+    useLocalStorage = true;
+    const data = loadFromLocalStorage();
+    rememberWritten(data);
+    return data;
+  }
+
+  const storedVersion = await requestToPromise(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('schemaVersion')
+  ) as number | undefined;
+
+  let data: StoredData;
+  let fromVersion: number;
+
+  if (storedVersion === undefined) {
+    // First run on IndexedDB: adopt whatever the localStorage-era app saved (pre-versioning = 0)
+    const isLegacy = hasLegacyData();
+    data = readLegacyData();
+    fromVersion = isLegacy ? 0 : SCHEMA_VERSION;
+  } else {
+    const tx = db.transaction(COLLECTIONS, 'readonly');
+    const [todos, routines, notes, ledger] = await Promise.all(
+      COLLECTIONS.map(name => requestToPromise(tx.objectStore(name).getAll()))
+    );
+    data = { todos, routines, notes, ledger } as StoredData;
+    fromVersion = storedVersion;
+  }
+
+  if (fromVersion < SCHEMA_VERSION) {
+    data = runMigrations(data, fromVersion);
+  }
+  if (storedVersion !== SCHEMA_VERSION) {
+    await writeAll(db, data);
+    if (storedVersion === undefined) removeLegacyData();
+  }
+
+  const sorted = sortForState(data);
+  rememberWritten(sorted);
+  return sorted;
+};
+
+// === SAVING ===
+
+/**
+ * Persists a collection by writing only the records that changed (by reference) since the last
+ * write and deleting the ones that disappeared.
+ */
+export const saveCollection = async <K extends StoredCollection>(name: K, items: StoredData[K]): Promise<void> => {
+  const previous = written[name];
+  const records = items as Array<{ id: string }>;
+  const next = new Map<string, unknown>(records.map(item => [item.id, item]));
+  written[name] = next;
+
+  if (useLocalStorage) {
+    localStorage.setItem(name, JSON.stringify(items));
+    return;
+  }
+
+  const changed = records.filter(item => previous.get(item.id) !== item);
+  const removed = Array.from(previous.keys()).filter(id => !next.has(id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  changed.forEach(item => store.put(item));
+  removed.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes every stored record (system reset).
+ */
+export const clearStoredData = async (): Promise<void> => {
+  COLLECTIONS.forEach(name => { written[name] = new Map(); });
+  removeLegacyData();
+  if (useLocalStorage) return;
+
+  const db = await openDb();
+  const tx = db.transaction(COLLECTIONS, 'readwrite');
+  COLLECTIONS.forEach(name => tx.objectStore(name).clear());
+  await transactionDone(tx);
+};
@@ -3,19 +3,35 @@ import {
   setDoc, 
   getDoc, 
   onSnapshot, 
-  updateDoc,
+  runTransaction,
   serverTimestamp,
   Unsubscribe,
   Timestamp
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { Todo, Note, Routine } from '../types';
+import { Todo, Note, Routine, Tombstones, AppSettings, PointEvent } from '../types';
+import { mergeRecord, mergeRecords, mergeTombstones, emptyTombstones } from '../utils/syncMerge';
+import { mergeLedgers } from '../utils/ledger';
+import { withDefaultSettings } from '../utils/settings';
+
+// Local collections that get synced
+export interface SyncPayload {
+  todos: Todo[];
+  routines: Routine[];
+  notes: Note[];
+  tombstones: Tombstones;
+  settings: AppSettings;
+  ledger: PointEvent[];
+}
 
 // Sync data structure
 export interface SyncData {
   todos: Todo[];
   routines: Routine[];
   notes: Note[];
+  tombstones?: Tombstones;
+  settings?: AppSettings;
+  ledger?: PointEvent[];
   lastUpdated: Timestamp | null;
   deviceId: string;
 }
@@ -102,7 +118,7 @@ export const checkSyncRoomExists = async (code: string): Promise<boolean> => {
 // Create a new sync room and upload initial data
 export const createSyncRoom = async (
   code: string,
-  data: { todos: Todo[]; routines: Routine[]; notes: Note[] }
+  data: SyncPayload
 ): Promise<boolean> => {
   try {
     const deviceId = getDeviceId();
@@ -112,6 +128,9 @@ export const createSyncRoom = async (
       todos: data.todos,
       routines: data.routines,
       notes: data.notes,
+      tombstones: data.tombstones,
+      settings: data.settings,
+      ledger: data.ledger,
       lastUpdated: serverTimestamp(),
       deviceId: deviceId,
       createdAt: serverTimestamp()
@@ -161,10 +180,10 @@ export const joinSyncRoom = async (code: string): Promise<SyncData | null> => {
   }
 };
 
-// Push changes to the sync room
-export const pushChanges = async (
-  data: { todos: Todo[]; routines: Routine[]; notes: Note[] }
-): Promise<boolean> => {
+// Push changes to the sync room.
+// Runs as a transaction that merges local data into the current remote copy field-by-field,
+// so concurrent edits from other devices are never overwritten wholesale.
+export const pushChanges = async (data: SyncPayload): Promise<boolean> => {
   const state = getSyncState();
   
   if (!state.enabled || !state.syncCode) {
@@ -174,15 +193,24 @@ export const pushChanges = async (
   try {
     const docRef = doc(db, 'syncRooms', state.syncCode);
     
-    // Use setDoc with merge to create document if it doesn't exist
-    // This handles cases where the document was deleted or never created
-    await setDoc(docRef, sanitizeForFirebase({
-      todos: data.todos,
-      routines: data.routines,
-      notes: data.notes,
-      lastUpdated: serverTimestamp(),
-      deviceId: state.deviceId
-    }), { merge: true });
+    await runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(docRef);
+      // Creates the document if it was deleted or never created
+      const merged = docSnap.exists()
+        ? mergeSyncData(data, docSnap.data() as SyncData)
+        : data;
+
+      transaction.set(docRef, sanitizeForFirebase({
+        todos: merged.todos,
+        routines: merged.routines,
+        notes: merged.notes,
+        tombstones: merged.tombstones,
+        settings: merged.settings,
+        ledger: merged.ledger,
+        lastUpdated: serverTimestamp(),
+        deviceId: state.deviceId
+      }), { merge: true });
+    });
     
     // Update last synced time
     saveSyncState({
@@ -224,17 +252,16 @@ export const subscribeToChanges = (
 
         const data = docSnap.data() as SyncData;
         
-        // Only trigger callback if change came from another device
-        // This prevents infinite loops when we push our own changes
-        if (data.deviceId !== state.deviceId) {
-          onDataChange(data);
-          
-          // Update last synced time
-          saveSyncState({
-            ...state,
-            lastSyncedAt: Date.now()
-          });
-        }
+        // Every snapshot is handed to the caller, including our own writes: snapshots can be
+        // coalesced, so our write may be the first one to carry another device's edits.
+        // Merging is idempotent, so re-applying our own data is a no-op.
+        onDataChange(data);
+        
+        // Update last synced time
+        saveSyncState({
+          ...state,
+          lastSyncedAt: Date.now()
+        });
       },
       (error) => {
         console.error('Sync subscription error:', error);
@@ -296,42 +323,23 @@ const sanitizeForFirebase = <T>(data: T): T => {
   return data;
 };
 
-// Helper function to merge arrays by ID, preferring newer items
-const mergeByIdAndTimestamp = <T extends { id: string; createdAt?: number; resolvedAt?: number }>(
-  localItems: T[],
-  remoteItems: T[]
-): T[] => {
-  const merged = new Map<string, T>();
-  
-  // Add all remote items first
-  remoteItems.forEach(item => merged.set(item.id, item));
-  
-  // Add or update with local items, preferring newer timestamps
-  localItems.forEach(localItem => {
-    const remoteItem = merged.get(localItem.id);
-    
-    if (!remoteItem) {
-      // Item only exists locally, add it
-      merged.set(localItem.id, localItem);
-    } else {
-      // Item exists in both, compare timestamps to determine which is newer
-      const localTime = localItem.resolvedAt || localItem.createdAt || 0;
-      const remoteTime = remoteItem.resolvedAt || remoteItem.createdAt || 0;
-      
-      // Keep the one with the newer timestamp
-      if (localTime > remoteTime) {
-        merged.set(localItem.id, localItem);
-      }
-      // If remote is newer or equal, it's already in the map
-    }
-  });
-  
-  return Array.from(merged.values());
+// Merge local collections with a remote snapshot, field-by-field, honouring tombstones from both sides
+export const mergeSyncData = (local: SyncPayload, remote: Partial<SyncData>): SyncPayload => {
+  const tombstones = mergeTombstones(local.tombstones || emptyTombstones(), remote.tombstones);
+  return {
+    todos: mergeRecords(local.todos, remote.todos || [], tombstones.todos),
+    routines: mergeRecords(local.routines, remote.routines || [], tombstones.routines),
+    notes: mergeRecords(local.notes, remote.notes || [], tombstones.notes),
+    tombstones,
+    settings: remote.settings ? mergeRecord(local.settings, withDefaultSettings(remote.settings)) : local.settings,
+    ledger: mergeLedgers(local.ledger, remote.ledger)
+  };
 };
 
-// Force sync - smart sync that pulls, compares, and merges before deciding direction
+// Force sync - pulls the remote copy, merges it with local data and pushes the result back.
+// Field-level merging makes the direction irrelevant: both sides converge on the same data.
 export const forceSync = async (
-  localData: { todos: Todo[]; routines: Routine[]; notes: Note[] }
+  localData: SyncPayload
 ): Promise<{ success: boolean; error?: string; remoteData?: SyncData }> => {
   const state = getSyncState();
   
@@ -342,98 +350,39 @@ export const forceSync = async (
   try {
     const docRef = doc(db, 'syncRooms', state.syncCode);
     
-    // Step 1: Pull remote data first
-    const docSnap = await getDoc(docRef);
-    
-    if (!docSnap.exists()) {
-      // Room doesn't exist, create it with local data
-      await setDoc(docRef, sanitizeForFirebase({
-        todos: localData.todos,
-        routines: localData.routines,
-        notes: localData.notes,
+    const merged = await runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(docRef);
+      const result = docSnap.exists()
+        ? mergeSyncData(localData, docSnap.data() as SyncData)
+        : localData;
+
+      transaction.set(docRef, sanitizeForFirebase({
+        todos: result.todos,
+        routines: result.routines,
+        notes: result.notes,
+        tombstones: result.tombstones,
+        settings: result.settings,
+        ledger: result.ledger,
         lastUpdated: serverTimestamp(),
         deviceId: state.deviceId
       }));
-      
-      saveSyncState({
-        ...state,
-        lastSyncedAt: Date.now()
-      });
-      
-      return { success: true };
-    }
-    
-    const remoteData = docSnap.data() as SyncData;
-    const remoteUpdatedAt = remoteData.lastUpdated?.toMillis?.() ?? 0;
-    const localUpdatedAt = state.lastSyncedAt ?? 0;
+      return result;
+    });
     
-    // Step 2: Compare timestamps and decide strategy
-    const timeDiff = Math.abs(remoteUpdatedAt - localUpdatedAt);
-    const CONFLICT_THRESHOLD = 5000; // 5 seconds
+    saveSyncState({
+      ...state,
+      lastSyncedAt: Date.now()
+    });
     
-    if (timeDiff < CONFLICT_THRESHOLD) {
-      // Step 3a: Timestamps are close - merge intelligently
-      console.log('Force sync: Merging data from both sources');
-      
-      const mergedTodos = mergeByIdAndTimestamp(localData.todos, remoteData.todos || []);
-      const mergedRoutines = mergeByIdAndTimestamp(localData.routines, remoteData.routines || []);
-      const mergedNotes = mergeByIdAndTimestamp(localData.notes, remoteData.notes || []);
-      
-      // Push merged data back to Firebase
-      await setDoc(docRef, sanitizeForFirebase({
-        todos: mergedTodos,
-        routines: mergedRoutines,
-        notes: mergedNotes,
-        lastUpdated: serverTimestamp(),
+    // Return merged data to be applied locally
+    return {
+      success: true,
+      remoteData: {
+        ...merged,
+        lastUpdated: null,
         deviceId: state.deviceId
-      }));
-      
-      saveSyncState({
-        ...state,
-        lastSyncedAt: Date.now()
-      });
-      
-      // Return merged data to be applied locally
-      return {
-        success: true,
-        remoteData: {
-          todos: mergedTodos,
-          routines: mergedRoutines,
-          notes: mergedNotes,
-          lastUpdated: remoteData.lastUpdated,
-          deviceId: state.deviceId
-        }
-      };
-    } else if (remoteUpdatedAt > localUpdatedAt) {
-      // Step 3b: Remote is newer - pull remote data
-      console.log('Force sync: Remote data is newer, pulling from server');
-      
-      saveSyncState({
-        ...state,
-        lastSyncedAt: Date.now()
-      });
-      
-      // Return remote data to be applied locally
-      return { success: true, remoteData };
-    } else {
-      // Step 3c: Local is newer - push local data
-      console.log('Force sync: Local data is newer, pushing to server');
-      
-      await setDoc(docRef, sanitizeForFirebase({
-        todos: localData.todos,
-        routines: localData.routines,
-        notes: localData.notes,
-        lastUpdated: serverTimestamp(),
-        deviceId: state.deviceId
-      }));
-      
-      saveSyncState({
-        ...state,
-        lastSyncedAt: Date.now()
-      });
-      
-      return { success: true };
-    }
+      }
+    };
   } catch (e) {
     console.error('Force sync failed:', e);
     return { success: false, error: e instanceof Error ? e.message : 'Unknown error' };
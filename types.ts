@@ -1,24 +1,150 @@
 
+// Per-field modification timestamps (ms) used to merge concurrent edits during sync
+export type FieldClocks = Record<string, number>;
+
+// Deletion records keyed by record id -> deletion timestamp, so removed items don't resurrect on merge
+export interface Tombstones {
+  todos: Record<string, number>;
+  routines: Record<string, number>;
+  notes: Record<string, number>;
+}
+
+// What a routine's streak falls to when one of its tasks expires into the graveyard (or an occurrence is missed)
+export type StreakBreakPolicy = 'reset' | 'halve' | 'step-back';
+
+// Point rules shared by every view that scores tasks (see utils/pointCalculations.ts)
+export interface ScoringConfig {
+  tierMultipliers: { gold: number; silver: number; bronze: number; normal: number };
+  blockMinutes: number; // Duration of one scoring block; tasks earn tierMultiplier per started block
+  failurePenaltyRatio: number; // Share of a task's points deducted when it expires to the graveyard
+  buybackRatio: number; // Buyback cost as a multiple of the task's points
+  carryOverDecay: number; // Factor applied to a task's multiplier each time it is carried over to the next day
+  velocity: {
+    streakStep: number; // Routine streak length that earns one bonus step
+    stepBonus: number; // Multiplier added per step
+    maxMultiplier: number; // Cap on the routine velocity multiplier
+    breakPolicy: StreakBreakPolicy; // reset to 0, halve, or drop one bonus step (streakStep)
+  };
+}
+
+// What happens to an activated task still open at the end of the day (see utils/expiry.ts)
+export type ExpiryPolicy = 'graveyard' | 'carry-over' | 'return';
+
+export type PointEventType = 'completion' | 'failure' | 'buyback' | 'bonus';
+
+// Append-only score entry, written when points are earned or lost with the scoring inputs frozen.
+// Entries are never edited: an undone completion gets a reversal entry instead.
+export interface PointEvent {
+  id: string; // Derived from type, todo and time, so devices recording the same event agree on it
+  type: PointEventType;
+  todoId: string;
+  text: string; // Task title when the event happened
+  at: number; // When the points count (resolvedAt, or the buyback time)
+  points: number; // Signed: earnings are positive, penalties and buybacks negative
+  tier: keyof ScoringConfig['tierMultipliers'];
+  tierMultiplier: number;
+  velocityMultiplier: number;
+  blocks: number;
+  reverses?: string; // Set on a reversal: id of the entry it cancels (at the same `at`)
+}
+
+// Goal period (normally a calendar quarter) that Orbit goals are retired into when it ends
+export interface Season {
+  id: string; // e.g. "2026-Q3"; a second season started in the same quarter gets a suffix
+  name: string; // e.g. "Q3 2026"
+  startedAt: number;
+  endedAt?: number; // Unset while the season is in progress
+}
+
+export type GoalOutcome = 'completed' | 'retired';
+
+// Set on a goal when it leaves the Orbit slots for the season archive (hall of fame)
+export interface GoalRetirement {
+  seasonId: string;
+  outcome: GoalOutcome;
+  at: number;
+  points: number; // Net ledger points earned by the goal's subtree, frozen at retirement
+}
+
+// Pomodoro cycle lengths (see utils/pomodoro.ts)
+export interface PomodoroConfig {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // Focus sessions per long break
+}
+
+// User preferences, synced across devices as a single clocked record
+export interface AppSettings {
+  trashRetentionDays: number; // Deleted items are purged from Trash after this many days
+  scoring: ScoringConfig;
+  seasons: Season[]; // In start order; the last one without endedAt is the current season
+  dayEndHour: number; // 0-6: hour the day rolls over at (deadlines, routine days, stats); 0 = midnight
+  timeZone: string; // IANA home timezone days are counted in; '' = this device's timezone
+  pomodoro: PomodoroConfig;
+  dailyCapacity: number[]; // Minutes of planned work per weekday, Sunday first (Date.getDay() order)
+  fieldClocks?: FieldClocks;
+}
+
 export interface BuybackEvent {
   timestamp: number;
   cost: number;
 }
 
-export type Frequency = 'weekly' | 'biweekly' | 'monthly';
+// Stretch of time the task's timer ran (one start/pause)
+export interface TimeSession {
+  start: number;
+  end: number;
+}
+
+// 'biweekly' is kept for older routines; it behaves like 'weekly' with an interval of 2
+export type Frequency = 'daily' | 'weekdays' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+// How a monthly routine picks its day (see utils/schedule.ts)
+export type MonthlyRule = 'day' | 'last-day' | 'nth-weekday';
+
+// Checklist item of a routine, spawned as a subtask of every generated task
+export interface RoutineTemplateItem {
+  id: string;
+  text: string;
+  durationMinutes?: number; // Preset timer of the spawned subtask
+  customLabel?: string;
+}
 
 export interface Routine {
   id: string;
   title: string;
   label?: string;
   frequency: Frequency;
+  interval?: number; // daily: every N days, weekly: every N weeks (default 1), counted from createdAt
   daysOfWeek: number[]; // 0=Sun, 1=Mon, ..., 6=Sat
-  dayOfMonth?: number;  // 1-31
+  dayOfMonth?: number;  // 1-31; monthly 'day' rule and yearly. Falls back to the last day in shorter months
+  monthlyRule?: MonthlyRule; // Default 'day'
+  weekOfMonth?: number; // 'nth-weekday' rule: 1-4, or -1 for the last; the weekday is daysOfWeek[0]
+  monthOfYear?: number; // yearly: 0=Jan, ..., 11=Dec
   targetCycles: number; // e.g. 4 weeks/cycles/months
   completedCycles: number; // Progress (Total completions)
   streak: number; // Current consecutive streak (Velocity)
-  lastGeneratedDate?: string; // YYYY-MM-DD
+  streakStartedAt?: number; // When the first completion of the current streak happened
+  longestStreak?: number; // Best streak so far
+  lastGeneratedDate?: string; // YYYY-MM-DD: last day the generator processed (occurrences up to it are settled)
+  missedDates?: string[]; // YYYY-MM-DD: scheduled days that passed without a task being generated (app closed)
+  pausedAt?: number; // Set while paused: no tasks are generated and the streak is frozen
+  vacation?: { start: string; end: string }; // YYYY-MM-DD, inclusive: treated like a pause on those days
+  template?: RoutineTemplateItem[]; // Checklist spawned below each generated task (in order)
+  parentGoalId?: string; // Goal the generated tasks are nested under (top level if it's gone or retired)
   createdAt: number;
   color?: string;
+  deletedAt?: number; // Soft-delete timestamp (sits in Trash until purged)
+  fieldClocks?: FieldClocks;
+}
+
+// Dated sub-target of a goal
+export interface Milestone {
+  id: string;
+  title: string;
+  dueDate: number; // Local midnight of the due day
+  completedAt?: number;
 }
 
 export interface Todo {
@@ -37,12 +163,25 @@ export interface Todo {
   customLabel?: string;
   durationMinutes?: number; // Estimated duration in minutes
   buybackHistory?: BuybackEvent[];
-  remainingTime?: number; // Milliseconds remaining (Snapshot)
+  remainingTime?: number; // Milliseconds remaining (Snapshot); negative once the task runs over its estimate
   isPlaying?: boolean; // Is the timer currently ticking?
   lastStartedAt?: number; // Timestamp when timer was last started
+  timeSessions?: TimeSession[]; // Log of the timer's runs, appended when it stops (actual time spent)
+  scheduledAt?: number; // Start of the task's time block on the Today timeline
+  icsUid?: string; // UID of the calendar event the task was imported from
+  activateOn?: string; // YYYY-MM-DD: day the task activates itself for (an imported event's day), cleared once it has
   routineId?: string; // Link to the routine generator
   multiplier?: number; // Orbital Velocity Multiplier (1.0 - 1.5x)
   order?: number; // Position within the same parent level for drag and drop ordering
+  targetDate?: number; // Goals: deadline (local midnight of the target day)
+  milestones?: Milestone[]; // Goals: dated sub-targets
+  retirement?: GoalRetirement; // Goals: archived into a past season, no longer in an Orbit slot
+  expiryPolicy?: ExpiryPolicy; // End-of-day handling for this task and its subtree (inherited from the nearest ancestor, default graveyard)
+  carryOvers?: number; // Times the task was carried over to the next day
+  pomodoros?: number[]; // End times of the focus sessions completed on this task
+  deletedAt?: number; // Soft-delete timestamp (sits in Trash until purged)
+  deletedRootId?: string; // Root of the subtree that was deleted together (one Trash entry)
+  fieldClocks?: FieldClocks;
 }
 
 export interface Note {
@@ -50,4 +189,6 @@ export interface Note {
   text: string;
   createdAt: number;
   label?: string;
+  deletedAt?: number; // Soft-delete timestamp (sits in Trash until purged)
+  fieldClocks?: FieldClocks;
 }
\ No newline at end of file
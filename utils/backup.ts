@@ -0,0 +1,400 @@
+import { Todo, Routine, Note, AppSettings } from '../types';
+import { ClockedRecord, valuesEqual } from './syncMerge';
+import { stopTimer } from './timeTracking';
+
+// Backup files written by handleExport. Bump when the file layout changes and keep reading older versions.
+export const BACKUP_VERSION = 1;
+
+export type BackupCollection = 'todos' | 'routines' | 'notes';
+
+export interface BackupCollections {
+  todos: Todo[];
+  routines: Routine[];
+  notes: Note[];
+}
+
+export interface Backup extends BackupCollections {
+  version: number;
+  exportedAt?: number;
+  settings?: AppSettings;
+}
+
+// A record from the file that failed validation, with every reason it was rejected
+export interface RejectedRecord {
+  collection: BackupCollection;
+  index: number;
+  id?: string;
+  reasons: string[];
+}
+
+export interface ParsedBackup {
+  backup: Backup | null; // null when the file itself is unusable (see errors)
+  errors: string[];
+  rejected: RejectedRecord[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface CollectionDiff<T> {
+  added: T[];
+  changed: Array<{ local: T; incoming: T }>;
+  conflicting: Array<{ local: T; incoming: T; fields: string[] }>; // Local copy was edited more recently
+  unchanged: number;
+  localOnly: T[]; // Live local records the backup doesn't have (moved to Trash in replace mode)
+}
+
+export type BackupDiff = { [K in BackupCollection]: CollectionDiff<BackupCollections[K][number]> };
+
+// === VALIDATION ===
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  oneOf?: readonly string[];
+}
+
+const TODO_RULES: Record<string, FieldRule> = {
+  id: { type: 'string', required: true },
+  text: { type: 'string', required: true },
+  completed: { type: 'boolean', required: true },
+  createdAt: { type: 'number', required: true },
+  status: { type: 'string', required: true, oneOf: ['active', 'graveyard', 'archive'] },
+  label: { type: 'string', required: true, oneOf: ['goal', 'normal'] },
+  goalCategory: { type: 'string' },
+  parentId: { type: 'string' },
+  description: { type: 'string' },
+  isActivated: { type: 'boolean' },
+  activationDeadline: { type: 'number' },
+  resolvedAt: { type: 'number' },
+  customLabel: { type: 'string' },
+  durationMinutes: { type: 'number' },
+  buybackHistory: { type: 'array' },
+  remainingTime: { type: 'number' },
+  isPlaying: { type: 'boolean' },
+  lastStartedAt: { type: 'number' },
+  timeSessions: { type: 'array' },
+  scheduledAt: { type: 'number' },
+  icsUid: { type: 'string' },
+  activateOn: { type: 'string' },
+  routineId: { type: 'string' },
+  multiplier: { type: 'number' },
+  order: { type: 'number' },
+  targetDate: { type: 'number' },
+  milestones: { type: 'array' },
+  retirement: { type: 'object' },
+  expiryPolicy: { type: 'string', oneOf: ['graveyard', 'carry-over', 'return'] },
+  carryOvers: { type: 'number' },
+  pomodoros: { type: 'array' },
+  deletedAt: { type: 'number' },
+  deletedRootId: { type: 'string' },
+  fieldClocks: { type: 'object' }
+};
+
+const ROUTINE_RULES: Record<string, FieldRule> = {
+  id: { type: 'string', required: true },
+  title: { type: 'string', required: true },
+  label: { type: 'string' },
+  frequency: { type: 'string', required: true, oneOf: ['daily', 'weekdays', 'weekly', 'biweekly', 'monthly', 'yearly'] },
+  interval: { type: 'number' },
+  daysOfWeek: { type: 'array', required: true },
+  dayOfMonth: { type: 'number' },
+  monthlyRule: { type: 'string', oneOf: ['day', 'last-day', 'nth-weekday'] },
+  weekOfMonth: { type: 'number' },
+  monthOfYear: { type: 'number' },
+  targetCycles: { type: 'number', required: true },
+  completedCycles: { type: 'number', required: true },
+  streak: { type: 'number', required: true },
+  streakStartedAt: { type: 'number' },
+  longestStreak: { type: 'number' },
+  lastGeneratedDate: { type: 'string' },
+  missedDates: { type: 'array' },
+  pausedAt: { type: 'number' },
+  vacation: { type: 'object' },
+  template: { type: 'array' },
+  parentGoalId: { type: 'string' },
+  createdAt: { type: 'number', required: true },
+  color: { type: 'string' },
+  deletedAt: { type: 'number' },
+  fieldClocks: { type: 'object' }
+};
+
+const NOTE_RULES: Record<string, FieldRule> = {
+  id: { type: 'string', required: true },
+  text: { type: 'string', required: true },
+  createdAt: { type: 'number', required: true },
+  label: { type: 'string' },
+  deletedAt: { type: 'number' },
+  fieldClocks: { type: 'object' }
+};
+
+const RULES: Record<BackupCollection, Record<string, FieldRule>> = {
+  todos: TODO_RULES,
+  routines: ROUTINE_RULES,
+  notes: NOTE_RULES
+};
+
+const typeOf = (value: unknown): FieldType | 'null' | 'other' => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const t = typeof value;
+  if (t === 'number') return Number.isFinite(value) ? 'number' : 'other';
+  return t === 'string' || t === 'boolean' || t === 'object' ? t : 'other';
+};
+
+// Record-specific checks beyond field types
+const extraChecks: Record<BackupCollection, (record: Record<string, unknown>) => string[]> = {
+  todos: (t) => {
+    const reasons: string[] = [];
+    if (t.parentId !== undefined && t.parentId === t.id) reasons.push('parentId points to itself');
+    if (Array.isArray(t.buybackHistory) && t.buybackHistory.some(e => typeOf(e?.timestamp) !== 'number' || typeOf(e?.cost) !== 'number')) {
+      reasons.push('buybackHistory entries need numeric timestamp and cost');
+    }
+    if (Array.isArray(t.timeSessions) && t.timeSessions.some(e => typeOf(e?.start) !== 'number' || typeOf(e?.end) !== 'number')) {
+      reasons.push('timeSessions entries need numeric start and end');
+    }
+    return reasons;
+  },
+  routines: (r) => {
+    const reasons: string[] = [];
+    if (Array.isArray(r.daysOfWeek) && r.daysOfWeek.some(d => !Number.isInteger(d) || (d as number) < 0 || (d as number) > 6)) {
+      reasons.push('daysOfWeek must only contain 0-6');
+    }
+    if (typeof r.dayOfMonth === 'number' && (r.dayOfMonth < 1 || r.dayOfMonth > 31)) {
+      reasons.push('dayOfMonth must be between 1 and 31');
+    }
+    if (Array.isArray(r.template) && r.template.some(i => typeOf(i?.id) !== 'string' || typeOf(i?.text) !== 'string')) {
+      reasons.push('template items need string id and text');
+    }
+    return reasons;
+  },
+  notes: () => []
+};
+
+/**
+ * Checks one record against its collection's shape.
+ * Optional fields set to null are dropped (treated as unset); unknown fields are kept.
+ *
+ * @returns The cleaned record, or the list of reasons it was rejected
+ */
+const validateRecord = (collection: BackupCollection, raw: unknown): { record?: Record<string, unknown>; reasons: string[] } => {
+  if (typeOf(raw) !== 'object') return { reasons: ['not an object'] };
+
+  const input = raw as Record<string, unknown>;
+  const record: Record<string, unknown> = {};
+  const reasons: string[] = [];
+
+  Object.entries(input).forEach(([key, value]) => {
+    if (value === null && !RULES[collection][key]?.required) return;
+    record[key] = value;
+  });
+
+  Object.entries(RULES[collection]).forEach(([key, rule]) => {
+    const value = record[key];
+    if (value === undefined) {
+      if (rule.required) reasons.push(`missing ${key}`);
+      return;
+    }
+    const actual = typeOf(value);
+    if (actual !== rule.type) {
+      reasons.push(`${key} must be a ${rule.type} (got ${actual})`);
+      return;
+    }
+    if (rule.oneOf && !rule.oneOf.includes(value as string)) {
+      reasons.push(`${key} must be one of ${rule.oneOf.join(', ')} (got "${value}")`);
+    }
+  });
+
+  if (reasons.length === 0) reasons.push(...extraChecks[collection](record));
+  return reasons.length > 0 ? { reasons } : { record, reasons };
+};
+
+/**
+ * Parses and validates a backup file's text.
+ * Invalid records are rejected individually (with reasons) so the rest can still be imported;
+ * file-level problems (bad JSON, unknown version) make the whole file unusable.
+ */
+export function parseBackup(text: string): ParsedBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['The file is not valid JSON.'], rejected: [] };
+  }
+
+  if (typeOf(data) !== 'object') {
+    return { backup: null, errors: ['The file does not contain a North Star backup.'], rejected: [] };
+  }
+  const file = data as Record<string, unknown>;
+
+  const errors: string[] = [];
+  if (typeOf(file.version) !== 'number') {
+    errors.push('Missing backup version: this does not look like a file exported from North Star.');
+  } else if ((file.version as number) > BACKUP_VERSION) {
+    errors.push(`Backup version ${file.version} was made by a newer version of the app (this one reads up to ${BACKUP_VERSION}).`);
+  }
+  (['todos', 'routines', 'notes'] as const).forEach(key => {
+    if (file[key] !== undefined && !Array.isArray(file[key])) errors.push(`"${key}" must be a list.`);
+  });
+  if (errors.length > 0) return { backup: null, errors, rejected: [] };
+
+  const rejected: RejectedRecord[] = [];
+  const readCollection = <K extends BackupCollection>(collection: K): BackupCollections[K] => {
+    const seen = new Set<string>();
+    const records: Record<string, unknown>[] = [];
+    ((file[collection] as unknown[]) || []).forEach((raw, index) => {
+      const { record, reasons } = validateRecord(collection, raw);
+      const id = typeOf((raw as Record<string, unknown>)?.id) === 'string' ? (raw as Record<string, string>).id : undefined;
+      if (record && seen.has(record.id as string)) reasons.push('duplicate id (an earlier record in the file uses it)');
+      if (!record || reasons.length > 0) {
+        rejected.push({ collection, index, id, reasons });
+        return;
+      }
+      seen.add(record.id as string);
+      records.push(record);
+    });
+    return records as unknown as BackupCollections[K];
+  };
+
+  const backup: Backup = {
+    version: file.version as number,
+    exportedAt: typeOf(file.exportedAt) === 'number' ? file.exportedAt as number : undefined,
+    todos: readCollection('todos'),
+    routines: readCollection('routines'),
+    notes: readCollection('notes'),
+    settings: typeOf(file.settings) === 'object' ? file.settings as AppSettings : undefined
+  };
+
+  return { backup, errors: [], rejected };
+}
+
+/**
+ * Serialises the current data into the backup file format.
+ */
+export const createBackup = (data: BackupCollections, settings: AppSettings): Backup => ({
+  ...data,
+  settings,
+  version: BACKUP_VERSION,
+  exportedAt: Date.now()
+});
+
+// === DIFF ===
+
+const dataFields = (item: object): Record<string, unknown> => {
+  const { fieldClocks: _clocks, ...rest } = item as Record<string, unknown>;
+  return rest;
+};
+
+/**
+ * Compares the records of one collection by id.
+ * A differing record is "conflicting" when the local copy changed one of the differing fields more
+ * recently than the backup's copy did (per-field clocks), i.e. importing would discard newer local work.
+ */
+export function diffCollection<T extends ClockedRecord & { deletedAt?: number }>(local: T[], incoming: T[]): CollectionDiff<T> {
+  const localById = new Map(local.map(item => [item.id, item]));
+  const incomingIds = new Set(incoming.map(item => item.id));
+  const diff: CollectionDiff<T> = { added: [], changed: [], conflicting: [], unchanged: 0, localOnly: [] };
+
+  incoming.forEach(item => {
+    const existing = localById.get(item.id);
+    if (!existing) {
+      diff.added.push(item);
+      return;
+    }
+    const a = dataFields(existing);
+    const b = dataFields(item);
+    const fields = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter(key => !valuesEqual(a[key], b[key]));
+    if (fields.length === 0) {
+      diff.unchanged++;
+      return;
+    }
+    const localClocks = existing.fieldClocks || {};
+    const incomingClocks = item.fieldClocks || {};
+    const newerLocally = fields.filter(key => (localClocks[key] ?? 0) > (incomingClocks[key] ?? 0));
+    if (newerLocally.length > 0) diff.conflicting.push({ local: existing, incoming: item, fields: newerLocally });
+    else diff.changed.push({ local: existing, incoming: item });
+  });
+
+  diff.localOnly = local.filter(item => !incomingIds.has(item.id) && !item.deletedAt);
+  return diff;
+}
+
+export const diffBackup = (local: BackupCollections, backup: BackupCollections): BackupDiff => ({
+  todos: diffCollection(local.todos, backup.todos),
+  routines: diffCollection(local.routines, backup.routines),
+  notes: diffCollection(local.notes, backup.notes)
+});
+
+// === APPLY ===
+
+export interface ApplyOptions {
+  mode: ImportMode;
+  keepLocalOnConflict: boolean; // Merge mode only
+  now?: number;
+}
+
+/**
+ * Applies a backup to one collection.
+ * - merge: adds new records and overwrites changed ones; conflicts keep the local copy if asked to.
+ * - replace: the result matches the backup; live local records it doesn't have are soft-deleted (Trash).
+ * Imported records keep the local clocks, so the clocked setters stamp every field the import changed.
+ */
+function applyCollection<T extends ClockedRecord & { deletedAt?: number }>(
+  local: T[],
+  incoming: T[],
+  options: ApplyOptions,
+  softDelete: (item: T, now: number) => T
+): T[] {
+  const now = options.now ?? Date.now();
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const localIds = new Set(local.map(item => item.id));
+  const conflictIds = options.mode === 'merge' && options.keepLocalOnConflict
+    ? new Set(diffCollection(local, incoming).conflicting.map(c => c.local.id))
+    : new Set<string>();
+
+  const result = local.map(item => {
+    const next = incomingById.get(item.id);
+    if (!next) {
+      return options.mode === 'replace' && !item.deletedAt ? softDelete(item, now) : item;
+    }
+    if (conflictIds.has(item.id)) return item;
+    const imported = { ...next, fieldClocks: item.fieldClocks } as T;
+    return valuesEqual(dataFields(imported), dataFields(item)) ? item : imported;
+  });
+
+  const added = incoming.filter(item => !localIds.has(item.id));
+  return [...added, ...result];
+}
+
+/**
+ * Applies a validated backup to the current collections (see applyCollection).
+ * Todos soft-deleted by a replace are grouped into one Trash entry per removed subtree.
+ */
+export function applyBackup(current: BackupCollections, backup: BackupCollections, options: ApplyOptions): BackupCollections {
+  const incomingTodoIds = new Set(backup.todos.map(t => t.id));
+  const localById = new Map(current.todos.map(t => [t.id, t]));
+
+  // Topmost ancestor that is also being removed, so the subtree restores as one unit
+  const removalRoot = (todo: Todo): string => {
+    let root = todo;
+    const visited = new Set<string>([todo.id]);
+    while (root.parentId) {
+      const parent = localById.get(root.parentId);
+      if (!parent || parent.deletedAt || incomingTodoIds.has(parent.id) || visited.has(parent.id)) break;
+      visited.add(parent.id);
+      root = parent;
+    }
+    return root.id;
+  };
+
+  return {
+    todos: applyCollection(current.todos, backup.todos, options, (t, now) => ({
+      ...stopTimer(t, now),
+      deletedAt: now,
+      deletedRootId: removalRoot(t)
+    })),
+    routines: applyCollection(current.routines, backup.routines, options, (r, now) => ({ ...r, deletedAt: now })),
+    notes: applyCollection(current.notes, backup.notes, options, (n, now) => ({ ...n, deletedAt: now }))
+  };
+}
@@ -0,0 +1,97 @@
+import { Todo, ScoringConfig } from '../types';
+import { DEFAULT_SCORING, getTierFromTodo, getTierMultiplier, type Tier } from './pointCalculations';
+import { getTaskTree, SubtreeAggregator } from './taskTree';
+import { parseDateKey } from './schedule';
+import { isInRetiredGoal } from './seasons';
+
+// How much work a day holds: a capacity in minutes per weekday, against the estimates (durationMinutes)
+// of what's activated for Today. Tasks are counted by their open leaves, the way Today lists them.
+
+// === CONSTANTS ===
+
+// Sunday first, like Date.getDay(); 8h each (the old fixed cap of the Today focus chip)
+export const DEFAULT_DAILY_CAPACITY = [480, 480, 480, 480, 480, 480, 480];
+
+// === CAPACITY ===
+
+/**
+ * Capacity (minutes) of the given day (YYYY-MM-DD).
+ */
+export function getDayCapacity(dailyCapacity: number[], dayKey: string): number {
+  return dailyCapacity[parseDateKey(dayKey).getDay()] ?? DEFAULT_DAILY_CAPACITY[0];
+}
+
+// Estimated minutes still open under a task: its open leaves' durations
+const openLeafMinutes: SubtreeAggregator<number> = {
+  include: t => t.status === 'active' && !t.completed,
+  combine: (todo, children) => children.length > 0 ? children.reduce((sum, m) => sum + m, 0) : (todo?.durationMinutes || 0)
+};
+
+/**
+ * Minutes activating the task adds to Today.
+ */
+export function getPlannedMinutes(todoId: string, allTodos: Todo[]): number {
+  return getTaskTree(allTodos).aggregate(todoId, openLeafMinutes);
+}
+
+/**
+ * Minutes planned for Today: the open estimates under every activated task (nested activations counted once).
+ */
+export function getTodayPlannedMinutes(allTodos: Todo[]): number {
+  const tree = getTaskTree(allTodos);
+  return allTodos
+    .filter(t => !t.deletedAt && t.status === 'active' && !t.completed && t.isActivated && !tree.ancestorsOf(t.id).some(a => a.isActivated))
+    .reduce((sum, t) => sum + getPlannedMinutes(t.id, allTodos), 0);
+}
+
+// === SUGGESTIONS ===
+
+export interface CapacitySuggestion {
+  todo: Todo;
+  tier: Tier;
+  minutes: number; // 0 when the task has no estimate
+  suggested: boolean; // Part of the greedy fill of the remaining capacity
+}
+
+/**
+ * Orbit tasks that could be pulled into Today: open, not activated (nor under an activated task, nor waiting
+ * for their own day) and not goals, taking the top of each branch (a goal's direct tasks and top-level tasks).
+ */
+export function getPlanningCandidates(allTodos: Todo[]): Todo[] {
+  const tree = getTaskTree(allTodos);
+  return allTodos.filter(t => {
+    if (t.deletedAt || t.status !== 'active' || t.completed || t.isActivated || t.label === 'goal' || t.routineId || t.activateOn) return false;
+    const parent = t.parentId ? tree.byId.get(t.parentId) : undefined;
+    if (parent && parent.label !== 'goal') return false;
+    if (tree.ancestorsOf(t.id).some(a => a.isActivated)) return false;
+    return !isInRetiredGoal(t.id, allTodos);
+  });
+}
+
+/**
+ * Candidates ordered by tier multiplier (highest first), then age (oldest first). The ones with an estimate
+ * that still fit, in that order, are marked suggested until the remaining minutes are used up.
+ */
+export function suggestTasks(allTodos: Todo[], remainingMinutes: number, config: ScoringConfig = DEFAULT_SCORING): CapacitySuggestion[] {
+  const ranked = getPlanningCandidates(allTodos)
+    .map(todo => ({ todo, tier: getTierFromTodo(todo, allTodos), minutes: getPlannedMinutes(todo.id, allTodos) }))
+    .sort((a, b) => getTierMultiplier(b.tier, config) - getTierMultiplier(a.tier, config) || a.todo.createdAt - b.todo.createdAt);
+
+  let left = remainingMinutes;
+  return ranked.map(entry => {
+    const suggested = entry.minutes > 0 && entry.minutes <= left;
+    if (suggested) left -= entry.minutes;
+    return { ...entry, suggested };
+  });
+}
+
+/**
+ * Minutes as "5h 30m", "5h" or "45m".
+ */
+export function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h > 0 && m > 0) return `${h}h ${m}m`;
+  if (h > 0) return `${h}h`;
+  return `${m}m`;
+}
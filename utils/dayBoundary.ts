@@ -0,0 +1,165 @@
+import { AppSettings } from '../types';
+import { toDateKey, parseDateKey } from './schedule';
+
+// The user's "day": it ends at a configurable hour (a 2am end keeps late-night work on the evening's day)
+// and is counted in a home timezone, so travelling doesn't move deadlines around.
+// Day keys are YYYY-MM-DD like Routine.lastGeneratedDate; parseDateKey turns one into a Date the schedule rules can read.
+
+export type DayBoundary = Pick<AppSettings, 'dayEndHour' | 'timeZone'>;
+
+// === CONSTANTS ===
+
+// Latest end-of-day hour offered (6am); later hours would overlap with mornings
+export const MAX_DAY_END_HOUR = 6;
+
+// === TIMEZONES ===
+
+interface WallClock {
+  year: number;
+  month: number; // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Whether the runtime knows the IANA timezone name.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Timezone this device is in (e.g. "Europe/Berlin").
+ */
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Timezones to choose from, falling back to the device's own when the runtime can't list them.
+ */
+export function listTimeZones(): string[] {
+  const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supported ? supported('timeZone') : [getDeviceTimeZone()];
+}
+
+// The device's zone is used when no (valid) home timezone is set
+const homeZone = (boundary: DayBoundary) =>
+  boundary.timeZone && isValidTimeZone(boundary.timeZone) ? boundary.timeZone : undefined;
+
+const wallClock = (timestamp: number, timeZone: string | undefined): WallClock => {
+  if (!timeZone) {
+    const d = new Date(timestamp);
+    return { year: d.getFullYear(), month: d.getMonth(), day: d.getDate(), hour: d.getHours(), minute: d.getMinutes(), second: d.getSeconds() };
+  }
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone).formatToParts(new Date(timestamp)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  return { year: parts.year, month: parts.month - 1, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
+
+// Instant at which the zone's clocks show the given wall time (an hour skipped or repeated by DST
+// resolves to one of its neighbouring instants)
+const fromWallClock = (year: number, month: number, day: number, hour: number, timeZone: string | undefined, minute = 0, second = 0): number => {
+  if (!timeZone) return new Date(year, month, day, hour, minute, second).getTime();
+
+  const target = Date.UTC(year, month, day, hour, minute, second);
+  const offsetAt = (t: number) => {
+    const c = wallClock(t, timeZone);
+    return Date.UTC(c.year, c.month, c.day, c.hour, c.minute, c.second) - t;
+  };
+  // The offset at the target read as UTC is off by the offset itself around a DST change; a second pass settles it
+  const guess = target - offsetAt(target);
+  return target - offsetAt(guess);
+};
+
+/**
+ * Instant a wall time in the named timezone refers to (read as device time when the zone is unknown).
+ */
+export function getZonedTime(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string | undefined): number {
+  return fromWallClock(year, month, day, hour, timeZone && isValidTimeZone(timeZone) ? timeZone : undefined, minute, second);
+}
+
+// === DAYS ===
+
+/**
+ * Day (YYYY-MM-DD) the moment belongs to: its calendar day in the home timezone,
+ * or the day before while the clock is still before the end-of-day hour.
+ */
+export function getDayKey(timestamp: number, boundary: DayBoundary): string {
+  const c = wallClock(timestamp, homeZone(boundary));
+  const dayOffset = c.hour < (boundary.dayEndHour || 0) ? -1 : 0;
+  return toDateKey(new Date(c.year, c.month, c.day + dayOffset));
+}
+
+/**
+ * Anchor of a routine's recurrence rules (see occursOn): local midnight of the user's day it was created on,
+ * so a routine created before the end-of-day hour, or away from the home timezone, counts from the right day.
+ */
+export function getRoutineAnchor(createdAt: number, boundary: DayBoundary): number {
+  return parseDateKey(getDayKey(createdAt, boundary)).getTime();
+}
+
+/**
+ * Day key `days` days after (or before, if negative) the given one.
+ */
+export function shiftDayKey(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Instant the given day starts (the end-of-day hour of its calendar date, in the home timezone).
+ */
+export function getDayStart(key: string, boundary: DayBoundary): number {
+  const date = parseDateKey(key);
+  return fromWallClock(date.getFullYear(), date.getMonth(), date.getDate(), boundary.dayEndHour || 0, homeZone(boundary));
+}
+
+/**
+ * Instant the day of `timestamp` is over, i.e. the next day starts.
+ */
+export function getDayEnd(timestamp: number, boundary: DayBoundary): number {
+  return getDayStart(shiftDayKey(getDayKey(timestamp, boundary), 1), boundary);
+}
+
+/**
+ * Activation deadline for the day of `timestamp`: its last second, so the deadline itself still
+ * belongs to the day (tasks expire once `now` passes it).
+ */
+export function getDayDeadline(timestamp: number, boundary: DayBoundary): number {
+  return getDayEnd(timestamp, boundary) - 1000;
+}
+
+/**
+ * Label for an end-of-day hour, e.g. "Midnight" or "2:00 AM".
+ */
+export const formatDayEndHour = (hour: number): string =>
+  hour === 0 ? 'Midnight' : new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
@@ -0,0 +1,84 @@
+import { Todo, ExpiryPolicy, ScoringConfig } from '../types';
+import { DEFAULT_SCORING } from './pointCalculations';
+import { DayBoundary, getDayDeadline } from './dayBoundary';
+import { getTaskTree } from './taskTree';
+import { stopTimer } from './timeTracking';
+
+// End-of-day handling of activated tasks that are still open when their deadline passes:
+// - graveyard: the task fails (penalty, buyback possible), as it always has;
+// - carry-over: it stays in Today for the next day, its multiplier decaying each time;
+// - return: it goes back to Orbit, deactivated, without a penalty.
+
+// === CONSTANTS ===
+
+export const EXPIRY_POLICIES: ExpiryPolicy[] = ['graveyard', 'carry-over', 'return'];
+
+export const EXPIRY_POLICY_LABELS: Record<ExpiryPolicy, string> = {
+  'graveyard': 'Graveyard',
+  'carry-over': 'Carry over',
+  'return': 'Return to Orbit'
+};
+
+// Lowest multiplier repeated carry-overs decay to
+const MIN_CARRY_OVER_MULTIPLIER = 0.1;
+
+// === POLICY ===
+
+/**
+ * Policy a todo inherits from its ancestors (the nearest one that sets a policy), default graveyard.
+ */
+export function getInheritedExpiryPolicy(todoId: string, allTodos: Todo[]): ExpiryPolicy {
+  const ancestor = getTaskTree(allTodos).ancestorsOf(todoId).find(t => t.expiryPolicy);
+  return ancestor?.expiryPolicy || 'graveyard';
+}
+
+/**
+ * Policy applied when the todo expires: its own, else the inherited one.
+ */
+export function resolveExpiryPolicy(todo: Todo, allTodos: Todo[]): ExpiryPolicy {
+  return todo.expiryPolicy || getInheritedExpiryPolicy(todo.id, allTodos);
+}
+
+// === EXPIRY ===
+
+/**
+ * Multiplier of a task after one more carry-over (rounded to two decimals).
+ */
+export function calculateCarryOverMultiplier(multiplier: number | undefined, config: ScoringConfig = DEFAULT_SCORING): number {
+  const decayed = Math.round((multiplier || 1.0) * config.carryOverDecay * 100) / 100;
+  return Math.max(MIN_CARRY_OVER_MULTIPLIER, decayed);
+}
+
+/**
+ * The expired task after applying the policy. A running timer is stopped (its run logged) in any case,
+ * at the deadline rather than when the expiry is noticed, so days the app spent closed aren't tracked.
+ */
+export function applyExpiry(
+  todo: Todo,
+  policy: ExpiryPolicy,
+  now: number,
+  boundary: DayBoundary,
+  config: ScoringConfig = DEFAULT_SCORING
+): Todo {
+  const paused = stopTimer(todo, Math.min(now, todo.activationDeadline ?? now));
+
+  if (policy === 'graveyard') {
+    return {
+      ...paused,
+      status: 'graveyard',
+      resolvedAt: now,
+      isActivated: false
+    };
+  }
+
+  if (policy === 'carry-over') {
+    return {
+      ...paused,
+      activationDeadline: getDayDeadline(now, boundary),
+      multiplier: calculateCarryOverMultiplier(todo.multiplier, config),
+      carryOvers: (todo.carryOvers || 0) + 1
+    };
+  }
+
+  return { ...paused, isActivated: false, activationDeadline: undefined };
+}
@@ -0,0 +1,93 @@
+import { Todo, ScoringConfig } from '../types';
+import {
+  DEFAULT_SCORING,
+  calculateBlocks,
+  calculateTreeBaseBlocks,
+  calculateTreeCompletedBlocks
+} from './pointCalculations';
+import { getTaskTree } from './taskTree';
+
+// === CONSTANTS ===
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Completion velocity is measured over this many recent days (or the goal's age, if younger)
+export const FORECAST_WINDOW_DAYS = 14;
+
+// === TYPES ===
+
+export interface GoalProgress {
+  completedBlocks: number;
+  totalBlocks: number;
+  remainingBlocks: number;
+  percent: number; // 0-100, rounded down so 100 means everything is done
+}
+
+export type ForecastStatus =
+  | 'done'
+  | 'on-track' // Projected to finish by the target date
+  | 'at-risk' // Projected to finish after the target date
+  | 'overdue' // Target date has passed with work remaining
+  | 'no-velocity' // Nothing completed recently, so no projection
+  | 'no-deadline'; // Projection only
+
+export interface GoalForecast {
+  status: ForecastStatus;
+  blocksPerDay: number;
+  projectedAt?: number; // Estimated completion time at the current velocity
+}
+
+// === PROGRESS ===
+
+/**
+ * Share of a goal's subtree that is done, measured in scoring blocks (graveyard tasks excluded).
+ */
+export function calculateGoalProgress(goalId: string, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING): GoalProgress {
+  const totalBlocks = calculateTreeBaseBlocks(goalId, allTodos, config);
+  const completedBlocks = calculateTreeCompletedBlocks(goalId, allTodos, config);
+  const remainingBlocks = Math.max(0, totalBlocks - completedBlocks);
+  const percent = totalBlocks > 0 ? Math.floor((completedBlocks / totalBlocks) * 100) : 0;
+  return { completedBlocks, totalBlocks, remainingBlocks, percent };
+}
+
+/**
+ * Blocks per day completed under the goal during the forecast window.
+ */
+export function calculateGoalVelocity(goal: Todo, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING, now: number = Date.now()): number {
+  const tree = getTaskTree(allTodos);
+  const windowStart = Math.max(now - FORECAST_WINDOW_DAYS * DAY_MS, goal.createdAt);
+  const days = Math.max(1, (now - windowStart) / DAY_MS);
+
+  let blocks = 0;
+  tree.subtreeIds(goal.id).forEach(id => {
+    const todo = tree.byId.get(id);
+    if (!todo || !todo.completed || !todo.resolvedAt || todo.resolvedAt < windowStart) return;
+    // Leaves only, matching how progress is measured
+    if (tree.childrenOf(id).some(c => c.status !== 'graveyard')) return;
+    blocks += calculateBlocks(todo.durationMinutes, config) * (todo.multiplier || 1.0);
+  });
+
+  return blocks / days;
+}
+
+/**
+ * Projects when the goal will be done at its recent completion velocity and compares that with its target date.
+ */
+export function forecastGoal(goal: Todo, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING, now: number = Date.now()): GoalForecast {
+  const progress = calculateGoalProgress(goal.id, allTodos, config);
+  const blocksPerDay = calculateGoalVelocity(goal, allTodos, config, now);
+
+  if (progress.totalBlocks > 0 && progress.remainingBlocks === 0) {
+    return { status: 'done', blocksPerDay };
+  }
+
+  const projectedAt = blocksPerDay > 0 ? now + (progress.remainingBlocks / blocksPerDay) * DAY_MS : undefined;
+
+  if (!goal.targetDate) return { status: 'no-deadline', blocksPerDay, projectedAt };
+
+  // The target day counts in full
+  const deadline = goal.targetDate + DAY_MS;
+  if (now >= deadline) return { status: 'overdue', blocksPerDay, projectedAt };
+  if (projectedAt === undefined) return { status: 'no-velocity', blocksPerDay };
+  return { status: projectedAt <= deadline ? 'on-track' : 'at-risk', blocksPerDay, projectedAt };
+}
@@ -0,0 +1,176 @@
+import { ClockedRecord, valuesEqual } from './syncMerge';
+
+// Collections whose local mutations are recorded for undo/redo
+export type HistoryCollection = 'todos' | 'routines' | 'notes';
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Invertible change to one record.
+ * `before`/`after` are null when the record didn't exist on that side (creation / hard removal);
+ * otherwise they hold only the fields listed in `fields` (a missing key means the field was unset).
+ */
+export interface RecordPatch {
+  collection: HistoryCollection;
+  id: string;
+  fields: string[];
+  before: Fields | null;
+  after: Fields | null;
+}
+
+// One undoable user action (a single handler call, possibly touching several records/collections)
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: number;
+  patches: RecordPatch[];
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+// === HELPERS ===
+
+export const emptyHistory = (): HistoryState => ({ past: [], future: [] });
+
+// Clocks are sync metadata: they are re-stamped when a patch is applied, never restored
+const withoutClocks = (item: object): Fields => {
+  const { fieldClocks: _clocks, ...rest } = item as Fields;
+  return rest;
+};
+
+const pick = (item: Fields, fields: string[]): Fields => {
+  const out: Fields = {};
+  fields.forEach(key => {
+    if (item[key] !== undefined) out[key] = item[key];
+  });
+  return out;
+};
+
+// === RECORDING ===
+
+/**
+ * Diffs two versions of a collection into per-record patches holding only the changed fields.
+ * Records whose reference didn't change are skipped.
+ */
+export function diffRecords<T extends ClockedRecord>(collection: HistoryCollection, prev: T[], next: T[]): RecordPatch[] {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  const patches: RecordPatch[] = [];
+
+  next.forEach(item => {
+    const before = prevById.get(item.id);
+    if (before === item) return;
+
+    const after = withoutClocks(item);
+    if (!before) {
+      patches.push({ collection, id: item.id, fields: Object.keys(after), before: null, after });
+      return;
+    }
+
+    const old = withoutClocks(before);
+    const fields = Array.from(new Set([...Object.keys(old), ...Object.keys(after)]))
+      .filter(key => !valuesEqual(old[key], after[key]));
+    if (fields.length > 0) {
+      patches.push({ collection, id: item.id, fields, before: pick(old, fields), after: pick(after, fields) });
+    }
+  });
+
+  prev.forEach(item => {
+    if (nextIds.has(item.id)) return;
+    const before = withoutClocks(item);
+    patches.push({ collection, id: item.id, fields: Object.keys(before), before, after: null });
+  });
+
+  return patches;
+}
+
+/**
+ * Folds new patches into an action's existing ones, so several updates to the same record within
+ * one action collapse into a single step (first `before`, last `after`).
+ * Re-applying an identical patch (Strict Mode double-invoked updaters) is a no-op.
+ */
+export function combinePatches(existing: RecordPatch[], incoming: RecordPatch[]): RecordPatch[] {
+  const result = [...existing];
+
+  incoming.forEach(patch => {
+    const index = result.findIndex(p => p.collection === patch.collection && p.id === patch.id);
+    if (index === -1) {
+      result.push(patch);
+      return;
+    }
+
+    const first = result[index];
+    if (valuesEqual(first, patch)) return;
+
+    // Each field keeps the value from before the action's first touch and after its last one.
+    // A creation followed by edits is still a creation; a hard removal replaces whatever came before.
+    const fields = Array.from(new Set([...first.fields, ...patch.fields]));
+    const side = (primary: RecordPatch, fallback: RecordPatch, which: 'before' | 'after'): Fields => {
+      const out: Fields = {};
+      fields.forEach(key => {
+        const from = (primary.fields.includes(key) ? primary[which] : fallback[which]) || {};
+        if (from[key] !== undefined) out[key] = from[key];
+      });
+      return out;
+    };
+    const before = first.before === null ? null : side(first, patch, 'before');
+    const after = patch.after === null ? null : side(patch, first, 'after');
+
+    result[index] = { collection: patch.collection, id: patch.id, fields, before, after };
+  });
+
+  return result;
+}
+
+// === APPLYING ===
+
+/**
+ * Applies one collection's patches from an entry, in the given direction.
+ * Only the fields the action touched are reverted, so unrelated edits made since (locally or from
+ * another device) are kept. Returns the original array when the entry doesn't touch this collection.
+ */
+export function applyPatches<T extends ClockedRecord>(
+  items: T[],
+  patches: RecordPatch[],
+  collection: HistoryCollection,
+  direction: HistoryDirection
+): T[] {
+  const relevant = patches.filter(p => p.collection === collection);
+  if (relevant.length === 0) return items;
+
+  let next = [...items];
+  relevant.forEach(patch => {
+    const target = direction === 'undo' ? patch.before : patch.after;
+    const source = direction === 'undo' ? patch.after : patch.before;
+    const index = next.findIndex(item => item.id === patch.id);
+    const current = index === -1 ? undefined : next[index];
+
+    if (target === null) {
+      next = next.filter(item => item.id !== patch.id);
+      return;
+    }
+
+    if (source === null || !current) {
+      // Re-creating a record: only possible when the patch carries the whole record
+      if (source !== null) return;
+      const record = { ...target, fieldClocks: current?.fieldClocks } as unknown as T;
+      if (current) next[index] = record;
+      else next = [record, ...next];
+      return;
+    }
+
+    const updated: Fields = { ...(current as unknown as Fields) };
+    patch.fields.forEach(key => {
+      if (key in target) updated[key] = target[key];
+      else delete updated[key];
+    });
+    next[index] = updated as T;
+  });
+
+  return next;
+}
@@ -0,0 +1,361 @@
+import { Todo, Routine } from '../types';
+import { ScheduleRule, toDateKey, parseDateKey, occursOn, nextOccurrences, isScheduleValid, describeSchedule } from './schedule';
+import { getBlockMinutes } from './timeline';
+import { DayBoundary, getDayKey, getDayStart, getRoutineAnchor, getZonedTime, shiftDayKey } from './dayBoundary';
+
+// iCalendar (RFC 5545) export: Today's activated tasks up to their deadlines, goal target dates as all-day
+// events, and routines as all-day recurring events whose RRULE mirrors the rules in schedule.ts.
+// UIDs are derived from record ids, so a calendar subscribed to the file updates events instead of duplicating them.
+// Import reads the VEVENTs of a calendar file back (first occurrence only for recurring ones) for turning into tasks.
+
+// === CONSTANTS ===
+
+const PRODUCT_ID = '-//North Star//Goals//EN';
+const CALENDAR_NAME = 'North Star';
+const UID_DOMAIN = 'northstar';
+
+// RRULE weekday codes, Sunday first like Date.getDay()
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Content lines are folded past 75 octets of UTF-8 (a continuation line's leading space included)
+const FOLD_OCTETS = 75;
+
+// === FORMATTING ===
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Escapes TEXT values (backslash, semicolon, comma, newline).
+ */
+export const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * UTC date-time, e.g. 20250301T143000Z.
+ */
+export const formatDateTime = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+// Calendar day (YYYY-MM-DD key) as a DATE value, e.g. 20250301
+const formatDate = (dayKey: string) => dayKey.replace(/-/g, '');
+
+const utf8Length = (codePoint: number) => codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+// Folds between code points, so a multi-byte character (or a surrogate pair) is never split
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char.codePointAt(0) as number);
+    const limit = parts.length === 0 ? FOLD_OCTETS : FOLD_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// === RECURRENCE ===
+
+// BYMONTHDAY for a day-of-month rule; past the 28th the last existing day of the set falls back like matchesDayOfMonth
+const monthDayRule = (dayOfMonth: number | undefined) => {
+  const day = dayOfMonth || 1;
+  if (day <= 28) return `BYMONTHDAY=${day}`;
+  const days = Array.from({ length: day - 27 }, (_, i) => 28 + i);
+  return `BYMONTHDAY=${days.join(',')};BYSETPOS=-1`;
+};
+
+/**
+ * RRULE value for a routine's schedule, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;WKST=MO".
+ * Weekly intervals count whole weeks from the first occurrence, starting on Monday as in schedule.ts.
+ */
+export function toRecurrenceRule(rule: ScheduleRule): string {
+  const interval = rule.frequency === 'biweekly' ? 2 : Math.max(1, Math.floor(rule.interval || 1));
+
+  switch (rule.frequency) {
+    case 'daily':
+      return `FREQ=DAILY;INTERVAL=${interval}`;
+    case 'weekdays':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'weekly':
+    case 'biweekly': {
+      const days = [...rule.daysOfWeek].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(d => ICS_WEEKDAYS[d]);
+      return `FREQ=WEEKLY;INTERVAL=${interval};BYDAY=${days.join(',')};WKST=MO`;
+    }
+    case 'monthly':
+      if (rule.monthlyRule === 'last-day') return 'FREQ=MONTHLY;BYMONTHDAY=-1';
+      if (rule.monthlyRule === 'nth-weekday') return `FREQ=MONTHLY;BYDAY=${rule.weekOfMonth === -1 ? -1 : rule.weekOfMonth || 1}${ICS_WEEKDAYS[rule.daysOfWeek[0]]}`;
+      return `FREQ=MONTHLY;${monthDayRule(rule.dayOfMonth)}`;
+    case 'yearly':
+      return `FREQ=YEARLY;BYMONTH=${(rule.monthOfYear ?? 0) + 1};${monthDayRule(rule.dayOfMonth)}`;
+    default:
+      return '';
+  }
+}
+
+// === EVENTS ===
+
+type Property = [name: string, value: string | undefined];
+
+const buildEvent = (properties: Property[]): string[] => [
+  'BEGIN:VEVENT',
+  ...properties.filter(([, value]) => value !== undefined).map(([name, value]) => foldLine(`${name}:${value}`)),
+  'END:VEVENT'
+];
+
+const uidOf = (kind: string, id: string) => `${kind}-${id}@${UID_DOMAIN}`;
+
+/**
+ * Activated, open tasks: their time block when scheduled on the timeline, otherwise their estimate
+ * (or a moment) leading up to the activation deadline.
+ */
+function taskEvents(todos: Todo[], stamp: string): string[][] {
+  return todos
+    .filter(t => !t.deletedAt && t.status === 'active' && !t.completed && t.isActivated && t.activationDeadline)
+    .map(t => {
+      const deadline = t.activationDeadline as number;
+      const isScheduled = t.scheduledAt !== undefined && t.scheduledAt < deadline;
+      const start = isScheduled ? t.scheduledAt as number : deadline - (t.durationMinutes || 0) * 60 * 1000;
+      const end = isScheduled ? start + getBlockMinutes(t) * 60 * 1000 : deadline;
+      return buildEvent([
+        ['UID', uidOf('task', t.id)],
+        ['DTSTAMP', stamp],
+        ['DTSTART', formatDateTime(start)],
+        ['DTEND', formatDateTime(end)],
+        ['SUMMARY', escapeText(t.text)],
+        ['DESCRIPTION', escapeText([`Expires ${new Date(deadline).toLocaleString()}`, t.description].filter(Boolean).join('\n'))],
+        ['CATEGORIES', t.customLabel ? escapeText(t.customLabel) : undefined]
+      ]);
+    });
+}
+
+/**
+ * Goals still in play with a target date, as all-day events on that day.
+ */
+function goalEvents(todos: Todo[], stamp: string): string[][] {
+  return todos
+    .filter(t => !t.deletedAt && t.label === 'goal' && t.status === 'active' && !t.completed && !t.retirement && t.targetDate)
+    .map(t => {
+      const day = toDateKey(new Date(t.targetDate as number));
+      return buildEvent([
+        ['UID', uidOf('goal', t.id)],
+        ['DTSTAMP', stamp],
+        ['DTSTART;VALUE=DATE', formatDate(day)],
+        ['DTEND;VALUE=DATE', formatDate(shiftDayKey(day, 1))],
+        ['SUMMARY', escapeText(`Goal due: ${t.text}`)],
+        ['DESCRIPTION', t.description ? escapeText(t.description) : undefined],
+        ['TRANSP', 'TRANSPARENT']
+      ]);
+    });
+}
+
+// Occurrences falling in the routine's vacation, left out of the series
+const vacationExceptions = (routine: Routine, anchor: number): string[] => {
+  if (!routine.vacation) return [];
+  const dates: string[] = [];
+  for (let key = routine.vacation.start; key <= routine.vacation.end; key = shiftDayKey(key, 1)) {
+    if (occursOn(routine, parseDateKey(key), anchor)) dates.push(formatDate(key));
+  }
+  return dates;
+};
+
+/**
+ * Running routines as all-day recurring events from their first occurrence (paused ones are left out).
+ */
+function routineEvents(routines: Routine[], boundary: DayBoundary, stamp: string): string[][] {
+  return routines
+    .filter(r => !r.deletedAt && !r.pausedAt && isScheduleValid(r))
+    .flatMap(r => {
+      const anchor = getRoutineAnchor(r.createdAt, boundary);
+      const [first] = nextOccurrences(r, anchor, new Date(anchor), 1);
+      if (!first) return [];
+      const day = toDateKey(first);
+      const exceptions = vacationExceptions(r, anchor);
+      return [buildEvent([
+        ['UID', uidOf('routine', r.id)],
+        ['DTSTAMP', stamp],
+        ['DTSTART;VALUE=DATE', formatDate(day)],
+        ['DTEND;VALUE=DATE', formatDate(shiftDayKey(day, 1))],
+        ['RRULE', toRecurrenceRule(r)],
+        ['EXDATE;VALUE=DATE', exceptions.length > 0 ? exceptions.join(',') : undefined],
+        ['SUMMARY', escapeText(r.title)],
+        ['DESCRIPTION', escapeText(`Routine · ${describeSchedule(r)}`)],
+        ['CATEGORIES', r.label ? escapeText(r.label) : undefined],
+        ['TRANSP', 'TRANSPARENT']
+      ])];
+    });
+}
+
+// === EXPORT ===
+
+/**
+ * The whole calendar as an .ics document (CRLF line endings).
+ */
+export function createCalendar(data: { todos: Todo[]; routines: Routine[] }, boundary: DayBoundary, now: number = Date.now()): string {
+  const stamp = formatDateTime(now);
+  const events = [
+    ...taskEvents(data.todos, stamp),
+    ...goalEvents(data.todos, stamp),
+    ...routineEvents(data.routines, boundary, stamp)
+  ];
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`,
+    ...events.flat(),
+    'END:VCALENDAR',
+    ''
+  ].join('\r\n');
+}
+
+// === IMPORT ===
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: number;
+  end: number;
+  allDay: boolean; // Date-only event (start is local midnight)
+  recurring: boolean; // Has an RRULE; only its first occurrence is read
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Reverses escapeText.
+ */
+export const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE (the value starts at the first colon outside quotes)
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(p => {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// DATE (all-day, local midnight), UTC DATE-TIME (…Z), zoned DATE-TIME (TZID) or floating DATE-TIME (device time)
+const parseDateValue = (line: ContentLine): { time: number; allDay: boolean } | null => {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, sec, utc] = match;
+  const [year, month, day] = [Number(y), Number(mo) - 1, Number(d)];
+  if (h === undefined || line.params.VALUE === 'DATE') return { time: new Date(year, month, day).getTime(), allDay: true };
+  const [hour, minute, second] = [Number(h), Number(mi), Number(sec)];
+  if (utc) return { time: Date.UTC(year, month, day, hour, minute, second), allDay: false };
+  return { time: getZonedTime(year, month, day, hour, minute, second, line.params.TZID), allDay: false };
+};
+
+// DURATION, e.g. PT1H30M or P1D (milliseconds)
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^[+-]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [w, d, h, m, sec] = match.slice(1).map(n => Number(n || 0));
+  return ((((w * 7 + d) * 24 + h) * 60 + m) * 60 + sec) * 1000;
+};
+
+const toEvent = (lines: ContentLine[]): CalendarEvent | null => {
+  const get = (name: string) => lines.find(l => l.name === name);
+  const start = get('DTSTART') && parseDateValue(get('DTSTART') as ContentLine);
+  // Cancelled events and edited instances of a recurring event (same UID as the series) are left out
+  if (!start || get('STATUS')?.value.toUpperCase() === 'CANCELLED' || get('RECURRENCE-ID')) return null;
+
+  const endLine = get('DTEND');
+  const parsedEnd = endLine && parseDateValue(endLine);
+  const duration = get('DURATION') && parseDuration((get('DURATION') as ContentLine).value);
+  const end = parsedEnd ? parsedEnd.time
+    : duration !== undefined && duration !== null ? start.time + duration
+    : start.allDay ? start.time + 24 * 60 * 60 * 1000 : start.time;
+
+  const summary = get('SUMMARY') ? unescapeText((get('SUMMARY') as ContentLine).value).trim() : '';
+  const description = get('DESCRIPTION') ? unescapeText((get('DESCRIPTION') as ContentLine).value).trim() : '';
+  return {
+    // Without a UID the start and title identify the event between imports
+    uid: get('UID')?.value.trim() || `${start.time}-${summary}`,
+    summary: summary || 'Untitled event',
+    description: description || undefined,
+    start: start.time,
+    end: Math.max(start.time, end),
+    allDay: start.allDay,
+    recurring: !!get('RRULE')
+  };
+};
+
+/**
+ * Events of an .ics document, oldest first. Components nested in an event (alarms) are skipped.
+ */
+export function parseCalendar(text: string): CalendarEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let nested = 0;
+
+  lines.forEach(raw => {
+    const line = parseContentLine(raw);
+    if (!line) return;
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) current = [];
+      else if (current) nested++;
+    } else if (line.name === 'END') {
+      if (nested > 0) nested--;
+      else if (current && line.value.toUpperCase() === 'VEVENT') {
+        const event = toEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.push(line);
+    }
+  });
+  return events.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Day (YYYY-MM-DD) of the user's calendar the event falls on: its date for all-day events, otherwise the day its start belongs to.
+ */
+export function getEventDayKey(event: CalendarEvent, boundary: DayBoundary): string {
+  return event.allDay ? toDateKey(new Date(event.start)) : getDayKey(event.start, boundary);
+}
+
+/**
+ * Activation deadline for an event's day (its last second, like getDayDeadline).
+ */
+export function getEventDeadline(event: CalendarEvent, boundary: DayBoundary): number {
+  return getDayStart(shiftDayKey(getEventDayKey(event, boundary), 1), boundary) - 1000;
+}
+
+/**
+ * Length of a timed event in whole minutes (all-day events carry no estimate).
+ */
+export function getEventMinutes(event: CalendarEvent): number | undefined {
+  const minutes = Math.round((event.end - event.start) / (60 * 1000));
+  return !event.allDay && minutes > 0 ? minutes : undefined;
+}
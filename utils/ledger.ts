@@ -0,0 +1,161 @@
+import { Todo, PointEvent, PointEventType, ScoringConfig } from '../types';
+import {
+  getTierFromTodo,
+  calculateBlocks,
+  calculateTaskPoints,
+  calculateFailurePenalty
+} from './pointCalculations';
+
+// A score-bearing fact a todo currently asserts: "completed at", "failed at" or "bought back at"
+interface Claim {
+  type: Exclude<PointEventType, 'bonus'>;
+  at: number;
+}
+
+// === HELPERS ===
+
+const claimKey = (type: PointEventType, todoId: string, at: number) => `${type}:${todoId}:${at}`;
+
+const eventKey = (event: PointEvent) => claimKey(event.type, event.todoId, event.at);
+
+// A velocity bonus stands or falls with the completion it was paid out with
+const claimKeyOf = (event: PointEvent) =>
+  claimKey(event.type === 'bonus' ? 'completion' : event.type, event.todoId, event.at);
+
+const claimsOf = (todo: Todo): Claim[] => {
+  const claims: Claim[] = [];
+  if (todo.completed && todo.resolvedAt) {
+    claims.push({ type: 'completion', at: todo.resolvedAt });
+  } else if (todo.status === 'graveyard' && todo.resolvedAt) {
+    claims.push({ type: 'failure', at: todo.resolvedAt });
+  }
+  (todo.buybackHistory || []).forEach(b => claims.push({ type: 'buyback', at: b.timestamp }));
+  return claims;
+};
+
+/**
+ * Entries for a new claim, scored with the todo's current tier, duration and velocity.
+ * A completion of a task with a velocity multiplier pays the multiplier's surplus as a separate bonus entry;
+ * a multiplier below 1 (a carried-over task) reduces the completion itself.
+ */
+const createEvents = (todo: Todo, claim: Claim, allTodos: Todo[], scoring: ScoringConfig, occurrence: number): PointEvent[] => {
+  const tier = getTierFromTodo(todo, allTodos);
+  const tierMultiplier = scoring.tierMultipliers[tier];
+  const velocityMultiplier = todo.multiplier || 1.0;
+  const base = {
+    todoId: todo.id,
+    text: todo.text,
+    at: claim.at,
+    tier,
+    tierMultiplier,
+    velocityMultiplier,
+    blocks: calculateBlocks(todo.durationMinutes, scoring)
+  };
+  const id = (type: PointEventType) => `${claimKey(type, todo.id, claim.at)}#${occurrence}`;
+  const total = calculateTaskPoints(todo.durationMinutes, tierMultiplier, velocityMultiplier, scoring);
+
+  if (claim.type === 'buyback') {
+    const cost = todo.buybackHistory?.find(b => b.timestamp === claim.at)?.cost || 0;
+    return [{ ...base, id: id('buyback'), type: 'buyback', points: -cost }];
+  }
+  if (claim.type === 'failure') {
+    return [{ ...base, id: id('failure'), type: 'failure', points: -calculateFailurePenalty(total, scoring) }];
+  }
+
+  const earned = calculateTaskPoints(todo.durationMinutes, tierMultiplier, Math.min(1.0, velocityMultiplier), scoring);
+  const events: PointEvent[] = [{ ...base, id: id('completion'), type: 'completion', points: earned }];
+  if (total > earned) {
+    events.push({ ...base, id: id('bonus'), type: 'bonus', points: total - earned });
+  }
+  return events;
+};
+
+const reversalOf = (event: PointEvent): PointEvent => ({
+  ...event,
+  id: `${event.id}:reversal`,
+  points: -event.points,
+  reverses: event.id
+});
+
+// === RECORDING ===
+
+/**
+ * Brings the ledger in line with the current state of the given todos, appending entries only:
+ * - a completion / failure / buyback the todo shows but the ledger lacks is recorded with today's scoring;
+ * - a recorded one the todo no longer shows (undone, bought back) gets a reversal entry.
+ * Todos that disappeared (purged) are not passed in, so their history stays.
+ * Entry ids are derived from the claim, so re-running it (or another device doing the same) adds nothing.
+ * Returns the original array when nothing needs recording.
+ */
+export function reconcileLedger(ledger: PointEvent[], changed: Todo[], allTodos: Todo[], scoring: ScoringConfig): PointEvent[] {
+  if (changed.length === 0) return ledger;
+
+  const reversed = new Set(ledger.filter(e => e.reverses).map(e => e.reverses));
+  const activeByTodo = new Map<string, PointEvent[]>();
+  const activeKeys = new Set<string>();
+  const occurrences = new Map<string, number>();
+  const ids = new Set(ledger.map(e => e.id));
+
+  ledger.forEach(event => {
+    if (event.reverses) return;
+    const key = eventKey(event);
+    occurrences.set(key, (occurrences.get(key) || 0) + 1);
+    if (reversed.has(event.id)) return;
+    activeKeys.add(key);
+    activeByTodo.set(event.todoId, [...(activeByTodo.get(event.todoId) || []), event]);
+  });
+
+  const additions: PointEvent[] = [];
+  const append = (event: PointEvent) => {
+    if (ids.has(event.id)) return;
+    ids.add(event.id);
+    additions.push(event);
+  };
+
+  changed.forEach(todo => {
+    const claims = claimsOf(todo);
+    const claimed = new Set(claims.map(c => claimKey(c.type, todo.id, c.at)));
+
+    (activeByTodo.get(todo.id) || []).forEach(event => {
+      if (!claimed.has(claimKeyOf(event))) append(reversalOf(event));
+    });
+
+    claims.forEach(claim => {
+      const key = claimKey(claim.type, todo.id, claim.at);
+      if (activeKeys.has(key)) return;
+      createEvents(todo, claim, allTodos, scoring, occurrences.get(key) || 0).forEach(append);
+    });
+  });
+
+  return additions.length > 0 ? [...ledger, ...additions] : ledger;
+}
+
+/**
+ * Builds entries for every resolved todo and buyback that has none yet (one-time import of
+ * history scored before the ledger existed).
+ */
+export function backfillLedger(ledger: PointEvent[], todos: Todo[], scoring: ScoringConfig): PointEvent[] {
+  return reconcileLedger(ledger, todos, todos, scoring);
+}
+
+// === SYNC ===
+
+/**
+ * Union of two ledgers by entry id (entries are immutable, so there is nothing to merge field-wise).
+ * Returns the local array when the remote one adds nothing.
+ */
+export function mergeLedgers(local: PointEvent[], remote: PointEvent[] = []): PointEvent[] {
+  const ids = new Set(local.map(e => e.id));
+  const incoming = remote.filter(e => !ids.has(e.id));
+  return incoming.length > 0 ? [...local, ...incoming] : local;
+}
+
+// === TOTALS ===
+
+/**
+ * Net change in the number of completions / failures an entry represents (reversals count -1, bonuses 0).
+ */
+export function countDelta(event: PointEvent, type: 'completion' | 'failure'): number {
+  if (event.type !== type) return 0;
+  return event.reverses ? -1 : 1;
+}
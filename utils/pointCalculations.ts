@@ -1,15 +1,28 @@
-import { Todo } from '../types';
+import { Todo, ScoringConfig } from '../types';
+import { getTaskTree, SubtreeAggregator } from './taskTree';
 
 // === CONSTANTS ===
 
-export const TIER_MULTIPLIERS = {
-  gold: 10,
-  silver: 8,
-  bronze: 6,
-  normal: 5
-} as const;
+export const DEFAULT_SCORING: ScoringConfig = {
+  tierMultipliers: {
+    gold: 10,
+    silver: 8,
+    bronze: 6,
+    normal: 5
+  },
+  blockMinutes: 15,
+  failurePenaltyRatio: 0.5, // Reduced penalty for the Volume Over Status model
+  buybackRatio: 1.5,
+  carryOverDecay: 0.8,
+  velocity: {
+    streakStep: 4,
+    stepBonus: 0.1,
+    maxMultiplier: 1.5,
+    breakPolicy: 'reset'
+  }
+};
 
-export type Tier = keyof typeof TIER_MULTIPLIERS;
+export type Tier = keyof ScoringConfig['tierMultipliers'];
 
 export const TIER_COLORS = {
   gold: '#eab308',
@@ -25,91 +38,168 @@ export const TIER_COLORS = {
  * Returns the goalCategory of the first ancestor that is a goal, or 'normal' if none found.
  */
 export function getTierFromTodo(todo: Todo, allTodos: Todo[]): Tier {
-  let current: Todo | undefined = todo;
-
-  while (current) {
-    if (current.label === 'goal' && current.goalCategory) {
-      return current.goalCategory as Tier;
-    }
-    if (current.parentId) {
-      current = allTodos.find(t => t.id === current!.parentId);
-    } else {
-      break;
-    }
+  if (todo.label === 'goal' && todo.goalCategory) {
+    return todo.goalCategory as Tier;
   }
-  return 'normal';
+  // Ancestors come from the shared index (cached, and safe against parentId loops)
+  const tree = getTaskTree(allTodos);
+  const parent = todo.parentId ? tree.byId.get(todo.parentId) : undefined;
+  if (!parent) return 'normal';
+  const goal = [parent, ...tree.ancestorsOf(parent.id)].find(t => t.label === 'goal' && t.goalCategory);
+  return goal ? goal.goalCategory as Tier : 'normal';
 }
 
 /**
  * Gets the tier multiplier value for a given tier.
  */
-export function getTierMultiplier(tier: Tier): number {
-  return TIER_MULTIPLIERS[tier];
+export function getTierMultiplier(tier: Tier, config: ScoringConfig = DEFAULT_SCORING): number {
+  return config.tierMultipliers[tier];
+}
+
+/**
+ * Fills in defaults for any scoring field missing from an older save or a remote copy.
+ */
+export function withDefaultScoring(saved?: Partial<ScoringConfig> | null): ScoringConfig {
+  return {
+    ...DEFAULT_SCORING,
+    ...(saved || {}),
+    tierMultipliers: { ...DEFAULT_SCORING.tierMultipliers, ...(saved?.tierMultipliers || {}) },
+    velocity: { ...DEFAULT_SCORING.velocity, ...(saved?.velocity || {}) }
+  };
 }
 
 // === POINT CALCULATION ===
 
+/**
+ * Number of scoring blocks a duration covers (a task without a duration counts as one block).
+ */
+export function calculateBlocks(durationMinutes: number | undefined, config: ScoringConfig = DEFAULT_SCORING): number {
+  const mins = durationMinutes || config.blockMinutes;
+  return Math.ceil(mins / config.blockMinutes);
+}
+
 /**
  * Calculates points for a single task (leaf node calculation).
- * Formula: quarterHours * tierMultiplier * velocityMultiplier
+ * Formula: blocks * tierMultiplier * velocityMultiplier
  * 
- * @param durationMinutes - Duration in minutes (defaults to 15 if not set)
- * @param tierMultiplier - Tier multiplier (5-10 based on gold/silver/bronze/normal)
+ * @param durationMinutes - Duration in minutes (defaults to one block if not set)
+ * @param tierMultiplier - Tier multiplier (from the scoring config, based on gold/silver/bronze/normal)
  * @param velocityMultiplier - Velocity/streak multiplier (defaults to 1.0)
+ * @param config - Scoring rules (defaults to DEFAULT_SCORING)
  */
 export function calculateTaskPoints(
   durationMinutes: number | undefined,
   tierMultiplier: number,
-  velocityMultiplier: number = 1.0
+  velocityMultiplier: number = 1.0,
+  config: ScoringConfig = DEFAULT_SCORING
 ): number {
-  const mins = durationMinutes || 15;
-  const quarterHours = Math.ceil(mins / 15);
-  return Math.round(quarterHours * tierMultiplier * velocityMultiplier);
+  return Math.round(calculateBlocks(durationMinutes, config) * tierMultiplier * velocityMultiplier);
 }
 
 /**
  * Calculates points for a todo using its tier (determined from parent chain).
  * This is the main function for calculating a single task's points.
  */
-export function calculateTodoPoints(todo: Todo, allTodos: Todo[]): number {
+export function calculateTodoPoints(todo: Todo, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING): number {
   const tier = getTierFromTodo(todo, allTodos);
-  const tierMultiplier = TIER_MULTIPLIERS[tier];
+  const tierMultiplier = config.tierMultipliers[tier];
   const velocityMultiplier = todo.multiplier || 1.0;
   
-  return calculateTaskPoints(todo.durationMinutes, tierMultiplier, velocityMultiplier);
+  return calculateTaskPoints(todo.durationMinutes, tierMultiplier, velocityMultiplier, config);
+}
+
+/**
+ * Points deducted when a task worth `points` expires to the graveyard.
+ */
+export function calculateFailurePenalty(points: number, config: ScoringConfig = DEFAULT_SCORING): number {
+  return points * config.failurePenaltyRatio;
+}
+
+/**
+ * Cost of buying back a failed task worth `taskPoints`.
+ */
+export function calculateBuybackCost(taskPoints: number, config: ScoringConfig = DEFAULT_SCORING): number {
+  return Math.ceil(taskPoints * config.buybackRatio);
 }
 
 /**
- * Recursively calculates the total base blocks (quarter hours * velocity) for a task and all its descendants.
- * This is used for aggregating points across a task tree.
+ * Velocity multiplier attached to tasks generated by a routine with the given streak.
+ * Formula: 1 + floor(streak / streakStep) * stepBonus, capped at maxMultiplier.
+ */
+export function calculateVelocityMultiplier(streak: number, config: ScoringConfig = DEFAULT_SCORING): number {
+  const { streakStep, stepBonus, maxMultiplier } = config.velocity;
+  const steps = streakStep > 0 ? Math.floor(streak / streakStep) : 0;
+  // Round away float noise (1 + 3 * 0.1 = 1.3000000000000003)
+  const multiplier = Math.round((1 + steps * stepBonus) * 100) / 100;
+  return Math.max(1, Math.min(multiplier, maxMultiplier));
+}
+
+/**
+ * Streak left after a break (an expired routine task or a missed occurrence), per the configured policy.
+ */
+export function applyStreakBreak(streak: number, config: ScoringConfig = DEFAULT_SCORING): number {
+  switch (config.velocity.breakPolicy) {
+    case 'halve':
+      return Math.floor(streak / 2);
+    case 'step-back':
+      return Math.max(0, streak - config.velocity.streakStep);
+    default:
+      return 0;
+  }
+}
+
+// One aggregator per scoring config (and leaf filter), so the task tree can memoize block sums per config
+const baseBlockAggregators = new WeakMap<ScoringConfig, SubtreeAggregator<number>>();
+const completedBlockAggregators = new WeakMap<ScoringConfig, SubtreeAggregator<number>>();
+
+const leafBlockAggregator = (
+  cache: WeakMap<ScoringConfig, SubtreeAggregator<number>>,
+  config: ScoringConfig,
+  countsLeaf: (todo: Todo) => boolean
+): SubtreeAggregator<number> => {
+  let aggregator = cache.get(config);
+  if (!aggregator) {
+    aggregator = {
+      include: t => t.status !== 'graveyard',
+      combine: (todo, children) => {
+        // Has children: sum their blocks
+        if (children.length > 0) return children.reduce((sum, blocks) => sum + blocks, 0);
+        // Leaf node: calculate blocks from duration
+        if (!todo || !countsLeaf(todo)) return 0;
+        return calculateBlocks(todo.durationMinutes, config) * (todo.multiplier || 1.0);
+      }
+    };
+    cache.set(config, aggregator);
+  }
+  return aggregator;
+};
+
+/**
+ * Calculates the total base blocks (scoring blocks * velocity) for a task and all its descendants.
+ * This is used for aggregating points across a task tree; results are memoized per todo list.
  * 
  * @param todoId - The root todo ID to start calculation from
  * @param allTodos - All todos in the system
+ * @param config - Scoring rules (defaults to DEFAULT_SCORING)
  * @returns Total base blocks (before tier multiplication)
  */
-export function calculateTreeBaseBlocks(todoId: string, allTodos: Todo[]): number {
-  const children = allTodos.filter(t => t.parentId === todoId && t.status !== 'graveyard');
-  
-  if (children.length > 0) {
-    // Has children: recursively sum their blocks
-    return children.reduce((sum, child) => sum + calculateTreeBaseBlocks(child.id, allTodos), 0);
-  } else {
-    // Leaf node: calculate blocks from duration
-    const todo = allTodos.find(t => t.id === todoId);
-    if (!todo) return 0;
-    
-    const mins = todo.durationMinutes || 15;
-    const velocityMultiplier = todo.multiplier || 1.0;
-    return Math.ceil(mins / 15) * velocityMultiplier;
-  }
+export function calculateTreeBaseBlocks(todoId: string, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING): number {
+  return getTaskTree(allTodos).aggregate(todoId, leafBlockAggregator(baseBlockAggregators, config, () => true));
+}
+
+/**
+ * Like calculateTreeBaseBlocks, but only counts completed leaves (the done share of a tree).
+ */
+export function calculateTreeCompletedBlocks(todoId: string, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING): number {
+  return getTaskTree(allTodos).aggregate(todoId, leafBlockAggregator(completedBlockAggregators, config, t => t.completed));
 }
 
 /**
  * Calculates the total points for a task tree (parent + all descendants).
  * Used for displaying aggregate points on parent tasks.
  */
-export function calculateTreePoints(todoId: string, tierMultiplier: number, allTodos: Todo[]): number {
-  const baseBlocks = calculateTreeBaseBlocks(todoId, allTodos);
+export function calculateTreePoints(todoId: string, tierMultiplier: number, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING): number {
+  const baseBlocks = calculateTreeBaseBlocks(todoId, allTodos, config);
   return Math.round(baseBlocks * tierMultiplier);
 }
 
@@ -0,0 +1,114 @@
+import { PomodoroConfig } from '../types';
+
+// Pomodoro cycles on top of the task timer: a focus session runs the task's own timer, then a short
+// break follows (a long one after every `longBreakEvery` focus sessions). Breaks start by themselves,
+// the next focus session waits for the user.
+// The running session is device-local (like the timer's lastStartedAt it only makes sense where it runs);
+// completed focus sessions are recorded on the task as Todo.pomodoros.
+
+export type PomodoroPhase = 'focus' | 'short-break' | 'long-break';
+
+export interface PomodoroSession {
+  taskId: string;
+  phase: PomodoroPhase;
+  remaining: number; // ms left in the phase when it was last paused (the full length before it starts)
+  endsAt?: number; // Set while the phase is running
+  completedFocus: number; // Focus sessions finished since the session started
+}
+
+export const POMODORO_KEY = 'northstar_pomodoro';
+
+// === CONSTANTS ===
+
+export const DEFAULT_POMODORO: PomodoroConfig = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4
+};
+
+export const POMODORO_PHASE_LABELS: Record<PomodoroPhase, string> = {
+  'focus': 'Focus',
+  'short-break': 'Short Break',
+  'long-break': 'Long Break'
+};
+
+// === PHASES ===
+
+/**
+ * Length of a phase in ms.
+ */
+export function getPhaseLength(phase: PomodoroPhase, config: PomodoroConfig = DEFAULT_POMODORO): number {
+  const minutes = phase === 'focus' ? config.focusMinutes : phase === 'short-break' ? config.shortBreakMinutes : config.longBreakMinutes;
+  return Math.max(1, minutes) * 60 * 1000;
+}
+
+/**
+ * A new session on the task, its first focus session not started yet.
+ */
+export function createPomodoroSession(taskId: string, config: PomodoroConfig = DEFAULT_POMODORO): PomodoroSession {
+  return { taskId, phase: 'focus', remaining: getPhaseLength('focus', config), completedFocus: 0 };
+}
+
+/**
+ * Time left in the current phase.
+ */
+export function getPhaseRemaining(session: PomodoroSession, now: number = Date.now()): number {
+  return session.endsAt !== undefined ? Math.max(0, session.endsAt - now) : session.remaining;
+}
+
+export const startPhase = (session: PomodoroSession, now: number = Date.now()): PomodoroSession =>
+  session.endsAt !== undefined ? session : { ...session, endsAt: now + session.remaining };
+
+export const pausePhase = (session: PomodoroSession, now: number = Date.now()): PomodoroSession =>
+  session.endsAt === undefined ? session : { ...session, remaining: getPhaseRemaining(session, now), endsAt: undefined };
+
+/**
+ * The session after the current phase ends (or is skipped). A finished focus session counts towards
+ * the long break and its break starts right away; after a break the next focus session waits.
+ */
+export function advancePhase(
+  session: PomodoroSession,
+  finished: boolean,
+  now: number = Date.now(),
+  config: PomodoroConfig = DEFAULT_POMODORO
+): PomodoroSession {
+  if (session.phase !== 'focus') {
+    return { ...session, phase: 'focus', remaining: getPhaseLength('focus', config), endsAt: undefined };
+  }
+  const completedFocus = session.completedFocus + (finished ? 1 : 0);
+  const phase: PomodoroPhase = finished && completedFocus % Math.max(1, config.longBreakEvery) === 0 ? 'long-break' : 'short-break';
+  const remaining = getPhaseLength(phase, config);
+  // A focus session that ran out breaks from the moment it ended, not from when the tick noticed
+  const start = finished && session.endsAt !== undefined ? Math.min(now, session.endsAt) : now;
+  return { ...session, phase, completedFocus, remaining, endsAt: start + remaining };
+}
+
+/**
+ * Countdown text, e.g. "24:59".
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// === PERSISTENCE ===
+
+/**
+ * Reads the session saved on this device (null when none or unreadable).
+ */
+export const loadPomodoroSession = (): PomodoroSession | null => {
+  try {
+    const saved = localStorage.getItem(POMODORO_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const savePomodoroSession = (session: PomodoroSession | null) => {
+  if (session) localStorage.setItem(POMODORO_KEY, JSON.stringify(session));
+  else localStorage.removeItem(POMODORO_KEY);
+};
@@ -0,0 +1,95 @@
+import { Routine, Todo } from '../types';
+import { occurrencesSince, parseDateKey, isRoutineResting } from './schedule';
+import { DayBoundary, getDayKey, getRoutineAnchor } from './dayBoundary';
+
+// Per-occurrence history of a routine, reconstructed from the tasks it generated (routineId / resolvedAt)
+// and the days the generator recorded as missed.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// === TYPES ===
+
+// completed / failed (expired in the graveyard) / skipped (missed while the app was closed, never done, or its task is gone)
+// paused (due but rested: paused or on vacation) / pending (task still open)
+export type OccurrenceStatus = 'completed' | 'failed' | 'skipped' | 'paused' | 'pending';
+
+export interface RoutineOccurrence {
+  day: string; // YYYY-MM-DD
+  status: OccurrenceStatus;
+  resolvedAt?: number;
+}
+
+export interface WeekdayRate {
+  weekday: number; // 0=Sun, ..., 6=Sat
+  completed: number;
+  total: number; // Completed, failed and skipped occurrences (paused and pending ones don't count)
+  rate: number | null; // completed / total, null without any counted occurrence
+}
+
+// === HISTORY ===
+
+// Day a generated task belongs to: the day it was due (its deadline), else the day it was created
+const taskDay = (task: Todo, boundary: DayBoundary) => getDayKey(task.activationDeadline ?? task.createdAt, boundary);
+
+const statusOf = (task: Todo): OccurrenceStatus => {
+  if (task.completed) return 'completed';
+  if (task.status === 'graveyard') return 'failed';
+  if (task.status === 'archive') return 'skipped';
+  return 'pending';
+};
+
+/**
+ * Every occurrence of the routine from its creation up to the user's current day, oldest first.
+ * Days with a generated task take the task's state (even if the schedule has changed since).
+ * Scheduled days the generator settled without a task count as paused when the routine rests on them
+ * (paused, or in its vacation), otherwise as skipped (e.g. the task was purged from Trash, or the miss
+ * predates missedDates). Scheduled days the generator hasn't reached yet are left out.
+ */
+export function buildRoutineHistory(routine: Routine, todos: Todo[], boundary: DayBoundary, now: number = Date.now()): RoutineOccurrence[] {
+  const untilKey = getDayKey(now, boundary);
+  const until = parseDateKey(untilKey);
+  const byDay = new Map<string, RoutineOccurrence>();
+
+  // The routine's own task (not its checklist items); a day with several tasks shows the best outcome
+  const rank: Record<OccurrenceStatus, number> = { completed: 4, pending: 3, failed: 2, skipped: 1, paused: 0 };
+  todos.forEach(t => {
+    if (t.routineId !== routine.id) return;
+    const occurrence = { day: taskDay(t, boundary), status: statusOf(t), resolvedAt: t.resolvedAt };
+    const existing = byDay.get(occurrence.day);
+    if (!existing || rank[occurrence.status] > rank[existing.status]) byDay.set(occurrence.day, occurrence);
+  });
+
+  (routine.missedDates || []).forEach(day => {
+    if (!byDay.has(day)) byDay.set(day, { day, status: 'skipped' });
+  });
+
+  if (routine.lastGeneratedDate) {
+    const settledUntil = parseDateKey(routine.lastGeneratedDate) < until ? parseDateKey(routine.lastGeneratedDate) : until;
+    const anchor = getRoutineAnchor(routine.createdAt, boundary);
+    const lifetimeDays = Math.ceil((settledUntil.getTime() - anchor) / DAY_MS) + 1;
+    occurrencesSince(routine, anchor, undefined, settledUntil, Math.max(0, lifetimeDays)).forEach(day => {
+      if (!byDay.has(day)) byDay.set(day, { day, status: isRoutineResting(routine, day) ? 'paused' : 'skipped' });
+    });
+  }
+
+  return Array.from(byDay.values())
+    .filter(o => o.day <= untilKey)
+    .sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Completion rate per weekday, Sunday first.
+ */
+export function calculateWeekdayRates(history: RoutineOccurrence[]): WeekdayRate[] {
+  const rates: WeekdayRate[] = Array.from({ length: 7 }, (_, weekday) => ({ weekday, completed: 0, total: 0, rate: null }));
+  history.forEach(o => {
+    if (o.status === 'paused' || o.status === 'pending') return;
+    const entry = rates[parseDateKey(o.day).getDay()];
+    entry.total++;
+    if (o.status === 'completed') entry.completed++;
+  });
+  rates.forEach(entry => {
+    entry.rate = entry.total > 0 ? entry.completed / entry.total : null;
+  });
+  return rates;
+}
@@ -0,0 +1,52 @@
+import { Routine, ScoringConfig } from '../types';
+import { DEFAULT_SCORING, applyStreakBreak } from './pointCalculations';
+
+// Streak bookkeeping for routines. The streak drives the velocity multiplier of generated tasks,
+// so every path that changes it (completion, undo, expiry, missed occurrence) goes through here.
+
+/**
+ * A generated task was completed: the streak grows and may set a new record.
+ */
+export function recordRoutineCompletion(routine: Routine, at: number = Date.now()): Routine {
+  const streak = (routine.streak || 0) + 1;
+  return {
+    ...routine,
+    completedCycles: routine.completedCycles + 1,
+    streak,
+    streakStartedAt: streak === 1 || !routine.streakStartedAt ? at : routine.streakStartedAt,
+    longestStreak: Math.max(routine.longestStreak || 0, streak)
+  };
+}
+
+/**
+ * A completion was undone. The record only drops if the undone completion is what set it.
+ */
+export function revertRoutineCompletion(routine: Routine): Routine {
+  const previous = routine.streak || 0;
+  const streak = Math.max(0, previous - 1);
+  return {
+    ...routine,
+    completedCycles: Math.max(0, routine.completedCycles - 1),
+    streak,
+    streakStartedAt: streak > 0 ? routine.streakStartedAt : undefined,
+    longestStreak: routine.longestStreak === previous && previous > 0 ? streak : routine.longestStreak
+  };
+}
+
+/**
+ * Applies the configured break policy once per break (expired task or missed occurrence).
+ * The streak's start date is kept unless it falls to zero.
+ */
+export function breakRoutineStreak(routine: Routine, config: ScoringConfig = DEFAULT_SCORING, breaks: number = 1): Routine {
+  let streak = routine.streak || 0;
+  for (let i = 0; i < breaks && streak > 0; i++) {
+    streak = applyStreakBreak(streak, config);
+  }
+  if (streak === (routine.streak || 0)) return routine;
+  return {
+    ...routine,
+    streak,
+    streakStartedAt: streak > 0 ? routine.streakStartedAt : undefined,
+    longestStreak: Math.max(routine.longestStreak || 0, routine.streak || 0)
+  };
+}
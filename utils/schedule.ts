@@ -0,0 +1,212 @@
+import { Routine } from '../types';
+
+// Pure recurrence rules for routines: which local calendar days a routine fires on.
+// All day arithmetic goes through local date parts (not millisecond offsets), so DST shifts never skip or repeat a day.
+
+export type ScheduleRule = Pick<Routine, 'frequency' | 'interval' | 'daysOfWeek' | 'dayOfMonth' | 'monthlyRule' | 'weekOfMonth' | 'monthOfYear'>;
+
+// === CONSTANTS ===
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound for occurrence searches (covers a yearly Feb 29th rule)
+const SEARCH_LIMIT_DAYS = 366 * 8;
+
+// How far back catch-up looks for missed occurrences (one miss is enough to break a streak)
+export const CATCH_UP_LIMIT_DAYS = 366;
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const LONG_WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Mon-first, as the day pickers show them
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// === DATE HELPERS ===
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Local calendar day as YYYY-MM-DD (the format of Routine.lastGeneratedDate).
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Local midnight of a YYYY-MM-DD day.
+ */
+export const parseDateKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Days since the epoch for the local calendar day, immune to DST
+const dayNumber = (date: Date) => Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+
+// Day number of the Monday starting the date's week
+const weekStartNumber = (date: Date) => dayNumber(date) - ((date.getDay() + 6) % 7);
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+export const ordinal = (n: number) => {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`;
+};
+
+const intervalOf = (rule: ScheduleRule) =>
+  rule.frequency === 'biweekly' ? 2 : Math.max(1, Math.floor(rule.interval || 1));
+
+// Day-of-month rule clamped to the month's length (the 31st fires on the 30th, 29th or 28th)
+const matchesDayOfMonth = (date: Date, dayOfMonth: number | undefined) =>
+  date.getDate() === Math.min(dayOfMonth || 1, daysInMonth(date.getFullYear(), date.getMonth()));
+
+const matchesNthWeekday = (date: Date, week: number | undefined, weekday: number | undefined) => {
+  if (weekday === undefined || date.getDay() !== weekday) return false;
+  if (week === -1) return date.getDate() + 7 > daysInMonth(date.getFullYear(), date.getMonth());
+  return Math.ceil(date.getDate() / 7) === (week || 1);
+};
+
+// === RULES ===
+
+/**
+ * Whether the routine fires on the local calendar day of `date`.
+ * Interval rules count from the day (or week) of `anchor`, normally getRoutineAnchor(createdAt); nothing fires before it.
+ */
+export function occursOn(rule: ScheduleRule, date: Date, anchor: number): boolean {
+  const anchorDate = new Date(anchor);
+  if (dayNumber(date) < dayNumber(anchorDate)) return false;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return mod(dayNumber(date) - dayNumber(anchorDate), intervalOf(rule)) === 0;
+    case 'weekdays':
+      return date.getDay() >= 1 && date.getDay() <= 5;
+    case 'weekly':
+    case 'biweekly': {
+      if (!rule.daysOfWeek.includes(date.getDay())) return false;
+      const weeks = (weekStartNumber(date) - weekStartNumber(anchorDate)) / 7;
+      return mod(weeks, intervalOf(rule)) === 0;
+    }
+    case 'monthly':
+      if (rule.monthlyRule === 'last-day') return date.getDate() === daysInMonth(date.getFullYear(), date.getMonth());
+      if (rule.monthlyRule === 'nth-weekday') return matchesNthWeekday(date, rule.weekOfMonth, rule.daysOfWeek[0]);
+      return matchesDayOfMonth(date, rule.dayOfMonth);
+    case 'yearly':
+      return date.getMonth() === (rule.monthOfYear ?? 0) && matchesDayOfMonth(date, rule.dayOfMonth);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether the routine is paused, or the day (YYYY-MM-DD) falls in its vacation. Resting days generate
+ * nothing and neither count as misses nor break the streak.
+ */
+export function isRoutineResting(routine: Pick<Routine, 'pausedAt' | 'vacation'>, dayKey: string): boolean {
+  if (routine.pausedAt) return true;
+  return !!routine.vacation && dayKey >= routine.vacation.start && dayKey <= routine.vacation.end;
+}
+
+/**
+ * Whether the rule is complete enough to ever fire (e.g. a weekly rule needs at least one day).
+ */
+export function isScheduleValid(rule: ScheduleRule): boolean {
+  if (rule.frequency === 'weekly' || rule.frequency === 'biweekly') return rule.daysOfWeek.length > 0;
+  if (rule.frequency === 'monthly' && rule.monthlyRule === 'nth-weekday') return rule.daysOfWeek.length > 0;
+  return true;
+}
+
+/**
+ * The next `count` days (local midnight) the routine fires on, starting with `from`'s day.
+ */
+export function nextOccurrences(rule: ScheduleRule, anchor: number, from: Date = new Date(), count: number = 5): Date[] {
+  const dates: Date[] = [];
+  if (!isScheduleValid(rule)) return dates;
+
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  for (let i = 0; i < SEARCH_LIMIT_DAYS && dates.length < count; i++) {
+    if (occursOn(rule, day, anchor)) dates.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Days (YYYY-MM-DD, oldest first) the routine was due after `afterKey` up to and including `until`'s day.
+ * Without `afterKey` the walk starts at the anchor day; it never looks back further than `limitDays`.
+ */
+export function occurrencesSince(
+  rule: ScheduleRule,
+  anchor: number,
+  afterKey: string | undefined,
+  until: Date,
+  limitDays: number = CATCH_UP_LIMIT_DAYS
+): string[] {
+  const end = new Date(until.getFullYear(), until.getMonth(), until.getDate());
+  const earliest = new Date(end);
+  earliest.setDate(earliest.getDate() - limitDays);
+
+  const day = afterKey ? parseDateKey(afterKey) : new Date(anchor);
+  if (afterKey) day.setDate(day.getDate() + 1);
+  day.setHours(0, 0, 0, 0);
+  if (day < earliest) day.setTime(earliest.getTime());
+
+  const keys: string[] = [];
+  while (day <= end) {
+    if (occursOn(rule, day, anchor)) keys.push(toDateKey(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return keys;
+}
+
+// === DESCRIPTIONS ===
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu" or "Monthly on the last Friday".
+ */
+export function describeSchedule(rule: ScheduleRule): string {
+  const n = intervalOf(rule);
+  const days = WEEK_ORDER.filter(d => rule.daysOfWeek.includes(d)).map(d => WEEKDAY_NAMES[d]).join(', ');
+
+  switch (rule.frequency) {
+    case 'daily':
+      return n === 1 ? 'Every day' : `Every ${n} days`;
+    case 'weekdays':
+      return 'Weekdays (Mon–Fri)';
+    case 'weekly':
+    case 'biweekly':
+      return `${n === 1 ? 'Weekly' : `Every ${n} weeks`} on ${days || '—'}`;
+    case 'monthly':
+      if (rule.monthlyRule === 'last-day') return 'Monthly on the last day';
+      if (rule.monthlyRule === 'nth-weekday') {
+        const week = rule.weekOfMonth === -1 ? 'last' : ordinal(rule.weekOfMonth || 1);
+        const weekday = rule.daysOfWeek[0] !== undefined ? LONG_WEEKDAY_NAMES[rule.daysOfWeek[0]] : '—';
+        return `Monthly on the ${week} ${weekday}`;
+      }
+      return `Monthly on the ${ordinal(rule.dayOfMonth || 1)}${(rule.dayOfMonth || 1) > 28 ? ' (or last day)' : ''}`;
+    case 'yearly':
+      return `Yearly on ${MONTH_NAMES[rule.monthOfYear ?? 0]} ${rule.dayOfMonth || 1}`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Unit one completion cycle of the routine is counted in (for its commitment target).
+ */
+export function cycleUnit(rule: ScheduleRule): 'Days' | 'Weeks' | 'Months' | 'Years' {
+  switch (rule.frequency) {
+    case 'daily':
+    case 'weekdays':
+      return 'Days';
+    case 'monthly':
+      return 'Months';
+    case 'yearly':
+      return 'Years';
+    default:
+      return 'Weeks';
+  }
+}
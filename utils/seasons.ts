@@ -0,0 +1,135 @@
+import { Todo, PointEvent, Season, GoalOutcome, ScoringConfig } from '../types';
+import { DEFAULT_SCORING } from './pointCalculations';
+import { calculateGoalProgress } from './goalProgress';
+import { getTaskTree } from './taskTree';
+
+// === TYPES ===
+
+export interface HallOfFameSeason {
+  season: Season;
+  goals: Todo[]; // Gold first, then silver and bronze; newest retirement first within a tier
+  points: number;
+  completed: number;
+}
+
+const TIER_ORDER: Record<string, number> = { gold: 0, silver: 1, bronze: 2 };
+
+// === SEASONS ===
+
+const quarterOf = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return { year: d.getFullYear(), quarter: Math.floor(d.getMonth() / 3) + 1 };
+};
+
+const quarterStart = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), Math.floor(d.getMonth() / 3) * 3, 1).getTime();
+};
+
+/**
+ * A season starting at the given time, named after its calendar quarter.
+ * Ids are derived from the quarter so two devices opening the same default season agree on it.
+ */
+const createSeason = (existing: Season[], startedAt: number): Season => {
+  const { year, quarter } = quarterOf(startedAt);
+  const baseId = `${year}-Q${quarter}`;
+  const baseName = `Q${quarter} ${year}`;
+  const taken = new Set(existing.map(s => s.id));
+
+  let n = 1;
+  while (taken.has(n === 1 ? baseId : `${baseId}-${n}`)) n++;
+  return n === 1
+    ? { id: baseId, name: baseName, startedAt }
+    : { id: `${baseId}-${n}`, name: `${baseName} (${n})`, startedAt };
+};
+
+/**
+ * The season in progress: the last one that hasn't ended, or (before any season was saved)
+ * one covering the current calendar quarter.
+ */
+export function getCurrentSeason(seasons: Season[], now: number = Date.now()): Season {
+  const open = [...seasons].reverse().find(s => !s.endedAt);
+  return open || createSeason(seasons, seasons.length > 0 ? now : quarterStart(now));
+}
+
+/**
+ * Season list that includes the given season (the implicit default one is only saved once used).
+ */
+export function withSeason(seasons: Season[], season: Season): Season[] {
+  return seasons.some(s => s.id === season.id) ? seasons : [...seasons, season];
+}
+
+/**
+ * Ends the current season and opens the next one. Returns both so the caller can retire goals into the old one.
+ */
+export function startNewSeason(seasons: Season[], now: number = Date.now()): { seasons: Season[]; ended: Season; started: Season } {
+  const current = getCurrentSeason(seasons, now);
+  const ended = { ...current, endedAt: now };
+  const closed = [...seasons.filter(s => s.id !== current.id), ended];
+  const started = createSeason(closed, now);
+  return { seasons: [...closed, started], ended, started };
+}
+
+// === GOALS ===
+
+/**
+ * Whether a todo is a retired goal or sits anywhere below one.
+ */
+export function isInRetiredGoal(todoId: string, allTodos: Todo[]): boolean {
+  const tree = getTaskTree(allTodos);
+  const todo = tree.byId.get(todoId);
+  if (!todo) return false;
+  return [todo, ...tree.ancestorsOf(todoId)].some(t => !!t.retirement);
+}
+
+/**
+ * Net ledger points of a goal's subtree (earnings minus penalties, buybacks and reversals).
+ */
+export function calculateGoalPoints(goalId: string, allTodos: Todo[], ledger: PointEvent[]): number {
+  const ids = getTaskTree(allTodos).subtreeIds(goalId);
+  return ledger.reduce((sum, event) => ids.has(event.todoId) ? sum + event.points : sum, 0);
+}
+
+/**
+ * Outcome a goal retires with by default: completed once every block of its subtree is done.
+ */
+export function suggestOutcome(goalId: string, allTodos: Todo[], config: ScoringConfig = DEFAULT_SCORING): GoalOutcome {
+  const progress = calculateGoalProgress(goalId, allTodos, config);
+  return progress.totalBlocks > 0 && progress.remainingBlocks === 0 ? 'completed' : 'retired';
+}
+
+// === HALL OF FAME ===
+
+/**
+ * Retired goals grouped by season, most recent season first.
+ * Seasons not (yet) known locally, e.g. before settings have synced, are listed under their id.
+ */
+export function buildHallOfFame(todos: Todo[], seasons: Season[]): HallOfFameSeason[] {
+  const groups = new Map<string, Todo[]>();
+  todos.forEach(t => {
+    if (!t.retirement || t.label !== 'goal') return;
+    groups.set(t.retirement.seasonId, [...(groups.get(t.retirement.seasonId) || []), t]);
+  });
+
+  const known = new Map(seasons.map(s => [s.id, s]));
+
+  return Array.from(groups.entries())
+    .map(([seasonId, goals]) => {
+      const season = known.get(seasonId) || {
+        id: seasonId,
+        name: seasonId,
+        startedAt: Math.min(...goals.map(g => g.retirement!.at))
+      };
+      const sorted = [...goals].sort((a, b) =>
+        (TIER_ORDER[a.goalCategory || ''] ?? 3) - (TIER_ORDER[b.goalCategory || ''] ?? 3) ||
+        b.retirement!.at - a.retirement!.at
+      );
+      return {
+        season,
+        goals: sorted,
+        points: goals.reduce((sum, g) => sum + g.retirement!.points, 0),
+        completed: goals.filter(g => g.retirement!.outcome === 'completed').length
+      };
+    })
+    .sort((a, b) => b.season.startedAt - a.season.startedAt);
+}
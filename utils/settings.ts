@@ -0,0 +1,44 @@
+import { AppSettings } from '../types';
+import { DEFAULT_SCORING, withDefaultScoring } from './pointCalculations';
+import { DEFAULT_POMODORO } from './pomodoro';
+import { DEFAULT_DAILY_CAPACITY } from './capacity';
+
+export const SETTINGS_KEY = 'northstar_settings';
+
+// === DEFAULTS ===
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  trashRetentionDays: 30,
+  scoring: DEFAULT_SCORING,
+  seasons: [],
+  dayEndHour: 0,
+  timeZone: '',
+  pomodoro: DEFAULT_POMODORO,
+  dailyCapacity: DEFAULT_DAILY_CAPACITY
+};
+
+// Choices offered in SettingsView for how long deleted items stay in Trash
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 90];
+
+/**
+ * Fills in defaults for any field missing from an older save or a remote copy.
+ */
+export const withDefaultSettings = (saved?: Partial<AppSettings> | null): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...(saved || {}),
+  scoring: withDefaultScoring(saved?.scoring),
+  pomodoro: { ...DEFAULT_POMODORO, ...(saved?.pomodoro || {}) },
+  dailyCapacity: Array.isArray(saved?.dailyCapacity) && saved.dailyCapacity.length === 7 ? saved.dailyCapacity : DEFAULT_DAILY_CAPACITY
+});
+
+/**
+ * Reads the locally saved settings (defaults when missing or unreadable).
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return withDefaultSettings(saved ? JSON.parse(saved) : null);
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+};
@@ -0,0 +1,178 @@
+import { FieldClocks, Tombstones } from '../types';
+
+// Any synced record: identified by id, carrying per-field modification clocks
+export interface ClockedRecord {
+  id: string;
+  fieldClocks?: FieldClocks;
+}
+
+// === HELPERS ===
+
+export const emptyTombstones = (): Tombstones => ({ todos: {}, routines: {}, notes: {} });
+
+const dataKeys = (item: object): string[] => Object.keys(item).filter(k => k !== 'fieldClocks');
+
+// Deep equality for plain JSON data (key order insensitive, undefined keys ignored)
+export const valuesEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => valuesEqual(v, b[i]));
+  }
+  const ao = a as Record<string, unknown>;
+  const bo = b as Record<string, unknown>;
+  const aKeys = Object.keys(ao).filter(k => ao[k] !== undefined);
+  const bKeys = Object.keys(bo).filter(k => bo[k] !== undefined);
+  return aKeys.length === bKeys.length && aKeys.every(k => valuesEqual(ao[k], bo[k]));
+};
+
+// === STAMPING (LOCAL EDITS) ===
+
+/**
+ * Stamps every field that differs between two versions of a single record with `now`.
+ * A missing previous version means the record is new, so all of its fields are stamped.
+ */
+export function stampRecord<T extends { fieldClocks?: FieldClocks }>(before: T | undefined, item: T, now: number = Date.now()): T {
+  if (before === item) return item;
+
+  const clocks: FieldClocks = { ...(before?.fieldClocks || {}), ...(item.fieldClocks || {}) };
+  let stamped = false;
+  const keys = new Set([...dataKeys(item), ...(before ? dataKeys(before) : [])]);
+
+  keys.forEach(key => {
+    const nextValue = (item as Record<string, unknown>)[key];
+    const prevValue = before ? (before as Record<string, unknown>)[key] : undefined;
+    if (!before || !valuesEqual(nextValue, prevValue)) {
+      clocks[key] = now;
+      stamped = true;
+    }
+  });
+
+  return stamped ? { ...item, fieldClocks: clocks } : item;
+}
+
+/**
+ * Stamps every changed field of every record between the previous and next list (see stampRecord).
+ * Records whose reference didn't change are skipped.
+ *
+ * @returns The stamped records plus the ids that disappeared (to be recorded as tombstones)
+ */
+export function stampChanges<T extends ClockedRecord>(
+  prev: T[],
+  next: T[],
+  now: number = Date.now()
+): { items: T[]; removedIds: string[] } {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const items = next.map(item => stampRecord(prevById.get(item.id), item, now));
+
+  const nextIds = new Set(next.map(item => item.id));
+  const removedIds = prev.filter(item => !nextIds.has(item.id)).map(item => item.id);
+
+  return { items, removedIds };
+}
+
+// === MERGING (LOCAL + REMOTE) ===
+
+/**
+ * Merges two versions of the same record field-by-field.
+ * Each field takes the value with the newer clock; ties are broken deterministically
+ * (by serialized value) so every device converges on the same result.
+ */
+export function mergeRecord<T extends { fieldClocks?: FieldClocks }>(local: T, remote: T): T {
+  const localClocks = local.fieldClocks || {};
+  const remoteClocks = remote.fieldClocks || {};
+  const merged: Record<string, unknown> = {};
+  const clocks: FieldClocks = {};
+
+  const keys = new Set([
+    ...dataKeys(local), ...dataKeys(remote),
+    ...Object.keys(localClocks), ...Object.keys(remoteClocks)
+  ]);
+
+  keys.forEach(key => {
+    const localValue = (local as Record<string, unknown>)[key];
+    const remoteValue = (remote as Record<string, unknown>)[key];
+    const lc = localClocks[key] ?? 0;
+    const rc = remoteClocks[key] ?? 0;
+
+    let value: unknown;
+    if (lc > rc) value = localValue;
+    else if (rc > lc) value = remoteValue;
+    else value = JSON.stringify(localValue ?? null) >= JSON.stringify(remoteValue ?? null) ? localValue : remoteValue;
+
+    if (value !== undefined) merged[key] = value;
+    const clock = Math.max(lc, rc);
+    if (clock > 0) clocks[key] = clock;
+  });
+
+  if (Object.keys(clocks).length > 0) merged.fieldClocks = clocks;
+  return merged as unknown as T;
+}
+
+// Latest modification time across all of a record's fields
+const lastModified = (item: ClockedRecord): number =>
+  Math.max(0, ...Object.values(item.fieldClocks || {}));
+
+// A tombstone only applies to versions of the record that were last edited before the deletion,
+// so re-creating a record (e.g. redo after undoing its creation) wins over the older tombstone.
+const isDeleted = (item: ClockedRecord, deleted: Record<string, number>): boolean =>
+  deleted[item.id] !== undefined && lastModified(item) <= deleted[item.id];
+
+/**
+ * Merges local and remote record lists by id, field-by-field, dropping anything tombstoned.
+ * Local ordering is preserved; remote-only records are appended.
+ * Returns the original `local` array when the merge changes nothing.
+ */
+export function mergeRecords<T extends ClockedRecord>(
+  local: T[],
+  remote: T[],
+  deleted: Record<string, number> = {}
+): T[] {
+  const remoteById = new Map(remote.map(item => [item.id, item]));
+  const localIds = new Set(local.map(item => item.id));
+  let changed = false;
+
+  const merged: T[] = [];
+  local.forEach(item => {
+    const remoteItem = remoteById.get(item.id);
+    const result = remoteItem ? mergeRecord(item, remoteItem) : item;
+    if (isDeleted(result, deleted)) {
+      changed = true;
+      return;
+    }
+    if (result === item || valuesEqual(result, item)) {
+      merged.push(item);
+    } else {
+      changed = true;
+      merged.push(result);
+    }
+  });
+
+  remote.forEach(item => {
+    if (localIds.has(item.id) || isDeleted(item, deleted)) return;
+    changed = true;
+    merged.push(item);
+  });
+
+  return changed ? merged : local;
+}
+
+/**
+ * Unions two tombstone sets, keeping the latest deletion time per id
+ * (a record deleted, re-created and deleted again must stay deleted).
+ */
+export function mergeTombstones(a: Tombstones, b?: Partial<Tombstones> | null): Tombstones {
+  const mergeMap = (x: Record<string, number> = {}, y: Record<string, number> = {}) => {
+    const out = { ...x };
+    Object.entries(y).forEach(([id, ts]) => {
+      out[id] = out[id] !== undefined ? Math.max(out[id], ts) : ts;
+    });
+    return out;
+  };
+  return {
+    todos: mergeMap(a.todos, b?.todos),
+    routines: mergeMap(a.routines, b?.routines),
+    notes: mergeMap(a.notes, b?.notes)
+  };
+}
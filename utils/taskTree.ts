@@ -0,0 +1,157 @@
+import { Todo } from '../types';
+
+// Shared index over a todo list: children by parent, cached ancestor chains and memoized subtree folds.
+// Built once per list (see getTaskTree) so every view walking the hierarchy shares the same lookups.
+// All walks are cycle-safe: a parentId loop (e.g. from a bad sync merge) is cut where it repeats.
+
+/**
+ * Post-order fold over a subtree. Keep aggregators stable (module-level or memoized):
+ * results are cached per aggregator object for the lifetime of the index.
+ */
+export interface SubtreeAggregator<T> {
+  include?: (todo: Todo) => boolean; // Children to descend into (default: all)
+  combine: (todo: Todo | undefined, children: T[]) => T; // todo is undefined for an unknown id
+}
+
+export interface TaskTree {
+  byId: Map<string, Todo>;
+  childrenOf: (id: string) => Todo[];
+  // Parent first, root last. Stops early when the chain loops back on itself.
+  ancestorsOf: (id: string) => Todo[];
+  depthOf: (id: string) => number;
+  isDescendantOf: (id: string, ancestorId: string) => boolean;
+  // The root and everything below it
+  subtreeIds: (rootId: string) => Set<string>;
+  aggregate: <T>(id: string, aggregator: SubtreeAggregator<T>) => T;
+  // Ids whose parent chain loops
+  cyclicIds: Set<string>;
+}
+
+const NO_CHILDREN: Todo[] = [];
+
+// === BUILDING ===
+
+/**
+ * Indexes a todo list. Prefer getTaskTree, which reuses the index for the same array.
+ */
+export function buildTaskTree(todos: Todo[]): TaskTree {
+  const byId = new Map<string, Todo>();
+  const children = new Map<string, Todo[]>();
+
+  todos.forEach(t => {
+    byId.set(t.id, t);
+    if (t.parentId) {
+      const siblings = children.get(t.parentId);
+      if (siblings) siblings.push(t);
+      else children.set(t.parentId, [t]);
+    }
+  });
+
+  const childrenOf = (id: string) => children.get(id) || NO_CHILDREN;
+
+  const ancestorCache = new Map<string, Todo[]>();
+  const cyclicIds = new Set<string>();
+
+  const ancestorsOf = (id: string): Todo[] => {
+    const cached = ancestorCache.get(id);
+    if (cached) return cached;
+
+    const chain: Todo[] = [];
+    const seen = new Set<string>([id]);
+    let parentId = byId.get(id)?.parentId;
+    while (parentId) {
+      if (seen.has(parentId)) {
+        cyclicIds.add(id);
+        break;
+      }
+      seen.add(parentId);
+      const parent = byId.get(parentId);
+      if (!parent) break;
+      chain.push(parent);
+      parentId = parent.parentId;
+    }
+
+    ancestorCache.set(id, chain);
+    return chain;
+  };
+
+  // Detect loops up front so cyclicIds is complete
+  todos.forEach(t => ancestorsOf(t.id));
+
+  const isDescendantOf = (id: string, ancestorId: string) =>
+    id === ancestorId || ancestorsOf(id).some(a => a.id === ancestorId);
+
+  const subtreeIds = (rootId: string): Set<string> => {
+    const ids = new Set<string>([rootId]);
+    const stack = [rootId];
+    while (stack.length > 0) {
+      childrenOf(stack.pop()!).forEach(child => {
+        if (ids.has(child.id)) return;
+        ids.add(child.id);
+        stack.push(child.id);
+      });
+    }
+    return ids;
+  };
+
+  const aggregateCaches = new WeakMap<object, Map<string, unknown>>();
+
+  const aggregate = <T>(id: string, aggregator: SubtreeAggregator<T>): T => {
+    let cache = aggregateCaches.get(aggregator) as Map<string, T> | undefined;
+    if (!cache) {
+      cache = new Map();
+      aggregateCaches.set(aggregator, cache);
+    }
+    const results = cache;
+    const onPath = new Set<string>();
+
+    // Returns the value and whether the subtree reached a back edge (a loop): such values depend on
+    // where the walk entered the loop, so neither the back-edge node nor anything built on it is cached
+    const visit = (nodeId: string): { value: T; tainted: boolean } => {
+      const cached = results.get(nodeId);
+      if (cached !== undefined) return { value: cached, tainted: false };
+
+      const todo = byId.get(nodeId);
+      // Back edge of a loop: fold the node as a leaf
+      if (onPath.has(nodeId)) return { value: aggregator.combine(todo, []), tainted: true };
+
+      onPath.add(nodeId);
+      const included = aggregator.include ? childrenOf(nodeId).filter(aggregator.include) : childrenOf(nodeId);
+      const children = included.map(child => visit(child.id));
+      const value = aggregator.combine(todo, children.map(c => c.value));
+      const tainted = children.some(c => c.tainted);
+      onPath.delete(nodeId);
+
+      if (!tainted) results.set(nodeId, value);
+      return { value, tainted };
+    };
+
+    return visit(id).value;
+  };
+
+  return {
+    byId,
+    childrenOf,
+    ancestorsOf,
+    depthOf: (id) => ancestorsOf(id).length,
+    isDescendantOf,
+    subtreeIds,
+    aggregate,
+    cyclicIds
+  };
+}
+
+const treeCache = new WeakMap<Todo[], TaskTree>();
+
+/**
+ * Index for a todo list, built on first use and reused for as long as the array itself is
+ * (state arrays are replaced on every change, so the index never goes stale).
+ */
+export function getTaskTree(todos: Todo[]): TaskTree {
+  let tree = treeCache.get(todos);
+  if (!tree) {
+    tree = buildTaskTree(todos);
+    treeCache.set(todos, tree);
+  }
+  return tree;
+}
@@ -0,0 +1,120 @@
+import { Todo } from '../types';
+import { getTierFromTodo } from './pointCalculations';
+
+// The task timer counts remainingTime down from the estimate (durationMinutes) and keeps going past zero
+// (overtime, as negative remainingTime). Every run, from start to pause, is logged in timeSessions,
+// so the time actually spent survives resets and completion.
+
+// === TIMER ===
+
+/**
+ * Starts the task's timer at `at` (no-op when it already runs).
+ */
+export function startTimer(todo: Todo, at: number): Todo {
+  return todo.isPlaying ? todo : { ...todo, isPlaying: true, lastStartedAt: at };
+}
+
+/**
+ * Stops a running timer at `at`: the remaining time is snapshotted (negative in overtime)
+ * and the run appended to the task's sessions. A stopped timer is returned as is.
+ */
+export function stopTimer(todo: Todo, at: number): Todo {
+  if (!todo.isPlaying) return todo;
+  const start = todo.lastStartedAt;
+  const elapsed = start !== undefined ? Math.max(0, at - start) : 0;
+  return {
+    ...todo,
+    isPlaying: false,
+    lastStartedAt: undefined,
+    remainingTime: todo.remainingTime !== undefined ? todo.remainingTime - elapsed : undefined,
+    ...(start !== undefined && elapsed > 0 && { timeSessions: [...(todo.timeSessions || []), { start, end: at }] })
+  };
+}
+
+/**
+ * Time left on the timer right now (negative in overtime), undefined without a duration.
+ */
+export function getTimeLeft(todo: Todo, now: number = Date.now()): number | undefined {
+  if (todo.remainingTime === undefined) return undefined;
+  const elapsed = todo.isPlaying && todo.lastStartedAt ? now - todo.lastStartedAt : 0;
+  return todo.remainingTime - elapsed;
+}
+
+/**
+ * Time spent on the task: its logged sessions plus the current run. Tasks timed before sessions were
+ * logged fall back to how much of their countdown was used up.
+ */
+export function getTrackedTime(todo: Todo, now: number = Date.now()): number {
+  const running = todo.isPlaying && todo.lastStartedAt ? Math.max(0, now - todo.lastStartedAt) : 0;
+  if (todo.timeSessions?.length) {
+    return todo.timeSessions.reduce((sum, s) => sum + Math.max(0, s.end - s.start), 0) + running;
+  }
+  if (todo.durationMinutes && todo.remainingTime !== undefined) {
+    return Math.max(0, todo.durationMinutes * 60 * 1000 - todo.remainingTime) + running;
+  }
+  return running;
+}
+
+/**
+ * Duration text for tracked time, e.g. "1h 05m" or "12m".
+ */
+export function formatTrackedTime(ms: number): string {
+  const totalMinutes = Math.round(ms / (60 * 1000));
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return h > 0 ? `${h}h ${m.toString().padStart(2, '0')}m` : `${m}m`;
+}
+
+// === ESTIMATE ACCURACY ===
+
+export interface EstimateAccuracy {
+  key: string;
+  tasks: number;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  ratio: number; // Actual / estimated: above 1 means tasks take longer than planned
+}
+
+export interface EstimateAccuracyReport {
+  overall: EstimateAccuracy | null;
+  byLabel: EstimateAccuracy[]; // Most tasks first; tasks without a label are grouped under ''
+  byTier: EstimateAccuracy[];
+}
+
+// Tasks that say something about estimates: completed, with a duration and some time tracked
+const isMeasured = (t: Todo) =>
+  t.completed && !t.deletedAt && t.status !== 'graveyard' && (t.durationMinutes || 0) > 0 && getTrackedTime(t) > 0;
+
+const summarize = (key: string, tasks: Todo[]): EstimateAccuracy => {
+  const estimatedMinutes = tasks.reduce((sum, t) => sum + (t.durationMinutes || 0), 0);
+  const actualMinutes = tasks.reduce((sum, t) => sum + getTrackedTime(t) / (60 * 1000), 0);
+  return { key, tasks: tasks.length, estimatedMinutes, actualMinutes, ratio: actualMinutes / estimatedMinutes };
+};
+
+const groupBy = (tasks: Todo[], keyOf: (t: Todo) => string): EstimateAccuracy[] => {
+  const groups = new Map<string, Todo[]>();
+  tasks.forEach(t => {
+    const key = keyOf(t);
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+  return Array.from(groups, ([key, group]) => summarize(key, group)).sort((a, b) => b.tasks - a.tasks);
+};
+
+/**
+ * Estimated (durationMinutes) against actual (tracked) time of completed tasks, overall,
+ * per custom label (case-insensitive, shown as first written) and per tier.
+ */
+export function calculateEstimateAccuracy(allTodos: Todo[]): EstimateAccuracyReport {
+  const measured = allTodos.filter(isMeasured);
+  const labelNames = new Map<string, string>();
+  measured.forEach(t => {
+    const label = t.customLabel?.trim();
+    if (label && !labelNames.has(label.toLowerCase())) labelNames.set(label.toLowerCase(), label);
+  });
+
+  return {
+    overall: measured.length > 0 ? summarize('all', measured) : null,
+    byLabel: groupBy(measured, t => labelNames.get(t.customLabel?.trim().toLowerCase() || '') || ''),
+    byTier: groupBy(measured, t => getTierFromTodo(t, allTodos))
+  };
+}
@@ -0,0 +1,95 @@
+import { Todo } from '../types';
+
+// Time blocks for Today: a task scheduled at `scheduledAt` takes its estimate (durationMinutes) on the day's
+// timeline. Blocks snap to quarter hours; ones sharing time are laid out side by side in lanes.
+
+// === CONSTANTS ===
+
+export const SLOT_MINUTES = 15;
+
+// Height given to a task without an estimate
+export const DEFAULT_BLOCK_MINUTES = 30;
+
+// === BLOCKS ===
+
+export interface TimelineBlock {
+  todo: Todo;
+  start: number;
+  end: number;
+  lane: number; // Column within its group of overlapping blocks
+  lanes: number; // Columns the group needs
+  overlaps: boolean;
+}
+
+export interface TimelineGap {
+  start: number;
+  end: number;
+}
+
+export interface TimelineLayout {
+  blocks: TimelineBlock[];
+  gaps: TimelineGap[]; // Free time between blocks (at least a slot long)
+  unscheduled: Todo[]; // Not scheduled, or scheduled outside the day
+}
+
+export const getBlockMinutes = (todo: Todo): number =>
+  todo.durationMinutes && todo.durationMinutes > 0 ? todo.durationMinutes : DEFAULT_BLOCK_MINUTES;
+
+/**
+ * Places the tasks scheduled within [dayStart, dayEnd) on the timeline.
+ */
+export function layoutTimeline(tasks: Todo[], dayStart: number, dayEnd: number): TimelineLayout {
+  const isOnDay = (t: Todo) => t.scheduledAt !== undefined && t.scheduledAt >= dayStart && t.scheduledAt < dayEnd;
+  const scheduled = tasks
+    .filter(isOnDay)
+    .map(todo => ({ todo, start: todo.scheduledAt!, end: todo.scheduledAt! + getBlockMinutes(todo) * 60 * 1000 }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const blocks: TimelineBlock[] = [];
+  const gaps: TimelineGap[] = [];
+  let group: TimelineBlock[] = [];
+  let groupEnd = -Infinity;
+
+  const closeGroup = () => {
+    const lanes = Math.max(1, ...group.map(b => b.lane + 1));
+    group.forEach(b => blocks.push({ ...b, lanes, overlaps: group.length > 1 }));
+    group = [];
+  };
+
+  scheduled.forEach(entry => {
+    if (entry.start >= groupEnd) {
+      if (group.length > 0) {
+        closeGroup();
+        if (entry.start - groupEnd >= SLOT_MINUTES * 60 * 1000) gaps.push({ start: groupEnd, end: entry.start });
+      }
+      groupEnd = entry.end;
+    } else {
+      groupEnd = Math.max(groupEnd, entry.end);
+    }
+    // First lane whose last block has ended
+    let lane = 0;
+    while (group.some(b => b.lane === lane && b.end > entry.start)) lane++;
+    group.push({ ...entry, lane, lanes: 1, overlaps: false });
+  });
+  if (group.length > 0) closeGroup();
+
+  return { blocks, gaps, unscheduled: tasks.filter(t => !isOnDay(t)) };
+}
+
+/**
+ * Start of the slot `offsetMinutes` into the day falls in, kept inside the day.
+ */
+export function snapToSlot(dayStart: number, dayEnd: number, offsetMinutes: number): number {
+  const slots = Math.round(offsetMinutes / SLOT_MINUTES);
+  const lastSlot = Math.floor((dayEnd - dayStart) / (SLOT_MINUTES * 60 * 1000)) - 1;
+  return dayStart + Math.min(lastSlot, Math.max(0, slots)) * SLOT_MINUTES * 60 * 1000;
+}
+
+/**
+ * The open task whose block covers `now` (the latest-starting one if several do).
+ */
+export function findScheduledTask(tasks: Todo[], now: number = Date.now()): Todo | undefined {
+  return tasks
+    .filter(t => !t.completed && t.scheduledAt !== undefined && t.scheduledAt <= now && now < t.scheduledAt + getBlockMinutes(t) * 60 * 1000)
+    .sort((a, b) => b.scheduledAt! - a.scheduledAt!)[0];
+}
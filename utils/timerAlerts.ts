@@ -0,0 +1,117 @@
+// Alerts for a task timer reaching zero. The page keeps its own timeout (chime + in-app toast) and hands the
+// same alert to the service worker (public/timer-sw.js), which shows a notification with "Complete" and
+// "+15 min" actions even when the tab is in the background, or closed where scheduled notifications are supported.
+// Notification actions come back as 'timer:action' messages, or as URL parameters when the app had to be opened.
+
+export type TimerAction = 'complete' | 'extend' | 'open';
+
+// Minutes the "+15 min" action adds to the timer
+export const EXTEND_MINUTES = 15;
+
+const SCHEDULE_MESSAGE = 'timer:schedule';
+const CANCEL_MESSAGE = 'timer:cancel';
+const ACTION_MESSAGE = 'timer:action';
+
+const ACTION_PARAM = 'timerAction';
+const TASK_PARAM = 'task';
+
+const notificationTag = (taskId: string) => `timer-${taskId}`;
+
+const canNotify = () => typeof Notification !== 'undefined' && 'serviceWorker' in navigator;
+
+// === PERMISSION ===
+
+/**
+ * Asks for notification permission once (call from a user gesture, e.g. starting a timer).
+ */
+export function requestAlertPermission(): void {
+  if (canNotify() && Notification.permission === 'default') {
+    Notification.requestPermission().catch(err => console.error('Notification permission request failed:', err));
+  }
+}
+
+// === SCHEDULING ===
+
+const postToWorker = (message: Record<string, unknown>) => {
+  if (!canNotify()) return;
+  navigator.serviceWorker.ready
+    .then(registration => registration.active?.postMessage(message))
+    .catch(err => console.error('Failed to reach the service worker:', err));
+};
+
+/**
+ * Has the service worker notify at `at` that the task's time is up.
+ */
+export function scheduleTimerAlert(taskId: string, title: string, at: number): void {
+  if (!canNotify() || Notification.permission !== 'granted') return;
+  postToWorker({ type: SCHEDULE_MESSAGE, taskId, tag: notificationTag(taskId), title, at, extendMinutes: EXTEND_MINUTES });
+}
+
+/**
+ * Shows the notification right away (the page's own timeout fired while the tab is hidden;
+ * it replaces the scheduled one if both show up).
+ */
+export function showTimerAlert(taskId: string, title: string): void {
+  scheduleTimerAlert(taskId, title, Date.now());
+}
+
+/**
+ * Drops a scheduled alert (the timer was paused, completed or extended) and any notification it showed.
+ */
+export function cancelTimerAlert(taskId: string): void {
+  postToWorker({ type: CANCEL_MESSAGE, taskId, tag: notificationTag(taskId) });
+}
+
+// === FEEDBACK ===
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Short two-note chime (silently skipped where audio isn't available or not yet allowed).
+ */
+export function playChime(): void {
+  try {
+    const context = audioContext = audioContext || new AudioContext();
+    const start = context.currentTime;
+    [880, 1320].forEach((frequency, i) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start + i * 0.18);
+      gain.gain.exponentialRampToValueAtTime(0.2, start + i * 0.18 + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + i * 0.18 + 0.6);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start + i * 0.18);
+      oscillator.stop(start + i * 0.18 + 0.6);
+    });
+  } catch {
+    // ignore: the toast still shows
+  }
+}
+
+// === ACTIONS ===
+
+/**
+ * Calls `handler` for notification actions: the ones the app was opened with, then any
+ * the service worker forwards while it runs. Returns the unsubscribe function.
+ */
+export function subscribeToTimerActions(handler: (action: TimerAction, taskId: string) => void): () => void {
+  const params = new URLSearchParams(window.location.search);
+  const launchAction = params.get(ACTION_PARAM) as TimerAction | null;
+  const launchTask = params.get(TASK_PARAM);
+  if (launchAction && launchTask) {
+    params.delete(ACTION_PARAM);
+    params.delete(TASK_PARAM);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    handler(launchAction, launchTask);
+  }
+
+  if (!('serviceWorker' in navigator)) return () => {};
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type === ACTION_MESSAGE && event.data.taskId) handler(event.data.action, event.data.taskId);
+  };
+  navigator.serviceWorker.addEventListener('message', onMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
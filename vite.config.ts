@@ -23,6 +23,10 @@ export default defineConfig(({ mode }) => {
         VitePWA({
           registerType: 'autoUpdate',
           includeAssets: ['icon.svg'],
+          // Timer notifications (scheduling and action buttons) on top of the generated worker
+          workbox: {
+            importScripts: ['timer-sw.js']
+          },
           manifest: {
             name: 'North Star Goals',
             short_name: 'NorthStar',